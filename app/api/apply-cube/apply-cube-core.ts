@@ -0,0 +1,236 @@
+import sharp from "sharp"
+import { CubeLUT, CubeLUT1D, CubeLUT3D, LUTInterpolation } from "../shared/types"
+import { IMAGE_INPUT_OPTIONS } from "../shared/validator"
+
+export interface ApplyCubeOptions {
+  interpolation: LUTInterpolation
+  intensity: number // 0-100
+}
+
+export interface AppliedLUTInfo {
+  title?: string
+  size1D?: number
+  size3D?: number
+  interpolation: LUTInterpolation
+  intensity: number
+}
+
+// Output formats sharp can re-encode to; anything else falls back to JPEG
+const OUTPUT_FORMATS: Record<string, keyof sharp.FormatEnum> = {
+  jpeg: "jpeg",
+  png: "png",
+  webp: "webp",
+  tiff: "tiff",
+  avif: "avif",
+}
+
+export const OUTPUT_CONTENT_TYPES: Record<string, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  tiff: "image/tiff",
+  avif: "image/avif",
+}
+
+type RGB = [number, number, number]
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value))
+}
+
+// Map a value in the LUT domain to a fractional grid coordinate
+function toGridCoordinate(value: number, min: number, max: number, size: number): number {
+  return clamp(((value - min) / (max - min)) * (size - 1), 0, size - 1)
+}
+
+function apply1D(lut: CubeLUT1D, rgb: RGB): RGB {
+  const result: RGB = [0, 0, 0]
+  for (let channel = 0; channel < 3; channel++) {
+    const position = toGridCoordinate(rgb[channel]!, lut.domainMin[channel]!, lut.domainMax[channel]!, lut.size)
+    const lower = Math.floor(position)
+    const upper = Math.min(lower + 1, lut.size - 1)
+    const t = position - lower
+    const a = lut.data[lower * 3 + channel]!
+    const b = lut.data[upper * 3 + channel]!
+    result[channel] = a + (b - a) * t
+  }
+  return result
+}
+
+function lookup3D(lut: CubeLUT3D, r: number, g: number, b: number, channel: number): number {
+  return lut.data[(r + g * lut.size + b * lut.size * lut.size) * 3 + channel]!
+}
+
+function apply3DNearest(lut: CubeLUT3D, [x, y, z]: RGB): RGB {
+  const r = Math.round(x)
+  const g = Math.round(y)
+  const b = Math.round(z)
+  return [lookup3D(lut, r, g, b, 0), lookup3D(lut, r, g, b, 1), lookup3D(lut, r, g, b, 2)]
+}
+
+function apply3DTrilinear(lut: CubeLUT3D, [x, y, z]: RGB): RGB {
+  const r0 = Math.floor(x)
+  const g0 = Math.floor(y)
+  const b0 = Math.floor(z)
+  const r1 = Math.min(r0 + 1, lut.size - 1)
+  const g1 = Math.min(g0 + 1, lut.size - 1)
+  const b1 = Math.min(b0 + 1, lut.size - 1)
+  const dr = x - r0
+  const dg = y - g0
+  const db = z - b0
+
+  const result: RGB = [0, 0, 0]
+  for (let c = 0; c < 3; c++) {
+    const c00 = lookup3D(lut, r0, g0, b0, c) * (1 - dr) + lookup3D(lut, r1, g0, b0, c) * dr
+    const c10 = lookup3D(lut, r0, g1, b0, c) * (1 - dr) + lookup3D(lut, r1, g1, b0, c) * dr
+    const c01 = lookup3D(lut, r0, g0, b1, c) * (1 - dr) + lookup3D(lut, r1, g0, b1, c) * dr
+    const c11 = lookup3D(lut, r0, g1, b1, c) * (1 - dr) + lookup3D(lut, r1, g1, b1, c) * dr
+    const c0 = c00 * (1 - dg) + c10 * dg
+    const c1 = c01 * (1 - dg) + c11 * dg
+    result[c] = c0 * (1 - db) + c1 * db
+  }
+  return result
+}
+
+function apply3DTetrahedral(lut: CubeLUT3D, [x, y, z]: RGB): RGB {
+  const r0 = Math.floor(x)
+  const g0 = Math.floor(y)
+  const b0 = Math.floor(z)
+  const r1 = Math.min(r0 + 1, lut.size - 1)
+  const g1 = Math.min(g0 + 1, lut.size - 1)
+  const b1 = Math.min(b0 + 1, lut.size - 1)
+  const dr = x - r0
+  const dg = y - g0
+  const db = z - b0
+
+  const result: RGB = [0, 0, 0]
+  for (let c = 0; c < 3; c++) {
+    const c000 = lookup3D(lut, r0, g0, b0, c)
+    const c111 = lookup3D(lut, r1, g1, b1, c)
+
+    // Pick the tetrahedron containing the point by ordering the fractional offsets
+    if (dr > dg) {
+      if (dg > db) {
+        const c100 = lookup3D(lut, r1, g0, b0, c)
+        const c110 = lookup3D(lut, r1, g1, b0, c)
+        result[c] = c000 + dr * (c100 - c000) + dg * (c110 - c100) + db * (c111 - c110)
+      } else if (dr > db) {
+        const c100 = lookup3D(lut, r1, g0, b0, c)
+        const c101 = lookup3D(lut, r1, g0, b1, c)
+        result[c] = c000 + dr * (c100 - c000) + db * (c101 - c100) + dg * (c111 - c101)
+      } else {
+        const c001 = lookup3D(lut, r0, g0, b1, c)
+        const c101 = lookup3D(lut, r1, g0, b1, c)
+        result[c] = c000 + db * (c001 - c000) + dr * (c101 - c001) + dg * (c111 - c101)
+      }
+    } else {
+      if (db > dg) {
+        const c001 = lookup3D(lut, r0, g0, b1, c)
+        const c011 = lookup3D(lut, r0, g1, b1, c)
+        result[c] = c000 + db * (c001 - c000) + dg * (c011 - c001) + dr * (c111 - c011)
+      } else if (db > dr) {
+        const c010 = lookup3D(lut, r0, g1, b0, c)
+        const c011 = lookup3D(lut, r0, g1, b1, c)
+        result[c] = c000 + dg * (c010 - c000) + db * (c011 - c010) + dr * (c111 - c011)
+      } else {
+        const c010 = lookup3D(lut, r0, g1, b0, c)
+        const c110 = lookup3D(lut, r1, g1, b0, c)
+        result[c] = c000 + dg * (c010 - c000) + dr * (c110 - c010) + db * (c111 - c110)
+      }
+    }
+  }
+  return result
+}
+
+const INTERPOLATORS: Record<LUTInterpolation, (lut: CubeLUT3D, position: RGB) => RGB> = {
+  nearest: apply3DNearest,
+  trilinear: apply3DTrilinear,
+  tetrahedral: apply3DTetrahedral,
+}
+
+function apply3D(lut: CubeLUT3D, rgb: RGB, interpolation: LUTInterpolation): RGB {
+  const position: RGB = [
+    toGridCoordinate(rgb[0], lut.domainMin[0], lut.domainMax[0], lut.size),
+    toGridCoordinate(rgb[1], lut.domainMin[1], lut.domainMax[1], lut.size),
+    toGridCoordinate(rgb[2], lut.domainMin[2], lut.domainMax[2], lut.size),
+  ]
+  return INTERPOLATORS[interpolation](lut, position)
+}
+
+/**
+ * Transform a single normalized RGB value through the LUT (1D shaper first, then 3D)
+ */
+export function applyCubeLUTToColor(lut: CubeLUT, rgb: RGB, interpolation: LUTInterpolation): RGB {
+  let result = rgb
+  if (lut.lut1D) {
+    result = apply1D(lut.lut1D, result)
+  }
+  if (lut.lut3D) {
+    result = apply3D(lut.lut3D, result, interpolation)
+  }
+  return result
+}
+
+/**
+ * Apply a parsed LUT to interleaved 8-bit pixel data in place, leaving any alpha channel untouched
+ */
+export function applyCubeLUTToPixels(
+  pixels: Buffer,
+  channels: number,
+  lut: CubeLUT,
+  { interpolation, intensity }: ApplyCubeOptions
+): void {
+  const blend = clamp(intensity, 0, 100) / 100
+  if (blend === 0) return
+
+  for (let i = 0; i < pixels.length; i += channels) {
+    const input: RGB = [pixels[i]! / 255, pixels[i + 1]! / 255, pixels[i + 2]! / 255]
+    const output = applyCubeLUTToColor(lut, input, interpolation)
+
+    for (let c = 0; c < 3; c++) {
+      const value = input[c]! + (output[c]! - input[c]!) * blend
+      pixels[i + c] = Math.round(clamp(value, 0, 1) * 255)
+    }
+  }
+}
+
+export async function applyCubeToImage(
+  inputBuffer: Buffer,
+  lut: CubeLUT,
+  options: ApplyCubeOptions
+): Promise<{ outputBuffer: Buffer; format: string; appliedLUT: AppliedLUTInfo }> {
+  try {
+    const metadata = await sharp(inputBuffer, IMAGE_INPUT_OPTIONS).metadata()
+    const format = (metadata.format && OUTPUT_FORMATS[metadata.format]) || "jpeg"
+
+    // Decode to interleaved sRGB so every pixel has at least three colour channels
+    const { data, info } = await sharp(inputBuffer, IMAGE_INPUT_OPTIONS)
+      .rotate()
+      .toColourspace("srgb")
+      .raw()
+      .toBuffer({ resolveWithObject: true })
+
+    applyCubeLUTToPixels(data, info.channels, lut, options)
+
+    const outputBuffer = await sharp(data, {
+      raw: { width: info.width, height: info.height, channels: info.channels },
+    })
+      .toFormat(format)
+      .toBuffer()
+
+    return {
+      outputBuffer,
+      format,
+      appliedLUT: {
+        title: lut.title,
+        size1D: lut.lut1D?.size,
+        size3D: lut.lut3D?.size,
+        interpolation: options.interpolation,
+        intensity: options.intensity,
+      },
+    }
+  } catch (error) {
+    console.error("Error applying CUBE LUT:", error)
+    throw error
+  }
+}
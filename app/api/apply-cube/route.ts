@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server"
+import { applyCubeToImage, OUTPUT_CONTENT_TYPES } from "./apply-cube-core"
+import { validateApplyCubeOptions } from "./validator"
+import { parseCubeLUT } from "../shared/cube-parser"
+import { createContentDisposition, createJSONHeaderValue, getBaseName } from "../shared/response"
+import { CubeLUT } from "../shared/types"
+import { validateCubeFile, validateImageFile } from "../shared/validator"
+
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData()
+    const image = formData.get("image")
+    const cubeFile = formData.get("lut")
+
+    // Validate the uploaded image
+    const imageValidation = await validateImageFile(image instanceof File ? image : null)
+    if (!imageValidation.isValid) {
+      return NextResponse.json({ error: imageValidation.error }, { status: 400 })
+    }
+
+    // Validate CUBE file
+    const cubeValidation = validateCubeFile(cubeFile instanceof File ? cubeFile : null)
+    if (!cubeValidation.isValid) {
+      return NextResponse.json({ error: cubeValidation.error }, { status: 400 })
+    }
+
+    // Validate interpolation and intensity
+    const optionsValidation = validateApplyCubeOptions(formData)
+    if (!optionsValidation.isValid) {
+      return NextResponse.json({ error: optionsValidation.error }, { status: 400 })
+    }
+
+    // Convert files to buffers and validate CUBE content
+    const imageBuffer = Buffer.from(await (image as File).arrayBuffer())
+    const cubeString = await (cubeFile as File).text()
+
+    let lut: CubeLUT
+    try {
+      lut = parseCubeLUT(cubeString)
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : "Invalid CUBE file" }, { status: 400 })
+    }
+
+    // Apply the LUT to the image
+    const { outputBuffer, format, appliedLUT } = await applyCubeToImage(imageBuffer, lut, optionsValidation.options!)
+
+    // Return the processed image as a response
+    const extension = format === "jpeg" ? "jpg" : format
+    return new NextResponse(outputBuffer, {
+      status: 200,
+      headers: {
+        "Content-Type": OUTPUT_CONTENT_TYPES[format] ?? "image/jpeg",
+        "Content-Disposition": createContentDisposition(`processed_${getBaseName((image as File).name)}.${extension}`),
+        // The title comes from the uploaded file, so it may hold characters a header cannot carry as-is
+        "X-Applied-LUT": createJSONHeaderValue(appliedLUT),
+      },
+    })
+  } catch (error) {
+    console.error("Error processing image:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to process image" },
+      { status: 500 }
+    )
+  }
+}
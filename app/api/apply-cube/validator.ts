@@ -0,0 +1,42 @@
+import { z } from "zod"
+import { ApplyCubeOptions } from "./apply-cube-core"
+import { ValidationResult } from "../shared/validator"
+
+export const INTERPOLATION_MODES = ["nearest", "trilinear", "tetrahedral"] as const
+
+export const ApplyCubeOptionsSchema = z.object({
+  interpolation: z.enum(INTERPOLATION_MODES).default("tetrahedral"),
+  intensity: z.coerce.number().min(0).max(100).default(100),
+})
+
+export type ApplyCubeOptionsValidationResult = ValidationResult & {
+  options?: ApplyCubeOptions
+}
+
+export function validateApplyCubeOptions(formData: FormData): ApplyCubeOptionsValidationResult {
+  const field = (name: string) => {
+    const value = formData.get(name)
+    return typeof value === "string" && value.trim() !== "" ? value.trim().toLowerCase() : undefined
+  }
+
+  const result = ApplyCubeOptionsSchema.safeParse({
+    interpolation: field("interpolation"),
+    intensity: field("intensity"),
+  })
+
+  if (!result.success) {
+    const firstError = result.error.issues[0]
+    if (firstError?.path[0] === "interpolation") {
+      return {
+        isValid: false,
+        error: `Unsupported interpolation mode. Supported modes: ${INTERPOLATION_MODES.join(", ")}`,
+      }
+    }
+    if (firstError?.path[0] === "intensity") {
+      return { isValid: false, error: "Intensity must be a number between 0 and 100" }
+    }
+    return { isValid: false, error: firstError?.message ?? "Invalid options" }
+  }
+
+  return { isValid: true, options: result.data }
+}
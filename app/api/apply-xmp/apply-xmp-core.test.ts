@@ -0,0 +1,102 @@
+/** @jest-environment node */
+import { describe, expect, it } from "@jest/globals"
+import sharp from "sharp"
+import { applyXMPToImage } from "./apply-xmp-core"
+import { validateXMPContent } from "../shared/validator"
+
+const SOURCE = { r: 60, g: 110, b: 200 }
+
+function createXMP(settings: Record<string, number>): string {
+  const attributes = Object.entries(settings)
+    .map(([name, value]) => `crs:${name}="${value}"`)
+    .join(" ")
+  return `<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" xmlns:crs="http://ns.adobe.com/camera-raw-settings/1.0/" ${attributes}/>
+  </rdf:RDF>
+</x:xmpmeta>`
+}
+
+async function renderMeans(settings: Record<string, number>): Promise<{ r: number; g: number; b: number }> {
+  const image = await sharp({ create: { width: 16, height: 16, channels: 3, background: SOURCE } })
+    .png()
+    .toBuffer()
+  const { outputBuffer } = await applyXMPToImage(image, createXMP(settings))
+  const [r, g, b] = (await sharp(outputBuffer).stats()).channels.map((channel) => channel.mean)
+  return { r: r!, g: g!, b: b! }
+}
+
+describe("white balance", () => {
+  it("accepts and renders a Kelvin temperature as a moderate warm shift", async () => {
+    const settings = { Temperature: 6935, Tint: 0 }
+    const validation = await validateXMPContent(createXMP(settings))
+    expect(validation.isValid).toBe(true)
+    expect(validation.issues.filter((issue) => issue.severity === "error")).toEqual([])
+
+    const { r, g, b } = await renderMeans(settings)
+    expect(r).toBeGreaterThan(SOURCE.r)
+    expect(r).toBeLessThan(SOURCE.r * 1.5)
+    expect(g).toBeCloseTo(SOURCE.g, 0)
+    expect(b).toBeCloseTo(SOURCE.b, 0)
+  })
+
+  it("renders a Kelvin temperature below daylight cooler", async () => {
+    const { r, b } = await renderMeans({ Temperature: 4000 })
+    expect(r).toBeCloseTo(SOURCE.r, 0)
+    expect(b).toBeGreaterThan(SOURCE.b)
+  })
+
+  it("keeps every channel when only the tint changes", async () => {
+    const { r, g, b } = await renderMeans({ Tint: 10 })
+    expect(r).toBeCloseTo(SOURCE.r, 0)
+    expect(g).toBeGreaterThan(SOURCE.g)
+    expect(b).toBeCloseTo(SOURCE.b, 0)
+  })
+
+  it("renders a negative tint as magenta without darkening green", async () => {
+    const { r, g, b } = await renderMeans({ Tint: -10 })
+    expect(r).toBeGreaterThan(SOURCE.r)
+    expect(g).toBeCloseTo(SOURCE.g, 0)
+    expect(b).toBeGreaterThan(SOURCE.b)
+  })
+})
+
+describe("exposure", () => {
+  it("applies the slider in stops", async () => {
+    const darker = await renderMeans({ Exposure2012: -1 })
+    expect(darker.g).toBeCloseTo(SOURCE.g / 2, -1)
+    expect(darker.b).toBeCloseTo(SOURCE.b / 2, -1)
+  })
+
+  it("keeps exposure when dehaze is also set", async () => {
+    const dehazed = await renderMeans({ Dehaze: 20 })
+    const darker = await renderMeans({ Exposure2012: -1, Dehaze: 20 })
+    expect(darker.g).toBeLessThan(dehazed.g * 0.75)
+  })
+})
+
+describe("tone", () => {
+  it("lifts shadows per channel without greying the image", async () => {
+    const { r, g, b } = await renderMeans({ Shadows2012: 30 })
+    expect(r).toBeGreaterThan(SOURCE.r)
+    expect(r).toBeLessThan(g)
+    expect(g).toBeLessThan(b)
+    expect(b).toBeCloseTo(SOURCE.b, -1)
+  })
+
+  it("keeps the white balance when shadows are also set", async () => {
+    const shadows = await renderMeans({ Shadows2012: 30 })
+    const warmed = await renderMeans({ Temperature: 6935, Shadows2012: 30 })
+    expect(warmed.r).toBeGreaterThan(shadows.r + 5)
+    expect(warmed.g).toBeCloseTo(shadows.g, 0)
+    expect(warmed.b).toBeCloseTo(shadows.b, 0)
+  })
+})
+
+describe("effects", () => {
+  it("keeps the vignette when grain is also applied", async () => {
+    const grain = await renderMeans({ GrainAmount: 20 })
+    const vignetted = await renderMeans({ VignetteAmount: -80, GrainAmount: 20 })
+    expect(vignetted.g).toBeLessThan(grain.g * 0.95)
+  })
+})
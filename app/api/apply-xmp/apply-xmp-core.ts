@@ -1,55 +1,93 @@
-import sharp, { Matrix3x3 } from "sharp"
+import sharp, { OverlayOptions } from "sharp"
+import { COLOR_RANGES } from "../extract-xmp-cube/constants"
+import { ColorChannel } from "../extract-xmp-cube/types"
 import {
-  calculateHueSaturationMatrix,
-  convertToneCurveToMatrix,
+  applyColorGradingToPixels,
+  applyHSLAdjustmentsToPixels,
+  applyToneCurvesToPixels,
+  calculateWhiteBalanceGains,
+  ColorGrading,
+  ColorWheel,
   createNoiseSVG,
   createParametricCurve,
-  createShadowHighlightMatrix,
+  createShadowHighlightCurve,
   createVignetteSVG,
-  hueToRGB,
-  multiplyMatrices,
+  HSLBandAdjustment,
 } from "../shared/image-utils"
 import { XMPAdjustments } from "../shared/types"
+import { IMAGE_INPUT_OPTIONS } from "../shared/validator"
 import { parseXMPAdjustments as parseXMP, parseXMPData } from "../shared/xml-parser"
 
+// Stages applyXMPToImage reports as it runs, in order
+export const APPLY_STAGES = ["decode", "render", "encode"] as const
+
+export type ApplyStage = (typeof APPLY_STAGES)[number]
+
 export async function parseXMPString(xmpString: string): Promise<XMPAdjustments> {
-  const xmpData = parseXMPData(xmpString)
-  return parseXMP(xmpData)
+  const document = parseXMPData(xmpString)
+  return parseXMP(document)
 }
 
+/**
+ * Materialize the pipeline so far into raw sRGB pixels, run `pass` over them, and continue from the result.
+ * Sharp applies chained operations in a fixed internal order, so this also pins everything queued before it.
+ */
+async function applyPixelPass(
+  image: sharp.Sharp,
+  pass: (pixels: Buffer, channels: number) => void
+): Promise<sharp.Sharp> {
+  const { data, info } = await image.toColourspace("srgb").raw().toBuffer({ resolveWithObject: true })
+  pass(data, info.channels)
+  return sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } })
+}
+
+// `onStage` is called as each stage starts
 export async function applyXMPToImage(
   inputBuffer: Buffer,
-  xmpString: string
+  xmpString: string,
+  onStage?: (stage: ApplyStage) => void
 ): Promise<{ outputBuffer: Buffer; appliedAdjustments: XMPAdjustments }> {
+  onStage?.("decode")
   const adjustments = await parseXMPString(xmpString)
-  let image = sharp(inputBuffer)
+  let image = sharp(inputBuffer, IMAGE_INPUT_OPTIONS)
+  const { format: inputFormat } = await image.metadata()
 
   try {
-    // Apply white balance (temperature and tint)
-    if (adjustments.temperature || adjustments.tint) {
-      const tempFactor = Math.pow(1.0075, adjustments.temperature)
-      const tintFactor = Math.pow(1.0075, adjustments.tint)
+    onStage?.("render")
 
-      image = image.tint({
-        r: tempFactor > 1 ? tempFactor : 1,
-        g: tintFactor > 1 ? tintFactor : 1,
-        b: tempFactor < 1 ? 1 / tempFactor : 1,
-      })
+    // Apply white balance (temperature and tint) as per-channel gains; Kelvin temperatures are rendered on the
+    // relative scale. Sharp keeps only the last recomb in a pipeline, so this must stay the only one
+    if (adjustments.temperature || adjustments.tint) {
+      const [red, green, blue] = calculateWhiteBalanceGains(adjustments.temperature, adjustments.tint)
+      image = image.recomb([
+        [red, 0, 0],
+        [0, green, 0],
+        [0, 0, blue],
+      ])
     }
 
-    // Apply exposure, contrast, and brightness
-    const exposureFactor = Math.pow(2, adjustments.exposure / 100)
+    // Apply exposure (in stops), contrast, and brightness, followed by dehaze and tone map strength. Sharp keeps
+    // only the last linear in a pipeline, so both are composed into one
+    const exposureFactor = Math.pow(2, adjustments.exposure)
     const contrastFactor = 1 + adjustments.contrast / 100
     const brightnessFactor = 1 + adjustments.brightness / 100
-    image = image.linear(exposureFactor * brightnessFactor, -(128 * (contrastFactor - 1)))
+    const dehazeStrength = (adjustments.dehaze + adjustments.toneMapStrength) / 100
+    image = image.linear(
+      ...composeLinear(
+        [exposureFactor * brightnessFactor, -(128 * (contrastFactor - 1))],
+        [1 + dehazeStrength, -dehazeStrength * 128]
+      )
+    )
 
-    // Apply shadows and highlights recovery
+    // Apply shadows and highlights recovery as a tone curve per pixel
     if (adjustments.shadows || adjustments.highlights || adjustments.whites || adjustments.blacks) {
-      const shadowMatrix = createShadowHighlightMatrix(
+      const shadowHighlightCurve = createShadowHighlightCurve(
         adjustments.shadows + adjustments.blacks,
         adjustments.highlights + adjustments.whites
       )
-      image = image.recomb(shadowMatrix)
+      image = await applyPixelPass(image, (pixels, channels) =>
+        applyToneCurvesToPixels(pixels, channels, { master: shadowHighlightCurve })
+      )
     }
 
     // Apply saturation, vibrance, and shadow tint
@@ -57,7 +95,7 @@ export async function applyXMPToImage(
       const shadowTintFactor = adjustments.shadowTint / 100
       image = image.modulate({
         saturation: 1 + (adjustments.saturation / 100 + adjustments.vibrance / 200),
-        hue: shadowTintFactor * 180, // Convert tint to hue shift
+        hue: Math.round(shadowTintFactor * 180), // Convert tint to hue shift; sharp only accepts whole degrees
       })
     }
 
@@ -65,31 +103,20 @@ export async function applyXMPToImage(
     if (adjustments.clarity || adjustments.texture) {
       const clarityRadius = Math.max(1, Math.round(adjustments.clarity / 10))
 
-      // Create properly typed kernels
+      // sharp only accepts plain arrays as kernels
       const claritySize = clarityRadius * 2 + 1
       const clarityValue = 1 / (claritySize * claritySize)
-      const clarityKernel = new Float32Array(claritySize * claritySize).fill(clarityValue)
+      const clarityKernel = new Array<number>(claritySize * claritySize).fill(clarityValue)
 
-      const textureKernel = new Float32Array([-1, -1, -1, -1, 9, -1, -1, -1, -1])
+      const textureKernel = [-1, -1, -1, -1, 9, -1, -1, -1, -1]
 
-      image = image
-        .convolve({
-          width: claritySize,
-          height: claritySize,
-          kernel: clarityKernel,
-        })
-        .convolve({
-          width: 3,
-          height: 3,
-          kernel: textureKernel,
-        })
-    }
-
-    // Apply dehaze and tone map strength
-    if (adjustments.dehaze || adjustments.toneMapStrength) {
-      const dehazeStrength = adjustments.dehaze / 100
-      const toneMapStrength = adjustments.toneMapStrength / 100
-      image = image.linear(1 + dehazeStrength + toneMapStrength, -(dehazeStrength + toneMapStrength) * 128)
+      // Sharp keeps only the last convolve in a pipeline, so apply both kernels as one
+      const size = claritySize + 2
+      image = image.convolve({
+        width: size,
+        height: size,
+        kernel: convolveKernels(clarityKernel, claritySize, textureKernel, 3),
+      })
     }
 
     // Apply parametric adjustments
@@ -100,61 +127,35 @@ export async function applyXMPToImage(
       adjustments.parametricHighlights
     ) {
       const parametricCurve = createParametricCurve(adjustments)
-      const matrix = convertToneCurveToMatrix(parametricCurve)
-      image = image.recomb([matrix, matrix, matrix] as Matrix3x3)
+      image = await applyPixelPass(image, (pixels, channels) =>
+        applyToneCurvesToPixels(pixels, channels, { master: parametricCurve })
+      )
     }
 
-    // Apply color adjustments
-    const colorMatrix = calculateColorMatrix(adjustments)
-    if (colorMatrix) {
-      image = image.recomb(colorMatrix)
+    // Apply per-band HSL adjustments to the hues each band targets
+    const hslBands = calculateHSLBands(adjustments)
+    if (hslBands) {
+      image = await applyPixelPass(image, (pixels, channels) => applyHSLAdjustmentsToPixels(pixels, channels, hslBands))
     }
 
-    // Apply split toning
-    if (
-      adjustments.splitToningShadowHue ||
-      adjustments.splitToningShadowSaturation ||
-      adjustments.splitToningHighlightHue ||
-      adjustments.splitToningHighlightSaturation
-    ) {
-      const splitToningMatrix = createSplitToningMatrix(
-        adjustments.splitToningShadowHue,
-        adjustments.splitToningShadowSaturation,
-        adjustments.splitToningHighlightHue,
-        adjustments.splitToningHighlightSaturation,
-        adjustments.splitToningBalance
+    // Apply colour grading (or legacy split toning) through luminance masks
+    const colorGrading = calculateColorGrading(adjustments)
+    if (colorGrading) {
+      image = await applyPixelPass(image, (pixels, channels) =>
+        applyColorGradingToPixels(pixels, channels, colorGrading)
       )
-      image = image.recomb(splitToningMatrix)
     }
 
-    // Apply tone curves
+    // Apply tone curves per pixel, since a 3x3 matrix cannot represent a curve
     if (adjustments.toneCurve || adjustments.toneCurveRed || adjustments.toneCurveGreen || adjustments.toneCurveBlue) {
-      const redMatrix = adjustments.toneCurveRed
-        ? convertToneCurveToMatrix(adjustments.toneCurveRed)
-        : convertToneCurveToMatrix(
-            adjustments.toneCurve || [
-              [0, 0],
-              [255, 255],
-            ]
-          )
-      const greenMatrix = adjustments.toneCurveGreen
-        ? convertToneCurveToMatrix(adjustments.toneCurveGreen)
-        : convertToneCurveToMatrix(
-            adjustments.toneCurve || [
-              [0, 0],
-              [255, 255],
-            ]
-          )
-      const blueMatrix = adjustments.toneCurveBlue
-        ? convertToneCurveToMatrix(adjustments.toneCurveBlue)
-        : convertToneCurveToMatrix(
-            adjustments.toneCurve || [
-              [0, 0],
-              [255, 255],
-            ]
-          )
-
-      image = image.recomb([redMatrix, greenMatrix, blueMatrix] as Matrix3x3)
+      image = await applyPixelPass(image, (pixels, channels) =>
+        applyToneCurvesToPixels(pixels, channels, {
+          master: adjustments.toneCurve,
+          red: adjustments.toneCurveRed,
+          green: adjustments.toneCurveGreen,
+          blue: adjustments.toneCurveBlue,
+        })
+      )
     }
 
     // Apply sharpening and noise reduction
@@ -171,9 +172,15 @@ export async function applyXMPToImage(
 
     if (adjustments.luminanceSmoothing || adjustments.colorNoiseReduction) {
       const sigma = Math.max(adjustments.luminanceSmoothing, adjustments.colorNoiseReduction) / 100
-      image = image.blur(sigma)
+      // Below sharp's minimum sigma the blur would be imperceptible anyway
+      if (sigma >= 0.3) {
+        image = image.blur(sigma)
+      }
     }
 
+    // Sharp keeps only the last composite in a pipeline, so the vignette and grain are layered in one call
+    const overlays: OverlayOptions[] = []
+
     // Apply vignette
     if (adjustments.vignetteAmount) {
       const metadata = await sharp(inputBuffer).metadata()
@@ -186,7 +193,7 @@ export async function applyXMPToImage(
         adjustments.vignetteMidpoint || 50
       )
       const vignetteBuffer = await sharp(Buffer.from(svg)).toBuffer()
-      image = image.composite([{ input: vignetteBuffer, blend: "multiply" }])
+      overlays.push({ input: vignetteBuffer, blend: "multiply" })
     }
 
     // Apply grain if specified
@@ -199,11 +206,18 @@ export async function applyXMPToImage(
       // Create noise pattern
       const svg = createNoiseSVG(width, height, adjustments.grainAmount / 100, grainSize, grainFrequency)
       const noiseBuffer = await sharp(Buffer.from(svg)).toBuffer()
-      image = image.composite([{ input: noiseBuffer, blend: "overlay" }])
+      overlays.push({ input: noiseBuffer, blend: "overlay" })
+    }
+
+    if (overlays.length > 0) {
+      image = image.composite(overlays)
     }
 
-    // Process the image and return the result
-    const outputBuffer = await image.toBuffer()
+    // Process the image and return the result in the input's format (raw passes would otherwise emit raw pixels)
+    onStage?.("encode")
+    const outputBuffer = await image
+      .toFormat(inputFormat && inputFormat in sharp.format ? inputFormat : "jpeg")
+      .toBuffer()
     return { outputBuffer, appliedAdjustments: adjustments }
   } catch (error) {
     console.error("Error applying XMP adjustments:", error)
@@ -211,92 +225,87 @@ export async function applyXMPToImage(
   }
 }
 
-function calculateColorMatrix(adjustments: XMPAdjustments): Matrix3x3 | null {
-  const hasColorAdjustments =
-    adjustments.redHue ||
-    adjustments.redSaturation ||
-    adjustments.orangeHue ||
-    adjustments.orangeSaturation ||
-    adjustments.yellowHue ||
-    adjustments.yellowSaturation ||
-    adjustments.greenHue ||
-    adjustments.greenSaturation ||
-    adjustments.aquaHue ||
-    adjustments.aquaSaturation ||
-    adjustments.blueHue ||
-    adjustments.blueSaturation ||
-    adjustments.purpleHue ||
-    adjustments.purpleSaturation ||
-    adjustments.magentaHue ||
-    adjustments.magentaSaturation
-
-  if (!hasColorAdjustments) return null
-
-  // Define color ranges in degrees
-  const colorRanges = [
-    { name: "red", hue: 0, width: 30 },
-    { name: "orange", hue: 30, width: 30 },
-    { name: "yellow", hue: 60, width: 30 },
-    { name: "green", hue: 120, width: 60 },
-    { name: "aqua", hue: 180, width: 30 },
-    { name: "blue", hue: 240, width: 60 },
-    { name: "purple", hue: 300, width: 30 },
-    { name: "magenta", hue: 330, width: 30 },
-  ]
-
-  // Create matrices for each color adjustment and combine them
-  let resultMatrix: Matrix3x3 = [
-    [1, 0, 0],
-    [0, 1, 0],
-    [0, 0, 1],
-  ]
-
-  colorRanges.forEach((range) => {
-    const hueKey = `${range.name}Hue` as keyof XMPAdjustments
-    const satKey = `${range.name}Saturation` as keyof XMPAdjustments
-    const hue = adjustments[hueKey] as number
-    const saturation = adjustments[satKey] as number
-
-    if (hue || saturation) {
-      const colorMatrix = calculateHueSaturationMatrix(hue, saturation)
-      resultMatrix = multiplyMatrices(resultMatrix, colorMatrix)
+// The single `a * x + b` that applies `first` and then `second`
+function composeLinear(first: [number, number], second: [number, number]): [number, number] {
+  return [first[0] * second[0], second[0] * first[1] + second[1]]
+}
+
+// Full 2D convolution of two square kernels, giving the single kernel that applies both in turn
+function convolveKernels(a: number[], aSize: number, b: number[], bSize: number): number[] {
+  const size = aSize + bSize - 1
+  const kernel = new Array<number>(size * size).fill(0)
+  for (let ay = 0; ay < aSize; ay++) {
+    for (let ax = 0; ax < aSize; ax++) {
+      for (let by = 0; by < bSize; by++) {
+        for (let bx = 0; bx < bSize; bx++) {
+          const index = (ay + by) * size + ax + bx
+          kernel[index] = kernel[index]! + a[ay * aSize + ax]! * b[by * bSize + bx]!
+        }
+      }
     }
-  })
+  }
+  return kernel
+}
+
+function calculateHSLBands(adjustments: XMPAdjustments): HSLBandAdjustment[] | null {
+  const bands = (Object.keys(COLOR_RANGES) as ColorChannel[]).map((channel) => ({
+    center: COLOR_RANGES[channel].center,
+    hue: adjustments[`${channel}Hue`] || 0,
+    saturation: adjustments[`${channel}Saturation`] || 0,
+    luminance: adjustments[`${channel}Luminance`] || 0,
+  }))
 
-  return resultMatrix
+  const hasColorAdjustments = bands.some((band) => band.hue || band.saturation || band.luminance)
+  return hasColorAdjustments ? bands : null
 }
 
-function createSplitToningMatrix(
-  shadowHue: number,
-  shadowSaturation: number,
-  highlightHue: number,
-  highlightSaturation: number,
-  balance: number
-): Matrix3x3 {
-  // Convert hues to RGB colors
-  const shadowColor = hueToRGB(shadowHue)
-  const highlightColor = hueToRGB(highlightHue)
-
-  // Adjust for saturation and balance
-  const shadowStrength = (shadowSaturation / 100) * ((100 - balance) / 100)
-  const highlightStrength = (highlightSaturation / 100) * (balance / 100)
-
-  // Create matrix that applies shadows to dark areas and highlights to bright areas
-  return [
-    [
-      1 + shadowColor.r * shadowStrength + highlightColor.r * highlightStrength,
-      shadowColor.g * shadowStrength + highlightColor.g * highlightStrength,
-      shadowColor.b * shadowStrength + highlightColor.b * highlightStrength,
-    ],
-    [
-      shadowColor.r * shadowStrength + highlightColor.r * highlightStrength,
-      1 + shadowColor.g * shadowStrength + highlightColor.g * highlightStrength,
-      shadowColor.b * shadowStrength + highlightColor.b * highlightStrength,
-    ],
-    [
-      shadowColor.r * shadowStrength + highlightColor.r * highlightStrength,
-      shadowColor.g * shadowStrength + highlightColor.g * highlightStrength,
-      1 + shadowColor.b * shadowStrength + highlightColor.b * highlightStrength,
-    ],
-  ]
+function calculateColorGrading(adjustments: XMPAdjustments): ColorGrading | null {
+  const wheel = (hue: number, saturation: number, luminance: number = 0): ColorWheel => ({
+    hue: hue || 0,
+    saturation: saturation || 0,
+    luminance: luminance || 0,
+  })
+
+  const colorGrading: ColorGrading = {
+    shadows: wheel(
+      adjustments.colorGradeShadowHue,
+      adjustments.colorGradeShadowSaturation,
+      adjustments.colorGradeShadowLuminance
+    ),
+    midtones: wheel(
+      adjustments.colorGradeMidtoneHue,
+      adjustments.colorGradeMidtoneSaturation,
+      adjustments.colorGradeMidtoneLuminance
+    ),
+    highlights: wheel(
+      adjustments.colorGradeHighlightHue,
+      adjustments.colorGradeHighlightSaturation,
+      adjustments.colorGradeHighlightLuminance
+    ),
+    global: wheel(
+      adjustments.colorGradeGlobalHue,
+      adjustments.colorGradeGlobalSaturation,
+      adjustments.colorGradeGlobalLuminance
+    ),
+    blending: adjustments.colorGradeBlending ?? 50,
+    balance: adjustments.colorGradeBalance || 0,
+  }
+
+  const wheels = [colorGrading.shadows, colorGrading.midtones, colorGrading.highlights, colorGrading.global]
+  if (wheels.some((w) => w.saturation || w.luminance)) {
+    return colorGrading
+  }
+
+  // Lightroom mirrors split toning into the shadow and highlight wheels, so only fall back to it when
+  // no colour grading is present to avoid tinting twice
+  if (adjustments.splitToningShadowSaturation || adjustments.splitToningHighlightSaturation) {
+    return {
+      ...colorGrading,
+      shadows: wheel(adjustments.splitToningShadowHue, adjustments.splitToningShadowSaturation),
+      highlights: wheel(adjustments.splitToningHighlightHue, adjustments.splitToningHighlightSaturation),
+      balance: adjustments.splitToningBalance || 0,
+    }
+  }
+
+  return null
 }
@@ -1,24 +1,22 @@
 import { NextResponse } from "next/server"
-import { applyXMPToImage } from "./apply-xmp-core"
-import { cleanupTempFiles, saveUploadedImage } from "../shared/file-manager"
+import { runAnalysisTask } from "../shared/analysis-pool"
+import { createJSONHeaderValue, createWorkerErrorResponse } from "../shared/response"
 import { validateImageFile, validateXMPContent, validateXMPFile } from "../shared/validator"
 
 export async function POST(request: Request) {
-  let tmpDir: string | undefined
-
   try {
     const formData = await request.formData()
     const image = formData.get("image")
     const xmpFile = formData.get("xmp")
 
     // Validate the uploaded image
-    const imageValidation = validateImageFile(image instanceof File ? image : null)
+    const imageValidation = await validateImageFile(image instanceof File ? image : null)
     if (!imageValidation.isValid) {
       return NextResponse.json({ error: imageValidation.error }, { status: 400 })
     }
 
     // Validate XMP file
-    const xmpValidation = validateXMPFile(xmpFile instanceof File ? xmpFile : null)
+    const xmpValidation = await validateXMPFile(xmpFile instanceof File ? xmpFile : null)
     if (!xmpValidation.isValid) {
       return NextResponse.json({ error: xmpValidation.error }, { status: 400 })
     }
@@ -29,15 +27,16 @@ export async function POST(request: Request) {
 
     const xmpContentValidation = await validateXMPContent(xmpString)
     if (!xmpContentValidation.isValid) {
-      return NextResponse.json({ error: xmpContentValidation.error }, { status: 400 })
+      return NextResponse.json(
+        { error: xmpContentValidation.error, issues: xmpContentValidation.issues },
+        { status: 400 }
+      )
     }
 
-    // Save files and get paths
-    const { tmpDir: tempDir } = await saveUploadedImage(image as File)
-    tmpDir = tempDir
-
-    // Apply XMP adjustments to image
-    const { outputBuffer, appliedAdjustments } = await applyXMPToImage(imageBuffer, xmpString)
+    // Apply XMP adjustments to image on the worker pool
+    const { outputBuffer, appliedAdjustments } = await runAnalysisTask("apply", [imageBuffer, xmpString], {
+      signal: request.signal,
+    })
 
     // Return the processed image as a response
     return new NextResponse(outputBuffer, {
@@ -45,20 +44,18 @@ export async function POST(request: Request) {
       headers: {
         "Content-Type": "image/jpeg",
         "Content-Disposition": `attachment; filename="processed_${(image as File).name}"`,
-        "X-Applied-Adjustments": JSON.stringify(appliedAdjustments),
+        "X-Applied-Adjustments": createJSONHeaderValue(appliedAdjustments),
       },
     })
   } catch (error) {
+    const workerErrorResponse = createWorkerErrorResponse(error)
+    if (workerErrorResponse) return workerErrorResponse
+
     console.error("Error processing image:", error)
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "Failed to process image" },
       { status: 500 }
     )
-  } finally {
-    // Clean up temporary files
-    if (tmpDir) {
-      await cleanupTempFiles(tmpDir)
-    }
   }
 }
 
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { getArtifact, verifyArtifactDownload } from "../../shared/file-manager"
+import { createAttachmentResponse } from "../../shared/response"
+import { isValidContentKey } from "../../shared/storage"
+
+interface RouteContext {
+  params: Promise<{ key: string }>
+}
+
+// Download a stored artifact through a signed URL from storeArtifact
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { key } = await params
+    const { searchParams } = new URL(request.url)
+    if (!isValidContentKey(key) || !verifyArtifactDownload(key, searchParams)) {
+      return NextResponse.json({ error: "Invalid or expired download link" }, { status: 403 })
+    }
+
+    const artifact = await getArtifact(key)
+    if (!artifact) {
+      return NextResponse.json({ error: "Artifact is no longer available" }, { status: 410 })
+    }
+    return createAttachmentResponse(artifact.content, searchParams.get("filename") || key, artifact.contentType)
+  } catch (error) {
+    console.error("Error reading artifact:", error)
+    return NextResponse.json({ error: "Failed to read artifact" }, { status: 500 })
+  }
+}
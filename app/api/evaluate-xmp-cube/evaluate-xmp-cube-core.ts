@@ -0,0 +1,175 @@
+import sharp from "sharp"
+import { applyCubeLUTToPixels } from "../apply-cube/apply-cube-core"
+import { LUTOptions } from "../extract-xmp-cube/types"
+import { runAnalysisTask } from "../shared/analysis-pool"
+import { parseCubeLUT } from "../shared/cube-parser"
+import { calculateDeltaE2000, hslToRgb, rgbToLab } from "../shared/image-utils"
+import { ImageProperties } from "../shared/types"
+import { IMAGE_INPUT_OPTIONS } from "../shared/validator"
+
+export interface DeltaEStats {
+  mean: number
+  p95: number
+  max: number
+}
+
+// Earth mover's distance between normalized channel histograms, in 8-bit levels
+export interface HistogramDistance {
+  red: number
+  green: number
+  blue: number
+}
+
+export interface FidelityReport {
+  deltaE: DeltaEStats
+  histogramDistance: HistogramDistance
+  heatmap: Buffer // PNG, blue for a perfect match through red at HEATMAP_MAX_DELTA_E and above
+}
+
+export interface EvaluationResult {
+  width: number
+  height: number
+  input: "source" | "reference"
+  xmpContent: string
+  cubeContent: string
+  imageProperties: ImageProperties
+  xmp: FidelityReport
+  cube: FidelityReport
+}
+
+// Long edge of the proxies presets are rendered and scored at
+const EVALUATION_SIZE = 1024
+
+// ΔE at which the heatmap saturates; above ~10 colours read as clearly different
+const HEATMAP_MAX_DELTA_E = 20
+
+const CHANNELS = 3
+
+interface RawImage {
+  data: Buffer
+  width: number
+  height: number
+}
+
+async function decodeProxy(buffer: Buffer, size?: { width: number; height: number }): Promise<RawImage> {
+  const resized = size
+    ? sharp(buffer, IMAGE_INPUT_OPTIONS).rotate().resize(size.width, size.height, { fit: "cover", position: "centre" })
+    : sharp(buffer, IMAGE_INPUT_OPTIONS)
+        .rotate()
+        .resize(EVALUATION_SIZE, EVALUATION_SIZE, { fit: "inside", withoutEnlargement: true })
+
+  const { data, info } = await resized.removeAlpha().toColourspace("srgb").raw().toBuffer({ resolveWithObject: true })
+  return { data, width: info.width, height: info.height }
+}
+
+function calculateHistogramDistance(rendered: Buffer, reference: Buffer): HistogramDistance {
+  const [red, green, blue] = [0, 1, 2].map((channel) => {
+    const renderedCounts = new Float64Array(256)
+    const referenceCounts = new Float64Array(256)
+    for (let i = channel; i < rendered.length; i += CHANNELS) {
+      renderedCounts[rendered[i]!]!++
+      referenceCounts[reference[i]!]!++
+    }
+
+    // In 1D the earth mover's distance is the area between the two cumulative distributions
+    const total = rendered.length / CHANNELS
+    let renderedCumulative = 0
+    let referenceCumulative = 0
+    let distance = 0
+    for (let level = 0; level < 256; level++) {
+      renderedCumulative += renderedCounts[level]! / total
+      referenceCumulative += referenceCounts[level]! / total
+      distance += Math.abs(renderedCumulative - referenceCumulative)
+    }
+    return distance
+  }) as [number, number, number]
+
+  return { red, green, blue }
+}
+
+/**
+ * Score a rendered image against the reference: per-pixel CIEDE2000 statistics, per-channel histogram
+ * distance and an error heatmap. Both buffers must be interleaved 3-channel sRGB of the same size.
+ */
+export async function measureFidelity(rendered: Buffer, reference: Buffer, width: number, height: number) {
+  const pixelCount = width * height
+  const deltas = new Float32Array(pixelCount)
+  const heatmap = Buffer.alloc(pixelCount * CHANNELS)
+  let total = 0
+
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    const i = pixel * CHANNELS
+    const deltaE = calculateDeltaE2000(
+      rgbToLab(rendered[i]!, rendered[i + 1]!, rendered[i + 2]!),
+      rgbToLab(reference[i]!, reference[i + 1]!, reference[i + 2]!)
+    )
+    deltas[pixel] = deltaE
+    total += deltaE
+
+    const t = Math.min(1, deltaE / HEATMAP_MAX_DELTA_E)
+    const { r, g, b } = hslToRgb((1 - t) * 240, 1, 0.15 + 0.35 * Math.min(1, t * 4))
+    heatmap[i] = Math.round(r * 255)
+    heatmap[i + 1] = Math.round(g * 255)
+    heatmap[i + 2] = Math.round(b * 255)
+  }
+
+  const sorted = deltas.slice().sort()
+  const report: FidelityReport = {
+    deltaE: {
+      mean: total / pixelCount,
+      p95: sorted[Math.min(pixelCount - 1, Math.floor(pixelCount * 0.95))]!,
+      max: sorted[pixelCount - 1]!,
+    },
+    histogramDistance: calculateHistogramDistance(rendered, reference),
+    heatmap: await sharp(heatmap, { raw: { width, height, channels: CHANNELS } })
+      .png()
+      .toBuffer(),
+  }
+  return report
+}
+
+/**
+ * Extract a preset from the reference, render it onto the neutral source (or the reference itself when
+ * no source is given) through both the XMP and the CUBE path, and score each render against the reference.
+ * Extraction and rendering run on the worker pool and are cancelled when `signal` aborts.
+ */
+export async function evaluateXMPCube(
+  referenceBuffer: Buffer,
+  sourceBuffer: Buffer | undefined,
+  filename: string,
+  lutOptions?: Partial<LUTOptions>,
+  signal?: AbortSignal
+): Promise<EvaluationResult> {
+  const { xmpContent, cubeContent, imageProperties } = await runAnalysisTask(
+    "extract",
+    [referenceBuffer, filename, lutOptions],
+    { signal }
+  )
+
+  const reference = await decodeProxy(referenceBuffer)
+  const size = { width: reference.width, height: reference.height }
+  const input = await decodeProxy(sourceBuffer ?? referenceBuffer, size)
+
+  // The XMP path goes through the real applier, which works on encoded images; PNG keeps the proxy lossless
+  const inputPNG = await sharp(input.data, { raw: { ...size, channels: CHANNELS } })
+    .png()
+    .toBuffer()
+  const { outputBuffer } = await runAnalysisTask("apply", [inputPNG, xmpContent], { signal })
+  const xmpRender = await decodeProxy(outputBuffer, size)
+
+  const cubeRender = Buffer.from(input.data)
+  applyCubeLUTToPixels(cubeRender, CHANNELS, parseCubeLUT(cubeContent), {
+    interpolation: "tetrahedral",
+    intensity: 100,
+  })
+
+  return {
+    ...size,
+    input: sourceBuffer ? "source" : "reference",
+    xmpContent,
+    cubeContent,
+    imageProperties,
+    xmp: await measureFidelity(xmpRender.data, reference.data, size.width, size.height),
+    cube: await measureFidelity(cubeRender, reference.data, size.width, size.height),
+  }
+}
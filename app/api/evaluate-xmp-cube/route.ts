@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server"
+import { evaluateXMPCube, FidelityReport } from "./evaluate-xmp-cube-core"
+import { validateLUTOptions } from "../extract-xmp-cube/validator"
+import {
+  CONTENT_TYPES,
+  createAttachmentResponse,
+  createWorkerErrorResponse,
+  createZipArchive,
+  getBaseName,
+} from "../shared/response"
+import { validateImageFile } from "../shared/validator"
+
+const EVALUATION_OUTPUTS = ["json", "zip"] as const
+
+// Heatmaps travel inline in JSON responses
+function serializeReport({ heatmap, ...report }: FidelityReport) {
+  return { ...report, heatmap: { contentType: "image/png", encoding: "base64", content: heatmap.toString("base64") } }
+}
+
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData()
+    const reference = formData.get("reference")
+    const source = formData.get("source")
+
+    // Validate the reference image
+    const referenceValidation = await validateImageFile(reference instanceof File ? reference : null)
+    if (!referenceValidation.isValid) {
+      return NextResponse.json({ error: `reference: ${referenceValidation.error}` }, { status: 400 })
+    }
+
+    // Validate the optional neutral source image
+    if (source !== null) {
+      const sourceValidation = await validateImageFile(source instanceof File ? source : null)
+      if (!sourceValidation.isValid) {
+        return NextResponse.json({ error: `source: ${sourceValidation.error}` }, { status: 400 })
+      }
+    }
+
+    // Validate the requested output format
+    const outputValue = formData.get("output")
+    const output = typeof outputValue === "string" && outputValue ? outputValue.toLowerCase() : "json"
+    if (!(EVALUATION_OUTPUTS as readonly string[]).includes(output)) {
+      return NextResponse.json(
+        { error: `Unsupported output format. Supported formats: ${EVALUATION_OUTPUTS.join(", ")}` },
+        { status: 400 }
+      )
+    }
+
+    // Validate the requested LUT options
+    const lutValidation = validateLUTOptions(formData)
+    if (!lutValidation.isValid) {
+      return NextResponse.json({ error: lutValidation.error }, { status: 400 })
+    }
+
+    const referenceImage = reference as File
+    const baseName = getBaseName(referenceImage.name)
+    const referenceBuffer = Buffer.from(await referenceImage.arrayBuffer())
+    const sourceBuffer = source instanceof File ? Buffer.from(await source.arrayBuffer()) : undefined
+
+    const result = await evaluateXMPCube(
+      referenceBuffer,
+      sourceBuffer,
+      referenceImage.name,
+      lutValidation.options,
+      request.signal
+    )
+    const summary = {
+      width: result.width,
+      height: result.height,
+      input: result.input,
+      xmp: { deltaE: result.xmp.deltaE, histogramDistance: result.xmp.histogramDistance },
+      cube: { deltaE: result.cube.deltaE, histogramDistance: result.cube.histogramDistance },
+    }
+
+    if (output === "zip") {
+      const archive = await createZipArchive([
+        { name: "report.json", content: JSON.stringify(summary, null, 2) },
+        { name: `${baseName}.xmp`, content: result.xmpContent },
+        { name: `${baseName}.cube`, content: result.cubeContent },
+        { name: `${baseName}-xmp-heatmap.png`, content: result.xmp.heatmap },
+        { name: `${baseName}-cube-heatmap.png`, content: result.cube.heatmap },
+      ])
+      return createAttachmentResponse(archive, `${baseName}-evaluation.zip`, CONTENT_TYPES.zip)
+    }
+
+    return NextResponse.json({
+      message: "Preset evaluated successfully",
+      ...summary,
+      xmp: serializeReport(result.xmp),
+      cube: serializeReport(result.cube),
+      properties: result.imageProperties,
+    })
+  } catch (error) {
+    const workerErrorResponse = createWorkerErrorResponse(error)
+    if (workerErrorResponse) return workerErrorResponse
+
+    console.error("Error evaluating preset:", error)
+    return NextResponse.json({ error: "Failed to evaluate preset" }, { status: 500 })
+  }
+}
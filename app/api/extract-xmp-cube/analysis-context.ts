@@ -0,0 +1,99 @@
+import sharp from "sharp"
+import { DEFAULT_ANALYSIS_SIZE } from "./constants"
+import { createChannelHistogram, Histogram } from "./histogram-analysis"
+import { ExifData, parseExifData, parseXMPData } from "./metadata-analysis"
+import { SharpChannel } from "./types"
+import { rgbToHsl, rgbToLab } from "../shared/image-utils"
+import { IMAGE_INPUT_OPTIONS } from "../shared/validator"
+
+/**
+ * Everything the single-image calculators read, decoded and derived once per analysis. Pixel planes are
+ * interleaved three values per pixel at the analysis resolution.
+ */
+export interface AnalysisContext {
+  metadata: sharp.Metadata
+  width: number
+  height: number
+  pixelCount: number
+  pixels: Buffer // 8-bit sRGB, alpha dropped
+  lab: Float32Array // L, a, b
+  hsl: Float32Array // Hue in degrees, saturation and lightness in 0-1, the model HSL bands are applied in
+  histograms: [Histogram, Histogram, Histogram]
+  channels: SharpChannel[] // Per-channel mean, stdev, min and max, standing in for sharp's stats()
+  exif: ExifData
+  xmp: Record<string, unknown>
+}
+
+export interface AnalysisContextOptions {
+  analysisSize?: number // Long edge in pixels; 0 keeps full resolution
+}
+
+function histogramRange(counts: number[]): { min: number; max: number } {
+  const min = counts.findIndex((count) => count > 0)
+  const max = counts.length - 1 - [...counts].reverse().findIndex((count) => count > 0)
+  return min < 0 ? { min: 0, max: 0 } : { min, max }
+}
+
+async function decodeAnalysisPixels(buffer: Buffer, analysisSize: number) {
+  const image = sharp(buffer, IMAGE_INPUT_OPTIONS)
+  const resized =
+    analysisSize > 0 ? image.resize(analysisSize, analysisSize, { fit: "inside", withoutEnlargement: true }) : image
+  return resized.removeAlpha().toColourspace("srgb").raw().toBuffer({ resolveWithObject: true })
+}
+
+/**
+ * Decode an image once and precompute the colour planes, histograms and metadata the calculators share
+ */
+export async function createAnalysisContext(
+  buffer: Buffer,
+  { analysisSize = DEFAULT_ANALYSIS_SIZE }: AnalysisContextOptions = {}
+): Promise<AnalysisContext> {
+  const metadata = await sharp(buffer, IMAGE_INPUT_OPTIONS).metadata()
+  const [{ data, info }, exif, xmp] = await Promise.all([
+    decodeAnalysisPixels(buffer, analysisSize),
+    parseExifData(metadata),
+    parseXMPData(metadata),
+  ])
+
+  const channelCount = info.channels
+  const pixelCount = info.width * info.height
+  const lab = new Float32Array(pixelCount * 3)
+  const hsl = new Float32Array(pixelCount * 3)
+
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    const i = pixel * channelCount
+    const o = pixel * 3
+    const r = data[i]!
+    const g = data[i + 1]!
+    const b = data[i + 2]!
+
+    const color = rgbToLab(r, g, b)
+    lab[o] = color.l
+    lab[o + 1] = color.a
+    lab[o + 2] = color.b
+
+    const { h, s, l } = rgbToHsl(r / 255, g / 255, b / 255)
+    hsl[o] = h
+    hsl[o + 1] = s
+    hsl[o + 2] = l
+  }
+
+  const histograms = [0, 1, 2].map((channel) =>
+    createChannelHistogram(data, channelCount, channel as 0 | 1 | 2)
+  ) as AnalysisContext["histograms"]
+  const channels = histograms.map(({ counts, mean, stdev }) => ({ mean, stdev, ...histogramRange(counts) }))
+
+  return {
+    metadata,
+    width: info.width,
+    height: info.height,
+    pixelCount,
+    pixels: data,
+    lab,
+    hsl,
+    histograms,
+    channels,
+    exif,
+    xmp,
+  }
+}
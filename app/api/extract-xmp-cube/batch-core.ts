@@ -0,0 +1,106 @@
+import { calculateConsensusProperties } from "./consensus-analysis"
+import { generateXMPCRS } from "./metadata-analysis"
+import { BatchManifest, BatchManifestEntry, ConsensusMethod, LUTOptions } from "./types"
+import { runAnalysisTask } from "../shared/analysis-pool"
+import { mapWithConcurrency } from "../shared/concurrency"
+import { ArchiveEntry, getBaseName } from "../shared/response"
+import { validateImageFile } from "../shared/validator"
+import { isAbortError } from "../shared/worker-pool"
+
+export const BATCH_MANIFEST_NAME = "manifest.json"
+export const CONSENSUS_BASE_NAME = "consensus"
+
+// Give every upload its own archive name; reference shots from one camera often share file names
+function createUniqueBaseNames(filenames: string[]): string[] {
+  const used = new Set<string>([getBaseName(BATCH_MANIFEST_NAME), CONSENSUS_BASE_NAME])
+  return filenames.map((filename) => {
+    const baseName = getBaseName(filename)
+    let candidate = baseName
+    for (let suffix = 2; used.has(candidate.toLowerCase()); suffix++) {
+      candidate = `${baseName}-${suffix}`
+    }
+    used.add(candidate.toLowerCase())
+    return candidate
+  })
+}
+
+/**
+ * Extract XMP and CUBE presets from many images, at most `concurrency` at a time. Failures are recorded
+ * per file in the manifest instead of rejecting the batch. With a `consensusMethod`, the successful
+ * results are also merged into one consensus preset. Each image is analyzed on the worker pool; aborting
+ * `signal` cancels the images still in flight and rejects the batch.
+ */
+export async function extractXMPCubeBatch(
+  files: File[],
+  concurrency: number,
+  lutOptions: LUTOptions,
+  consensusMethod?: ConsensusMethod,
+  signal?: AbortSignal
+): Promise<{ entries: ArchiveEntry[]; manifest: BatchManifest }> {
+  const baseNames = createUniqueBaseNames(files.map((file) => file.name))
+  const outputs: ArchiveEntry[][] = []
+
+  const results = await mapWithConcurrency(files, concurrency, async (file, index): Promise<BatchManifestEntry> => {
+    const validation = await validateImageFile(file)
+    if (!validation.isValid) {
+      return { source: file.name, status: "error", error: validation.error ?? "Invalid image file" }
+    }
+
+    try {
+      const buffer = Buffer.from(await file.arrayBuffer())
+      const { xmpContent, cubeContent, imageProperties } = await runAnalysisTask(
+        "extract",
+        [buffer, file.name, lutOptions],
+        { signal }
+      )
+
+      const xmpName = `${baseNames[index]}.xmp`
+      const cubeName = `${baseNames[index]}.cube`
+      outputs[index] = [
+        { name: xmpName, content: xmpContent },
+        { name: cubeName, content: cubeContent },
+      ]
+      return { source: file.name, status: "ok", files: { xmp: xmpName, cube: cubeName }, properties: imageProperties }
+    } catch (error) {
+      // A disconnected client cancels the whole batch rather than failing each remaining file
+      if (isAbortError(error)) throw error
+
+      console.error(`Error processing ${file.name} in batch:`, error)
+      return {
+        source: file.name,
+        status: "error",
+        error: error instanceof Error ? error.message : "Failed to process image",
+      }
+    }
+  })
+
+  const succeeded = results.filter((result) => result.status === "ok").length
+  const manifest: BatchManifest = {
+    createdAt: new Date().toISOString(),
+    total: files.length,
+    succeeded,
+    failed: files.length - succeeded,
+    lutOptions,
+    files: results,
+  }
+
+  // Keep archive entries in upload order regardless of which image finished first
+  const entries = outputs.flatMap((output) => output ?? [])
+
+  const extracted = results.flatMap((result) => (result.status === "ok" ? [result.properties] : []))
+  if (consensusMethod && extracted.length > 0) {
+    const { method, count, properties, spread } = calculateConsensusProperties(extracted, consensusMethod)
+    const xmpName = `${CONSENSUS_BASE_NAME}.xmp`
+    const cubeName = `${CONSENSUS_BASE_NAME}.cube`
+    const cube = await runAnalysisTask("lut", [properties, cubeName, "cube", lutOptions], { signal })
+
+    entries.unshift(
+      { name: xmpName, content: generateXMPCRS(xmpName, properties) },
+      { name: cubeName, content: cube.content }
+    )
+    manifest.consensus = { method, count, files: { xmp: xmpName, cube: cubeName }, properties, spread }
+  }
+  entries.push({ name: BATCH_MANIFEST_NAME, content: JSON.stringify(manifest, null, 2) })
+
+  return { entries, manifest }
+}
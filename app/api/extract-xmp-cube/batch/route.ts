@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server"
+import {
+  CONTENT_TYPES,
+  createAttachmentResponse,
+  createWorkerErrorResponse,
+  createZipArchive,
+} from "../../shared/response"
+import { extractXMPCubeBatch } from "../batch-core"
+import { validateBatchConcurrency, validateBatchFiles, validateBatchMode, validateLUTOptions } from "../validator"
+
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData()
+
+    // Validate the set of uploads; individual images are checked as they are processed
+    const filesValidation = validateBatchFiles(formData.getAll("image"))
+    if (!filesValidation.isValid) {
+      return NextResponse.json({ error: filesValidation.error }, { status: 400 })
+    }
+
+    // Validate how many images may be analyzed at once
+    const concurrencyValidation = validateBatchConcurrency(formData.get("concurrency"))
+    if (!concurrencyValidation.isValid) {
+      return NextResponse.json({ error: concurrencyValidation.error }, { status: 400 })
+    }
+
+    // Validate whether to also merge the set into one consensus preset (mode=consensus, method=median|trimmed-mean)
+    const modeValidation = validateBatchMode(formData)
+    if (!modeValidation.isValid) {
+      return NextResponse.json({ error: modeValidation.error }, { status: 400 })
+    }
+
+    // Validate the requested LUT options, shared by every image in the batch
+    const lutValidation = validateLUTOptions(formData)
+    if (!lutValidation.isValid) {
+      return NextResponse.json({ error: lutValidation.error }, { status: 400 })
+    }
+
+    const { entries, manifest } = await extractXMPCubeBatch(
+      filesValidation.files!,
+      concurrencyValidation.concurrency!,
+      lutValidation.options!,
+      modeValidation.consensusMethod,
+      request.signal
+    )
+
+    // Nothing usable came out of the batch, so report the per-file errors directly
+    if (manifest.succeeded === 0) {
+      return NextResponse.json({ error: "No images in the batch could be processed", manifest }, { status: 422 })
+    }
+
+    const archive = await createZipArchive(entries)
+    const archiveName = manifest.consensus ? "consensus-preset.zip" : "presets.zip"
+    return createAttachmentResponse(archive, archiveName, CONTENT_TYPES.zip, {
+      "X-Batch-Succeeded": String(manifest.succeeded),
+      "X-Batch-Failed": String(manifest.failed),
+    })
+  } catch (error) {
+    const workerErrorResponse = createWorkerErrorResponse(error)
+    if (workerErrorResponse) return workerErrorResponse
+
+    console.error("Error processing batch:", error)
+    return NextResponse.json({ error: "Failed to process batch" }, { status: 500 })
+  }
+}
@@ -1,7 +1,7 @@
-import sharp from "sharp"
+import { AnalysisContext } from "./analysis-context"
 import { COLOR_RANGES } from "./constants"
 import { findHistogramPeaks, smoothArray } from "./histogram-analysis"
-import { ColorChannel, ColorDistribution, ColorRange, LabColor, SharpChannel } from "./types"
+import { ColorChannel, ColorDistribution, ColorRange, HueBandAnalysis, LabColor, SharpChannel } from "./types"
 
 // Helper function to convert RGB to Lab color space
 export function rgbToLab(r: number, g: number, b: number): LabColor {
@@ -39,120 +39,146 @@ export function rgbToLab(r: number, g: number, b: number): LabColor {
   }
 }
 
-export async function analyzeColorDistribution(buffer: Buffer, range: ColorRange): Promise<ColorDistribution> {
-  try {
-    const channelData = await Promise.all([
-      sharp(buffer).extractChannel(0).raw().toBuffer(),
-      sharp(buffer).extractChannel(1).raw().toBuffer(),
-      sharp(buffer).extractChannel(2).raw().toBuffer(),
-    ])
-
-    const pixels: LabColor[] = []
-    const histogram = new Array(360).fill(0)
-
-    // Convert each pixel to Lab color space and analyze
-    for (let i = 0; i < channelData[0].length; i++) {
-      const r = channelData[0][i]
-      const g = channelData[1][i]
-      const b = channelData[2][i]
-
-      if (typeof r === "number" && typeof g === "number" && typeof b === "number") {
-        const lab = rgbToLab(r, g, b)
-        const hue = (Math.atan2(lab.b, lab.a) * 180) / Math.PI + 180
-
-        // Check if the hue falls within our target range
-        let inRange = false
-        if (range.start > range.end) {
-          inRange = hue >= range.start || hue <= range.end
-        } else {
-          inRange = hue >= range.start && hue <= range.end
-        }
-
-        if (inRange) {
-          pixels.push(lab)
-          histogram[Math.floor(hue)]++
-        }
-      }
-    }
-
-    if (pixels.length === 0) {
-      return {
-        mean: { l: 0, a: 0, b: 0 },
-        peaks: [],
-        histogram,
-        weight: 0,
-      }
-    }
+const BAND_NAMES = Object.keys(COLOR_RANGES) as ColorChannel[]
+const CHROMA_BINS = 32
+const CHROMA_BIN_SIZE = 5
+
+// Pixels closer to neutral than this Lab chroma have no meaningful hue and belong to no band
+const MIN_BAND_CHROMA = 4
+
+interface BandAccumulator {
+  count: number
+  sum: LabColor
+  chromaSum: number
+  chromaSquares: number
+  hueVector: { x: number; y: number } // Chroma-weighted, for the circular mean hue
+  histogram: number[]
+  chromaHistogram: number[]
+  hueSums: Float64Array // Per-degree L, a, b sums, so peak means need no second pass
+}
 
-    // Calculate mean Lab values
-    const mean = pixels.reduce(
-      (acc, lab) => ({
-        l: acc.l + lab.l,
-        a: acc.a + lab.a,
-        b: acc.b + lab.b,
-      }),
-      { l: 0, a: 0, b: 0 }
-    )
-
-    mean.l /= pixels.length
-    mean.a /= pixels.length
-    mean.b /= pixels.length
-
-    // Find peaks in the color distribution
-    const smoothedHistogram = smoothArray(histogram)
-    const histogramPeaks = findHistogramPeaks(smoothedHistogram)
-    const peaks = histogramPeaks.map((peak) => {
-      // Find representative Lab values for this peak
-      const peakPixels = pixels.filter((lab) => {
-        const hue = (Math.atan2(lab.b, lab.a) * 180) / Math.PI + 180
-        return Math.abs(hue - peak.position) < peak.width / 2
-      })
-
-      if (peakPixels.length === 0) return mean
-
-      const peakMean = peakPixels.reduce(
-        (acc, lab) => ({
-          l: acc.l + lab.l,
-          a: acc.a + lab.a,
-          b: acc.b + lab.b,
-        }),
-        { l: 0, a: 0, b: 0 }
-      )
-
-      peakMean.l /= peakPixels.length
-      peakMean.a /= peakPixels.length
-      peakMean.b /= peakPixels.length
-
-      return peakMean
-    })
+function createBandAccumulator(): BandAccumulator {
+  return {
+    count: 0,
+    sum: { l: 0, a: 0, b: 0 },
+    chromaSum: 0,
+    chromaSquares: 0,
+    hueVector: { x: 0, y: 0 },
+    histogram: new Array(360).fill(0),
+    chromaHistogram: new Array(CHROMA_BINS).fill(0),
+    hueSums: new Float64Array(360 * 3),
+  }
+}
 
-    // Calculate weight based on pixel count and color intensity
-    const weight = pixels.length / channelData[0].length
+function isHueInRange(hue: number, range: ColorRange): boolean {
+  return range.start > range.end ? hue >= range.start || hue <= range.end : hue >= range.start && hue <= range.end
+}
 
-    return {
-      mean,
-      peaks,
-      histogram,
-      weight,
-    }
-  } catch (error) {
-    console.error("Error in analyzeColorDistribution:", error)
+function summarizeBand(band: BandAccumulator, pixelCount: number): ColorDistribution {
+  const { count, histogram, chromaHistogram, hueSums } = band
+  if (count === 0) {
     return {
       mean: { l: 0, a: 0, b: 0 },
+      meanHue: 0,
       peaks: [],
-      histogram: new Array(360).fill(0),
+      peakHues: [],
+      histogram,
+      chroma: { mean: 0, stdev: 0, histogram: chromaHistogram },
       weight: 0,
     }
   }
+
+  const mean = { l: band.sum.l / count, a: band.sum.a / count, b: band.sum.b / count }
+  const meanHue = ((Math.atan2(band.hueVector.y, band.hueVector.x) * 180) / Math.PI + 360) % 360
+  const chromaMean = band.chromaSum / count
+  const chromaStdev = Math.sqrt(Math.max(0, band.chromaSquares / count - chromaMean * chromaMean))
+
+  // Find peaks in the hue distribution and average the Lab values of the degrees each one spans
+  const histogramPeaks = findHistogramPeaks(smoothArray(histogram))
+  const peaks = histogramPeaks.map((peak) => {
+    const peakMean = { l: 0, a: 0, b: 0 }
+    let peakCount = 0
+    for (let degree = 0; degree < 360; degree++) {
+      if (Math.abs(degree - peak.position) < peak.width / 2) {
+        peakMean.l += hueSums[degree * 3]!
+        peakMean.a += hueSums[degree * 3 + 1]!
+        peakMean.b += hueSums[degree * 3 + 2]!
+        peakCount += histogram[degree]!
+      }
+    }
+
+    if (peakCount === 0) return mean
+    return { l: peakMean.l / peakCount, a: peakMean.a / peakCount, b: peakMean.b / peakCount }
+  })
+
+  return {
+    mean,
+    meanHue,
+    peaks,
+    peakHues: histogramPeaks.map((peak) => peak.position),
+    histogram,
+    chroma: { mean: chromaMean, stdev: chromaStdev, histogram: chromaHistogram },
+    weight: count / pixelCount,
+  }
+}
+
+/**
+ * Bin every pixel into all COLOR_RANGES bands in a single pass. Bands are selected by HSL hue, the model
+ * the bands are applied in, while colour statistics are gathered in Lab.
+ */
+export function analyzeHueBands({ lab, hsl, pixelCount }: AnalysisContext): HueBandAnalysis {
+  const ranges = BAND_NAMES.map((name) => COLOR_RANGES[name])
+  const accumulators = BAND_NAMES.map(createBandAccumulator)
+  let lightnessSum = 0
+
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    const o = pixel * 3
+    const l = lab[o]!
+    const a = lab[o + 1]!
+    const b = lab[o + 2]!
+    const hue = hsl[o]!
+    const degree = Math.floor(hue) % 360
+    const chroma = Math.sqrt(a * a + b * b)
+    lightnessSum += l
+    if (chroma < MIN_BAND_CHROMA) continue
+
+    const radians = (hue * Math.PI) / 180
+
+    // Band edges are inclusive, so a pixel exactly on a boundary counts towards both neighbours
+    for (let index = 0; index < ranges.length; index++) {
+      if (!isHueInRange(hue, ranges[index]!)) continue
+
+      const band = accumulators[index]!
+      band.count++
+      band.sum.l += l
+      band.sum.a += a
+      band.sum.b += b
+      band.chromaSum += chroma
+      band.chromaSquares += chroma * chroma
+      band.hueVector.x += Math.cos(radians) * chroma
+      band.hueVector.y += Math.sin(radians) * chroma
+      band.histogram[degree]!++
+      band.chromaHistogram[Math.min(CHROMA_BINS - 1, Math.floor(chroma / CHROMA_BIN_SIZE))]!++
+      band.hueSums[degree * 3]! += l
+      band.hueSums[degree * 3 + 1]! += a
+      band.hueSums[degree * 3 + 2]! += b
+    }
+  }
+
+  return {
+    bands: Object.fromEntries(
+      BAND_NAMES.map((name, index) => [name, summarizeBand(accumulators[index]!, pixelCount)])
+    ) as Record<ColorChannel, ColorDistribution>,
+    meanLightness: pixelCount > 0 ? lightnessSum / pixelCount : 0,
+  }
 }
 
-export async function calculateColorHue(color: ColorChannel, buffer: Buffer): Promise<number> {
+export function calculateColorHue(color: ColorChannel, analysis: HueBandAnalysis): number {
   try {
     // Get full color distribution for this color range
     const colorRange = COLOR_RANGES[color]
-    if (!colorRange) return 0
-
-    const distribution = await analyzeColorDistribution(buffer, colorRange)
+    const distribution = analysis.bands[color]
+    if (!colorRange || !distribution) return 0
 
     if (distribution.weight === 0) return 0
 
@@ -161,8 +187,7 @@ export async function calculateColorHue(color: ColorChannel, buffer: Buffer): Pr
     let totalWeight = 0
 
     // Consider the mean
-    const meanHue = (Math.atan2(distribution.mean.b, distribution.mean.a) * 180) / Math.PI + 180
-    let meanHueDiff = meanHue - colorRange.center
+    let meanHueDiff = distribution.meanHue - colorRange.center
     if (meanHueDiff > 180) meanHueDiff -= 360
     if (meanHueDiff < -180) meanHueDiff += 360
 
@@ -173,9 +198,8 @@ export async function calculateColorHue(color: ColorChannel, buffer: Buffer): Pr
     totalWeight += meanWeight
 
     // Consider each peak
-    distribution.peaks.forEach((peak) => {
-      const peakHue = (Math.atan2(peak.b, peak.a) * 180) / Math.PI + 180
-      let peakHueDiff = peakHue - colorRange.center
+    distribution.peaks.forEach((peak, index) => {
+      let peakHueDiff = distribution.peakHues[index]! - colorRange.center
       if (peakHueDiff > 180) peakHueDiff -= 360
       if (peakHueDiff < -180) peakHueDiff += 360
 
@@ -197,13 +221,12 @@ export async function calculateColorHue(color: ColorChannel, buffer: Buffer): Pr
   }
 }
 
-export async function calculateColorSaturation(color: ColorChannel, buffer: Buffer): Promise<number> {
+export function calculateColorSaturation(color: ColorChannel, analysis: HueBandAnalysis): number {
   try {
     // Get full color distribution for this color range
     const colorRange = COLOR_RANGES[color]
-    if (!colorRange) return 0
-
-    const distribution = await analyzeColorDistribution(buffer, colorRange)
+    const distribution = analysis.bands[color]
+    if (!colorRange || !distribution) return 0
 
     if (distribution.weight === 0) return 0
 
@@ -211,8 +234,8 @@ export async function calculateColorSaturation(color: ColorChannel, buffer: Buff
     let totalAdjustment = 0
     let totalWeight = 0
 
-    // Consider the mean
-    const meanChroma = Math.sqrt(distribution.mean.a * distribution.mean.a + distribution.mean.b * distribution.mean.b)
+    // Consider the mean, using the band's own chroma distribution rather than the chroma of its mean colour
+    const meanChroma = distribution.chroma.mean
     const meanLuminanceWeight = 1 - Math.abs(distribution.mean.l - 50) / 50
     const meanWeight = meanLuminanceWeight * distribution.weight
 
@@ -245,6 +268,20 @@ export async function calculateColorSaturation(color: ColorChannel, buffer: Buff
   }
 }
 
+export function calculateColorLuminance(color: ColorChannel, analysis: HueBandAnalysis): number {
+  const distribution = analysis.bands[color]
+  if (!distribution || distribution.weight === 0) return 0
+
+  // A band sitting brighter or darker than the image as a whole reads as a luminance shift, but only
+  // when the band is colourful enough for an HSL adjustment to have touched it
+  const chromaWeight = Math.min(1, distribution.chroma.mean / 40)
+  const lightnessDiff = distribution.mean.l - analysis.meanLightness
+
+  // Scale factor determines sensitivity of adjustment
+  const scaleFactor = 1.5
+  return Math.round(Math.max(-100, Math.min(100, lightnessDiff * chromaWeight * scaleFactor)))
+}
+
 export function calculateColorTemperature(channels: SharpChannel[]): number {
   if (channels.length < 3) return 5500
   const [r, g, b] = channels
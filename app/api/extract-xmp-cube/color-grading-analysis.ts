@@ -0,0 +1,124 @@
+import { AnalysisContext } from "./analysis-context"
+import {
+  calculateLuma,
+  calculateToneMasks,
+  ColorGrading,
+  ColorWheel,
+  createTintOffset,
+  rgbToHsl,
+} from "../shared/image-utils"
+
+const LUMA_BINS = 1024
+
+// Offsets below this wheel saturation are indistinguishable from noise and JPEG chroma error
+const MIN_WHEEL_SATURATION = 2
+
+export type Offset = [number, number, number]
+
+const NEUTRAL_WHEEL: ColorWheel = { hue: 0, saturation: 0, luminance: 0 }
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value))
+}
+
+function percentile(histogram: Float64Array, total: number, fraction: number): number {
+  const target = total * fraction
+  let cumulative = 0
+  for (let bin = 0; bin < histogram.length; bin++) {
+    cumulative += histogram[bin]!
+    if (cumulative >= target) return bin / (histogram.length - 1)
+  }
+  return 1
+}
+
+/**
+ * Turn an average chroma offset back into a wheel, inverting the tint model used when applying grading
+ */
+export function offsetToWheel(offset: Offset, luminance: number): ColorWheel {
+  const magnitude = Math.hypot(...offset)
+  const { h } = rgbToHsl(0.5 + offset[0], 0.5 + offset[1], 0.5 + offset[2])
+  const reference = Math.hypot(...createTintOffset({ hue: h, saturation: 100, luminance: 0 }))
+  const saturation = reference > 0 ? clamp((magnitude / reference) * 100, 0, 100) : 0
+
+  return saturation < MIN_WHEEL_SATURATION
+    ? { ...NEUTRAL_WHEEL, luminance: Math.round(luminance) }
+    : { hue: Math.round(h) % 360, saturation: Math.round(saturation), luminance: Math.round(luminance) }
+}
+
+/**
+ * Estimate three-way colour grading from pixel data. Near-neutral pixels are weighted most, since a
+ * grade shows up as a tint on greys rather than on already-saturated subject colours. The global wheel
+ * carries the overall cast and the tonal wheels only what differs from it in their range.
+ */
+export function analyzeColorGrading({ pixels, hsl, pixelCount }: AnalysisContext): ColorGrading {
+  // First pass: luminance distribution decides where the tonal ranges split and how they overlap
+  const lumas = new Float32Array(pixelCount)
+  const lumaHistogram = new Float64Array(LUMA_BINS)
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    const i = pixel * 3
+    const luma = calculateLuma(pixels[i]! / 255, pixels[i + 1]! / 255, pixels[i + 2]! / 255)
+    lumas[pixel] = luma
+    lumaHistogram[Math.round(luma * (LUMA_BINS - 1))]!++
+  }
+
+  const blackPoint = percentile(lumaHistogram, pixelCount, 0.02)
+  const lowerQuartile = percentile(lumaHistogram, pixelCount, 0.25)
+  const median = percentile(lumaHistogram, pixelCount, 0.5)
+  const upperQuartile = percentile(lumaHistogram, pixelCount, 0.75)
+  const whitePoint = percentile(lumaHistogram, pixelCount, 0.98)
+
+  // Inverse of the mask model: pivot = 0.5 - balance / 400, transition width = 0.1 + 0.4 * blending / 100
+  const balance = Math.round(clamp((0.5 - median) * 400, -100, 100))
+  const blending = Math.round(clamp(((upperQuartile - lowerQuartile) / 2 - 0.1) / 0.004, 0, 100))
+
+  // Second pass: neutral-weighted chroma offsets per tonal range
+  const sums: Offset[] = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ]
+  const weights = [0, 0, 0, 0]
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    const i = pixel * 3
+    const r = pixels[i]! / 255
+    const g = pixels[i + 1]! / 255
+    const b = pixels[i + 2]! / 255
+    const luma = lumas[pixel]!
+    const neutrality = (1 - hsl[i + 1]!) ** 2
+    const masks = calculateToneMasks(luma, balance, blending)
+    const rangeWeights = [masks.shadows, masks.midtones, masks.highlights, 1]
+
+    rangeWeights.forEach((mask, range) => {
+      const weight = mask * neutrality
+      sums[range]![0] += (r - luma) * weight
+      sums[range]![1] += (g - luma) * weight
+      sums[range]![2] += (b - luma) * weight
+      weights[range]! += weight
+    })
+  }
+
+  const [shadowOffset, midtoneOffset, highlightOffset, globalOffset] = sums.map((sum, range) =>
+    sum.map((value) => (weights[range]! > 0 ? value / weights[range]! : 0))
+  ) as [Offset, Offset, Offset, Offset]
+  const relativeToGlobal = (offset: Offset): Offset => [
+    offset[0] - globalOffset[0],
+    offset[1] - globalOffset[1],
+    offset[2] - globalOffset[2],
+  ]
+
+  // Luminance: lifted blacks, pulled whites and midtones sitting off the centre of the tonal range.
+  // Overall brightness is left to exposure, so the global wheel stays at zero luminance.
+  const shadowLuminance = clamp(blackPoint * 200, 0, 100)
+  const highlightLuminance = clamp(-(1 - whitePoint) * 200, -100, 0)
+  const midtoneLuminance = clamp((median - (blackPoint + whitePoint) / 2) * 400, -100, 100)
+
+  return {
+    shadows: offsetToWheel(relativeToGlobal(shadowOffset), shadowLuminance),
+    midtones: offsetToWheel(relativeToGlobal(midtoneOffset), midtoneLuminance),
+    highlights: offsetToWheel(relativeToGlobal(highlightOffset), highlightLuminance),
+    global: offsetToWheel(globalOffset, 0),
+    blending,
+    balance,
+  }
+}
@@ -0,0 +1,88 @@
+/** @jest-environment node */
+import { describe, expect, it } from "@jest/globals"
+import { calculateConsensusProperties } from "./consensus-analysis"
+import { ImageProperties } from "./types"
+
+function images(...properties: Partial<ImageProperties>[]): ImageProperties[] {
+  return properties as ImageProperties[]
+}
+
+describe("calculateConsensusProperties", () => {
+  it("averages hues on the circle, so 350° and 10° meet at 0°", () => {
+    const { properties, spread } = calculateConsensusProperties(
+      images(
+        { colorGradeShadowHue: 350, colorGradeShadowSaturation: 40 },
+        { colorGradeShadowHue: 10, colorGradeShadowSaturation: 40 }
+      ),
+      "median"
+    )
+
+    expect(properties.colorGradeShadowHue).toBe(0)
+    expect(spread.colorGradeShadowHue).toMatchObject({ kind: "circular" })
+    expect(spread.colorGradeShadowHue!.stdev).toBeCloseTo(10, 0)
+  })
+
+  it("weights each hue by its saturation", () => {
+    const { properties } = calculateConsensusProperties(
+      images(
+        { splitToningHighlightHue: 40, splitToningHighlightSaturation: 60 },
+        { splitToningHighlightHue: 220, splitToningHighlightSaturation: 0 },
+        { splitToningHighlightHue: 50, splitToningHighlightSaturation: 60 }
+      ),
+      "trimmed-mean"
+    )
+
+    expect(properties.splitToningHighlightHue).toBe(45)
+  })
+
+  it("keeps a single outlier from pulling linear sliders", () => {
+    const sample = images({ contrast: 10 }, { contrast: 12 }, { contrast: 14 }, { contrast: 16 }, { contrast: 100 })
+
+    expect(calculateConsensusProperties(sample, "median").properties.contrast).toBe(14)
+    expect(calculateConsensusProperties(sample, "trimmed-mean").properties.contrast).toBe(14)
+    expect(calculateConsensusProperties(sample, "median").spread.contrast).toMatchObject({
+      kind: "linear",
+      min: 10,
+      max: 100,
+    })
+  })
+
+  it("resamples curves with different control points onto one grid", () => {
+    const { properties, spread } = calculateConsensusProperties(
+      images(
+        {
+          toneCurve: [
+            [0, 0],
+            [255, 255],
+          ],
+        },
+        {
+          toneCurve: [
+            [0, 40],
+            [128, 168],
+            [255, 255],
+          ],
+        }
+      ),
+      "median"
+    )
+
+    expect(properties.toneCurve![0]).toEqual([0, 20])
+    expect(properties.toneCurve![properties.toneCurve!.length - 1]).toEqual([255, 255])
+    expect(spread.toneCurve).toMatchObject({ kind: "curve" })
+  })
+
+  it("takes the most common category and reports how many images agree", () => {
+    const { properties, spread } = calculateConsensusProperties(
+      images({ cameraProfile: "Adobe Color" }, { cameraProfile: "Adobe Vivid" }, { cameraProfile: "Adobe Vivid" }),
+      "median"
+    )
+
+    expect(properties.cameraProfile).toBe("Adobe Vivid")
+    expect(spread.cameraProfile!.agreement).toBeCloseTo(2 / 3)
+  })
+
+  it("requires at least one image", () => {
+    expect(() => calculateConsensusProperties([], "median")).toThrow("At least one image")
+  })
+})
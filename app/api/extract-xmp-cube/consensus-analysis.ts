@@ -0,0 +1,156 @@
+import { CONSENSUS_CURVE_SAMPLES, CONSENSUS_TRIM_FRACTION } from "./constants"
+import { ConsensusMethod, ConsensusResult, ImageProperties, PropertySpread } from "./types"
+import { createMonotoneCurve } from "../shared/image-utils"
+
+type PropertyKey = keyof ImageProperties
+
+// Angular properties paired with the saturation that says how much their hue matters
+const HUE_PROPERTIES: Partial<Record<PropertyKey, PropertyKey>> = {
+  splitToningShadowHue: "splitToningShadowSaturation",
+  splitToningHighlightHue: "splitToningHighlightSaturation",
+  colorGradeShadowHue: "colorGradeShadowSaturation",
+  colorGradeMidtoneHue: "colorGradeMidtoneSaturation",
+  colorGradeHighlightHue: "colorGradeHighlightSaturation",
+  colorGradeGlobalHue: "colorGradeGlobalSaturation",
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180
+}
+
+function summarize(values: number[]): { mean: number; variance: number; min: number; max: number } {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length
+  return { mean, variance, min: Math.min(...values), max: Math.max(...values) }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle]! : (sorted[middle - 1]! + sorted[middle]!) / 2
+}
+
+function trimmedMean(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const trim = Math.floor(sorted.length * CONSENSUS_TRIM_FRACTION)
+  const kept = sorted.slice(trim, sorted.length - trim)
+  return kept.reduce((sum, value) => sum + value, 0) / kept.length
+}
+
+function aggregate(values: number[], method: ConsensusMethod): number {
+  return method === "median" ? median(values) : trimmedMean(values)
+}
+
+function aggregateLinear(values: number[], method: ConsensusMethod): { value: number; spread: PropertySpread } {
+  const { variance, min, max } = summarize(values)
+  return {
+    // Some properties such as exposure are fractional, so keep two decimals rather than whole numbers
+    value: Math.round(aggregate(values, method) * 100) / 100,
+    spread: { kind: "linear", stdev: Math.sqrt(variance), variance, min, max },
+  }
+}
+
+/**
+ * Weighted circular mean, so 350° and 10° average to 0° rather than 180°. Circular variance is 1 - R,
+ * where R is the mean resultant length; the reported stdev is the circular standard deviation in degrees.
+ */
+function aggregateCircular(hues: number[], weights: number[]): { value: number; spread: PropertySpread } {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+  const effectiveWeights = totalWeight > 0 ? weights : weights.map(() => 1)
+  const weightSum = totalWeight > 0 ? totalWeight : weights.length
+
+  let x = 0
+  let y = 0
+  hues.forEach((hue, i) => {
+    x += Math.cos(toRadians(hue)) * effectiveWeights[i]!
+    y += Math.sin(toRadians(hue)) * effectiveWeights[i]!
+  })
+
+  const resultant = Math.hypot(x, y) / weightSum
+  const mean = ((((Math.atan2(y, x) * 180) / Math.PI) % 360) + 360) % 360
+  const stdev = resultant > 0 ? (Math.sqrt(-2 * Math.log(Math.min(1, resultant))) * 180) / Math.PI : 180
+
+  return {
+    value: Math.round(mean) % 360,
+    spread: { kind: "circular", stdev, variance: 1 - resultant },
+  }
+}
+
+/**
+ * Resample every curve on a shared grid and aggregate each sample, which averages curves with
+ * different control points. Spread is the mean variance across samples, in 0-255 output units.
+ */
+function aggregateCurves(
+  curves: (number[][] | undefined)[],
+  method: ConsensusMethod
+): { value: number[][] | undefined; spread?: PropertySpread } {
+  const present = curves.filter((curve): curve is number[][] => Array.isArray(curve) && curve.length >= 2)
+  if (present.length === 0) return { value: undefined }
+
+  const evaluators = present.map((curve) => createMonotoneCurve(curve))
+  const points: number[][] = []
+  let varianceSum = 0
+
+  for (let i = 0; i < CONSENSUS_CURVE_SAMPLES; i++) {
+    const input = Math.round((i * 255) / (CONSENSUS_CURVE_SAMPLES - 1))
+    const outputs = evaluators.map((evaluate) => evaluate(input))
+    varianceSum += summarize(outputs).variance
+    points.push([input, Math.round(Math.max(0, Math.min(255, aggregate(outputs, method))))])
+  }
+
+  const variance = varianceSum / CONSENSUS_CURVE_SAMPLES
+  return { value: points, spread: { kind: "curve", stdev: Math.sqrt(variance), variance } }
+}
+
+// Most common value wins; ties go to the earliest image
+function aggregateCategorical<T extends string | boolean>(values: T[]): { value: T; spread: PropertySpread } {
+  const counts = new Map<T, number>()
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1))
+
+  let value = values[0]!
+  counts.forEach((count, candidate) => {
+    if (count > counts.get(value)!) value = candidate
+  })
+
+  const agreement = counts.get(value)! / values.length
+  return { value, spread: { kind: "categorical", stdev: 0, variance: 1 - agreement, agreement } }
+}
+
+/**
+ * Aggregate per-image properties from a set of reference shots into one preset that represents the look
+ */
+export function calculateConsensusProperties(images: ImageProperties[], method: ConsensusMethod): ConsensusResult {
+  if (images.length === 0) {
+    throw new Error("At least one image is required to build a consensus preset")
+  }
+
+  const properties: Record<string, unknown> = {}
+  const spread: ConsensusResult["spread"] = {}
+  const keys = Array.from(new Set(images.flatMap((image) => Object.keys(image)))) as PropertyKey[]
+
+  keys.forEach((key) => {
+    const values = images.map((image) => image[key])
+    const sample = values.find((value) => value !== undefined)
+
+    let result: { value: unknown; spread?: PropertySpread }
+    if (Array.isArray(sample) || sample === undefined) {
+      result = aggregateCurves(values as (number[][] | undefined)[], method)
+    } else if (typeof sample === "number") {
+      const numbers = values.map((value) => (typeof value === "number" ? value : 0))
+      const saturationKey = HUE_PROPERTIES[key]
+      result = saturationKey
+        ? aggregateCircular(
+            numbers,
+            images.map((image) => Math.abs(Number(image[saturationKey]) || 0))
+          )
+        : aggregateLinear(numbers, method)
+    } else {
+      result = aggregateCategorical(values as (string | boolean)[])
+    }
+
+    properties[key] = result.value
+    if (result.spread) spread[key] = result.spread
+  })
+
+  return { method, count: images.length, properties: properties as unknown as ImageProperties, spread }
+}
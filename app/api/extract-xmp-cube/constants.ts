@@ -1,4 +1,5 @@
-import { ColorChannel, ColorRange } from "./types"
+import { ColorChannel, ColorRange, ExtractionStage, LUTOptions, RefineParameter } from "./types"
+import { KELVIN_TEMPERATURE_RANGE } from "../shared/image-utils"
 
 export const COLOR_RANGES: Record<ColorChannel, ColorRange> = {
   red: { start: 345, end: 15, center: 0 },
@@ -10,3 +11,99 @@ export const COLOR_RANGES: Record<ColorChannel, ColorRange> = {
   purple: { start: 255, end: 285, center: 270 },
   magenta: { start: 285, end: 345, center: 315 },
 }
+
+export const SUPPORTED_LUT_SIZES = [17, 32, 33, 65] as const
+
+export const LUT_PRECISION_RANGE = { MIN: 1, MAX: 10 }
+
+export const SHAPER_SIZE_RANGE = { MIN: 2, MAX: 65536 }
+
+export const DEFAULT_LUT_FORMAT = "cube"
+
+export const SUPPORTED_HALD_LEVELS = [8, 12] as const
+
+export const DEFAULT_LUT_OPTIONS: LUTOptions = {
+  size: 32,
+  precision: 6,
+  title: "NE-Presets LUT",
+  domainMin: [0, 0, 0],
+  domainMax: [1, 1, 1],
+  haldLevel: 8,
+}
+
+export const MAX_BATCH_FILES = 50
+
+export const MAX_BATCH_TOTAL_SIZE = 512 * 1024 * 1024 // 512MB across every image in one batch
+
+export const BATCH_CONCURRENCY_RANGE = { MIN: 1, MAX: 8 }
+
+export const DEFAULT_BATCH_CONCURRENCY = 4
+
+export const BATCH_MODES = ["individual", "consensus"] as const
+
+export const CONSENSUS_METHODS = ["median", "trimmed-mean"] as const
+
+export const DEFAULT_CONSENSUS_METHOD = "trimmed-mean"
+
+// Fraction of values dropped from each end before averaging
+export const CONSENSUS_TRIM_FRACTION = 0.2
+
+// Inputs at which tone curves are resampled before averaging
+export const CONSENSUS_CURVE_SAMPLES = 17
+
+// Long edge of the aligned proxies compared in before/after pair mode
+export const PAIR_ANALYSIS_SIZE = 768
+
+// Largest relative aspect ratio difference still treated as the same framing
+export const MAX_PAIR_ASPECT_DIFFERENCE = 0.02
+
+// Control points written for each fitted tone curve
+export const PAIR_CURVE_POINTS = 17
+
+// Pixels a hue band needs before its HSL shift is trusted
+export const PAIR_MIN_BAND_WEIGHT = 25
+
+// Pixel-equivalents of trust given to the fitted model at each LUT node, so sparse nodes follow the model
+export const PAIR_LUT_PRIOR_WEIGHT = 4
+
+// Long edge of the proxy rendered on every optimizer step in refine mode
+export const REFINE_PROXY_SIZE = 192
+
+// Proxy renders allowed per refinement, and wall-clock budget in milliseconds
+export const REFINE_ITERATIONS_RANGE = { MIN: 1, MAX: 500 }
+export const DEFAULT_REFINE_ITERATIONS = 120
+export const REFINE_TIME_LIMIT_RANGE = { MIN: 1000, MAX: 120000 }
+export const DEFAULT_REFINE_TIME_LIMIT = 30000
+
+// Sliders the optimizer may move, with Lightroom's slider bounds; temperature is in Kelvin, as extracted
+export const REFINE_PARAMETERS: Record<RefineParameter, { min: number; max: number }> = {
+  exposure: { min: -5, max: 5 },
+  contrast: { min: -100, max: 100 },
+  highlights: { min: -100, max: 100 },
+  shadows: { min: -100, max: 100 },
+  temperature: KELVIN_TEMPERATURE_RANGE,
+  tint: { min: -150, max: 150 },
+  saturation: { min: -100, max: 100 },
+  vibrance: { min: -100, max: 100 },
+  dehaze: { min: -100, max: 100 },
+  parametricShadows: { min: -100, max: 100 },
+  parametricDarks: { min: -100, max: 100 },
+  parametricLights: { min: -100, max: 100 },
+  parametricHighlights: { min: -100, max: 100 },
+}
+
+// Initial and final coordinate descent step, as fractions of each slider's range
+export const REFINE_INITIAL_STEP = 1 / 8
+export const REFINE_MIN_STEP = 1 / 400
+
+// Long edge images are decoded at for single-image analysis; 0 analyzes at full resolution
+export const DEFAULT_ANALYSIS_SIZE = 1024
+
+export const EXTRACTION_STAGES: ExtractionStage[] = [
+  "decode",
+  "tone-analysis",
+  "color-analysis",
+  "refine",
+  "xmp-generation",
+  "lut-generation",
+]
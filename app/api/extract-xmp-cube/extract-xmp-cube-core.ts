@@ -1,6 +1,9 @@
-import sharp, { Matrix3x3 } from "sharp"
+import { Matrix3x3 } from "sharp"
+import { createAnalysisContext } from "./analysis-context"
 import {
+  analyzeHueBands,
   calculateColorHue,
+  calculateColorLuminance,
   calculateColorNoiseReduction,
   calculateColorSaturation,
   calculateColorTemperature,
@@ -10,6 +13,9 @@ import {
   calculateVibrance,
   calculateVignetteAmount,
 } from "./color-analysis"
+import { analyzeColorGrading } from "./color-grading-analysis"
+import { DEFAULT_LUT_FORMAT, DEFAULT_LUT_OPTIONS } from "./constants"
+import { getLUTWriter, listLUTFormats, resolveLUTGrid } from "./lut-writers"
 import {
   calculateProfileDigest,
   determineCameraProfile,
@@ -21,6 +27,7 @@ import {
   hasCrop,
 } from "./metadata-analysis"
 import { calculateClarity, calculateLuminanceSmoothing, calculateSharpness, calculateTexture } from "./quality-analysis"
+import { refineImageProperties } from "./refine-analysis"
 import {
   calculateAllToneCurves,
   calculateBrightness,
@@ -36,15 +43,19 @@ import {
   calculateParametricShadows,
   calculateParametricShadowSplit,
   calculateShadows,
-  calculateSplitToningBalance,
-  calculateSplitToningHighlightHue,
-  calculateSplitToningHighlightSaturation,
-  calculateSplitToningShadowHue,
-  calculateSplitToningShadowSaturation,
   calculateToneMapStrength,
 } from "./tone-analysis"
+import {
+  ExtractionStage,
+  LUTArtifact,
+  LUTGrid,
+  LUTOptions,
+  RefinementSummary,
+  RefineOptions,
+  SampledLUT3D,
+} from "./types"
 import { calculateHueSaturationMatrix, multiplyMatrices } from "../shared/image-utils"
-import { ImageProperties, SharpChannel } from "../shared/types"
+import { ImageProperties } from "../shared/types"
 
 // Constants
 const DEFAULT_TONE_CURVE: number[][] = [
@@ -56,7 +67,6 @@ const IDENTITY_MATRIX: Matrix3x3 = [
   [0, 1, 0],
   [0, 0, 1],
 ]
-const LUT_SIZE = 32
 const MAX_CONTRAST_FACTOR = 5.0
 const EXPOSURE_RANGE = { MIN: -10, MAX: 10 }
 const CONTRAST_RANGE = { MIN: -100, MAX: 100 }
@@ -151,29 +161,19 @@ function applyFactors(point: ColorPoint, factors: ProcessingFactors): ColorPoint
   }
 }
 
-// CUBE file generation
-function generateCUBEHeader(filename: string): string {
-  return `#Created by NE-Presets
-#Copyright 2024
-#Source Image: ${filename}
-TITLE "NE-Presets LUT"
-DOMAIN_MIN 0 0 0
-DOMAIN_MAX 1 1 1
-LUT_3D_SIZE ${LUT_SIZE}
-
-`
-}
-
-function formatLUTPoint(point: ColorPoint): string {
-  return `${point.r.toFixed(6)} ${point.g.toFixed(6)} ${point.b.toFixed(6)}\n`
+// LUT sampling
+function resolveLUTOptions(options: Partial<LUTOptions> = {}): LUTOptions {
+  return { ...DEFAULT_LUT_OPTIONS, ...options }
 }
 
-// Main LUT generation function
-function generateCUBELUT(properties: ImageProperties, filename: string): string {
+function sampleLUT3D(properties: ImageProperties, grid: LUTGrid): SampledLUT3D {
   validateImageProperties(properties)
 
-  let content = generateCUBEHeader(filename)
-  const step = 1 / (LUT_SIZE - 1)
+  const { size, domainMin, domainMax } = grid
+  const data = new Float64Array(size * size * size * 3)
+  const step = 1 / (size - 1)
+  const sampleDomain = (index: number, channel: 0 | 1 | 2) =>
+    domainMin[channel] + index * step * (domainMax[channel] - domainMin[channel])
 
   // Pre-calculate matrices and factors
   const colorMatrix = calculateColorMatrixFromProperties(properties)
@@ -183,15 +183,16 @@ function generateCUBELUT(properties: ImageProperties, filename: string): string
   const finalColorMatrix = colorMatrix || IDENTITY_MATRIX
   const factors = calculateProcessingFactors(properties)
 
-  // Generate LUT points
-  for (let b = 0; b < LUT_SIZE; b++) {
-    for (let g = 0; g < LUT_SIZE; g++) {
-      for (let r = 0; r < LUT_SIZE; r++) {
+  // Generate LUT points, red varying fastest
+  let offset = 0
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
         // Create initial color point
         let point: ColorPoint = {
-          r: r * step,
-          g: g * step,
-          b: b * step,
+          r: sampleDomain(r, 0),
+          g: sampleDomain(g, 1),
+          b: sampleDomain(b, 2),
         }
 
         // Apply transformations in sequence
@@ -199,12 +200,42 @@ function generateCUBELUT(properties: ImageProperties, filename: string): string
         point = applyToneCurves(point, properties)
         point = applyFactors(point, factors)
 
-        content += formatLUTPoint(point)
+        data[offset++] = point.r
+        data[offset++] = point.g
+        data[offset++] = point.b
       }
     }
   }
 
-  return content
+  return { size, domainMin, domainMax, data }
+}
+
+// Main LUT generation function
+export async function generateLUT(
+  properties: ImageProperties,
+  filename: string,
+  format: string = DEFAULT_LUT_FORMAT,
+  lutOptions?: Partial<LUTOptions>
+): Promise<LUTArtifact> {
+  const writer = getLUTWriter(format)
+  if (!writer) {
+    throw new Error(`Unsupported LUT format: ${format}. Supported formats: ${listLUTFormats().join(", ")}`)
+  }
+
+  const options = resolveLUTOptions(lutOptions)
+  const lut = sampleLUT3D(properties, resolveLUTGrid(writer, options))
+  const content = await writer.write(lut, { sourceName: filename, options })
+
+  return { format: writer.format, extension: writer.extension, contentType: writer.contentType, content }
+}
+
+async function generateCUBELUT(
+  properties: ImageProperties,
+  filename: string,
+  lutOptions?: Partial<LUTOptions>
+): Promise<string> {
+  const { content } = await generateLUT(properties, filename, "cube", lutOptions)
+  return String(content)
 }
 
 // Helper function to calculate color matrix from image properties
@@ -238,13 +269,25 @@ function calculateColorMatrixFromProperties(properties: ImageProperties): Matrix
   return resultMatrix
 }
 
+// With `refine`, the sliders are optimized so rendering them onto `source` (or the image itself) matches the image.
+// `onStage` is called as each stage starts.
 export async function extractXMPCubeFromImage(
   buffer: Buffer,
-  filename: string
-): Promise<{ xmpContent: string; cubeContent: string; imageProperties: ImageProperties }> {
+  filename: string,
+  lutOptions?: Partial<LUTOptions>,
+  refine?: { options: RefineOptions; source?: Buffer },
+  onStage?: (stage: ExtractionStage) => void
+): Promise<{
+  xmpContent: string
+  cubeContent: string
+  imageProperties: ImageProperties
+  refinement?: RefinementSummary
+}> {
   try {
-    // Analyze image using sharp
-    const imageInfo = (await sharp(buffer).metadata()) as sharp.Metadata
+    // Decode once; every calculator below reads the same pixels, histograms and parsed metadata
+    onStage?.("decode")
+    const context = await createAnalysisContext(buffer)
+    const imageInfo = context.metadata
     console.log("Image metadata:", {
       format: imageInfo.format,
       width: imageInfo.width,
@@ -256,14 +299,7 @@ export async function extractXMPCubeFromImage(
       hasXmp: !!imageInfo.xmp,
     })
 
-    const stats = await sharp(buffer).stats()
-
-    if (!stats.channels || stats.channels.length < 3) {
-      throw new Error("Invalid image: requires RGB channels")
-    }
-
-    // Ensure channels are defined
-    const channels = stats.channels as SharpChannel[]
+    const { channels } = context
     console.log(
       "Channel statistics:",
       channels.map((c, i) => ({
@@ -275,48 +311,35 @@ export async function extractXMPCubeFromImage(
       }))
     )
 
-    // Calculate color adjustments first since they're async
-    const [
-      redHue,
-      orangeHue,
-      yellowHue,
-      greenHue,
-      aquaHue,
-      blueHue,
-      purpleHue,
-      magentaHue,
-      redSaturation,
-      orangeSaturation,
-      yellowSaturation,
-      greenSaturation,
-      aquaSaturation,
-      blueSaturation,
-      purpleSaturation,
-      magentaSaturation,
-    ] = await Promise.all([
-      calculateColorHue("red", buffer),
-      calculateColorHue("orange", buffer),
-      calculateColorHue("yellow", buffer),
-      calculateColorHue("green", buffer),
-      calculateColorHue("aqua", buffer),
-      calculateColorHue("blue", buffer),
-      calculateColorHue("purple", buffer),
-      calculateColorHue("magenta", buffer),
-      calculateColorSaturation("red", buffer),
-      calculateColorSaturation("orange", buffer),
-      calculateColorSaturation("yellow", buffer),
-      calculateColorSaturation("green", buffer),
-      calculateColorSaturation("aqua", buffer),
-      calculateColorSaturation("blue", buffer),
-      calculateColorSaturation("purple", buffer),
-      calculateColorSaturation("magenta", buffer),
-    ])
-
     // Calculate tone curves using optimized function
-    const { toneCurve, toneCurveRed, toneCurveGreen, toneCurveBlue } = await calculateAllToneCurves(channels, buffer)
+    onStage?.("tone-analysis")
+    const { toneCurve, toneCurveRed, toneCurveGreen, toneCurveBlue } = calculateAllToneCurves(context)
+
+    // Bin every pixel into the eight hue bands once, then derive each band's adjustments from the result
+    onStage?.("color-analysis")
+    const hueBands = analyzeHueBands(context)
+    const redHue = calculateColorHue("red", hueBands)
+    const orangeHue = calculateColorHue("orange", hueBands)
+    const yellowHue = calculateColorHue("yellow", hueBands)
+    const greenHue = calculateColorHue("green", hueBands)
+    const aquaHue = calculateColorHue("aqua", hueBands)
+    const blueHue = calculateColorHue("blue", hueBands)
+    const purpleHue = calculateColorHue("purple", hueBands)
+    const magentaHue = calculateColorHue("magenta", hueBands)
+    const redSaturation = calculateColorSaturation("red", hueBands)
+    const orangeSaturation = calculateColorSaturation("orange", hueBands)
+    const yellowSaturation = calculateColorSaturation("yellow", hueBands)
+    const greenSaturation = calculateColorSaturation("green", hueBands)
+    const aquaSaturation = calculateColorSaturation("aqua", hueBands)
+    const blueSaturation = calculateColorSaturation("blue", hueBands)
+    const purpleSaturation = calculateColorSaturation("purple", hueBands)
+    const magentaSaturation = calculateColorSaturation("magenta", hueBands)
+
+    // Analyze shadow, midtone and highlight chroma for colour grading
+    const colorGrading = analyzeColorGrading(context)
 
     // Extract image properties
-    const imageProperties: ImageProperties = {
+    const heuristicProperties: ImageProperties = {
       exposure: calculateExposure(channels),
       temperature: calculateColorTemperature(channels),
       tint: calculateTint(channels),
@@ -342,49 +365,80 @@ export async function extractXMPCubeFromImage(
       cameraProfile: determineCameraProfile(imageInfo),
       cameraProfileDigest: calculateProfileDigest(determineCameraProfile(imageInfo)),
       hasSettings: true,
-      hasCrop: await hasCrop(imageInfo),
+      hasCrop: hasCrop(imageInfo, context.exif, context.xmp),
       alreadyApplied: false,
       toneCurveName: determineToneCurveName(channels),
       version: determineVersion(imageInfo),
       processVersion: determineProcessVersion(imageInfo),
-      whiteBalance: await determineWhiteBalance(imageInfo),
+      whiteBalance: determineWhiteBalance(context.exif, context.xmp),
       colorNoiseReduction: calculateColorNoiseReduction(channels),
       vignetteAmount: calculateVignetteAmount(channels),
       shadowTint: calculateShadowTint(channels),
       redHue,
       redSaturation,
+      redLuminance: calculateColorLuminance("red", hueBands),
       orangeHue,
       orangeSaturation,
+      orangeLuminance: calculateColorLuminance("orange", hueBands),
       yellowHue,
       yellowSaturation,
+      yellowLuminance: calculateColorLuminance("yellow", hueBands),
       greenHue,
       greenSaturation,
+      greenLuminance: calculateColorLuminance("green", hueBands),
       aquaHue,
       aquaSaturation,
+      aquaLuminance: calculateColorLuminance("aqua", hueBands),
       blueHue,
       blueSaturation,
+      blueLuminance: calculateColorLuminance("blue", hueBands),
       purpleHue,
       purpleSaturation,
+      purpleLuminance: calculateColorLuminance("purple", hueBands),
       magentaHue,
       magentaSaturation,
-      splitToningShadowHue: calculateSplitToningShadowHue(channels),
-      splitToningShadowSaturation: calculateSplitToningShadowSaturation(channels),
-      splitToningHighlightHue: calculateSplitToningHighlightHue(channels),
-      splitToningHighlightSaturation: calculateSplitToningHighlightSaturation(channels),
-      splitToningBalance: calculateSplitToningBalance(channels),
+      magentaLuminance: calculateColorLuminance("magenta", hueBands),
+      // Legacy split toning mirrors the shadow and highlight wheels, as Lightroom does
+      splitToningShadowHue: colorGrading.shadows.hue,
+      splitToningShadowSaturation: colorGrading.shadows.saturation,
+      splitToningHighlightHue: colorGrading.highlights.hue,
+      splitToningHighlightSaturation: colorGrading.highlights.saturation,
+      splitToningBalance: colorGrading.balance,
+      colorGradeShadowHue: colorGrading.shadows.hue,
+      colorGradeShadowSaturation: colorGrading.shadows.saturation,
+      colorGradeShadowLuminance: colorGrading.shadows.luminance,
+      colorGradeMidtoneHue: colorGrading.midtones.hue,
+      colorGradeMidtoneSaturation: colorGrading.midtones.saturation,
+      colorGradeMidtoneLuminance: colorGrading.midtones.luminance,
+      colorGradeHighlightHue: colorGrading.highlights.hue,
+      colorGradeHighlightSaturation: colorGrading.highlights.saturation,
+      colorGradeHighlightLuminance: colorGrading.highlights.luminance,
+      colorGradeGlobalHue: colorGrading.global.hue,
+      colorGradeGlobalSaturation: colorGrading.global.saturation,
+      colorGradeGlobalLuminance: colorGrading.global.luminance,
+      colorGradeBlending: colorGrading.blending,
+      colorGradeBalance: colorGrading.balance,
       toneCurve,
       toneCurveRed,
       toneCurveGreen,
       toneCurveBlue,
     }
 
+    // Optionally refine the heuristic sliders against real renders
+    if (refine) onStage?.("refine")
+    const { properties: imageProperties, refinement } = refine
+      ? await refineImageProperties(buffer, refine.source, filename, heuristicProperties, refine.options)
+      : { properties: heuristicProperties, refinement: undefined }
+
     // Generate XMP-CRS content
+    onStage?.("xmp-generation")
     const xmpContent = generateXMPCRS(filename, imageProperties)
 
     // Generate CUBE LUT content
-    const cubeContent = generateCUBELUT(imageProperties, filename)
+    onStage?.("lut-generation")
+    const cubeContent = await generateCUBELUT(imageProperties, filename, lutOptions)
 
-    return { xmpContent, cubeContent, imageProperties }
+    return { xmpContent, cubeContent, imageProperties, refinement }
   } catch (error) {
     console.error("Error in analyzeImageAndGenerateXMP:", error)
     if (error instanceof Error) {
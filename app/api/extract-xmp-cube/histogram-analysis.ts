@@ -1,5 +1,3 @@
-import sharp from "sharp"
-
 export interface HistogramPeak {
   position: number
   height: number
@@ -209,47 +207,27 @@ export function calculateHistogramStats(histogram: number[]): HistogramStats {
   }
 }
 
-export async function getChannelHistogram(buffer: Buffer, channelIndex: 0 | 1 | 2): Promise<Histogram> {
-  // Get channel statistics from sharp
-  const stats = await sharp(buffer).stats()
-
-  if (!stats.channels || stats.channels.length <= channelIndex) {
-    throw new Error(`Invalid channel index: ${channelIndex}`)
-  }
-
-  const channelStats = stats.channels[channelIndex]
-  if (!channelStats) {
-    throw new Error(`No statistics available for channel ${channelIndex}`)
-  }
-
-  // Extract raw channel data for detailed histogram
-  const channelData = await sharp(buffer).extractChannel(channelIndex).raw().toBuffer()
-
+/**
+ * Build one channel's 256-bin histogram from interleaved 8-bit pixels, with peaks sorted by height
+ */
+export function createChannelHistogram(pixels: Buffer, channels: number, channelIndex: 0 | 1 | 2): Histogram {
   const counts = new Array(256).fill(0)
   let sum = 0
   let sumSquares = 0
-  const total = channelData.length
 
-  // Build histogram and calculate statistics
-  for (let i = 0; i < channelData.length; i++) {
-    const value = channelData[i]
-    if (typeof value === "number" && value >= 0 && value < 256) {
-      counts[value]++
-      sum += value
-      sumSquares += value * value
-    }
+  for (let i = channelIndex; i < pixels.length; i += channels) {
+    const value = pixels[i]!
+    counts[value]++
+    sum += value
+    sumSquares += value * value
   }
 
-  // Use sharp's statistics for more accurate mean and standard deviation
-  const mean = typeof channelStats.mean === "number" ? channelStats.mean : sum / total
-  const stdev =
-    typeof channelStats.stdev === "number" ? channelStats.stdev : Math.sqrt(sumSquares / total - mean * mean)
-
-  // Smooth histogram for peak detection
-  const smoothedCounts = smoothArray(counts)
+  const total = pixels.length / channels
+  const mean = total > 0 ? sum / total : 0
+  const stdev = total > 0 ? Math.sqrt(Math.max(0, sumSquares / total - mean * mean)) : 0
 
   // Find peaks using smoothed histogram
-  const peaks = findHistogramPeaks(smoothedCounts, mean, stdev)
+  const peaks = findHistogramPeaks(smoothArray(counts), mean, stdev)
 
   return {
     counts,
@@ -1,7 +1,10 @@
 import { Channels, Matrix3x3, Metadata } from "sharp"
+import { AnalysisContext } from "./analysis-context"
 import { calculateProfileDigest, determineCameraProfile } from "./camera-profiles"
 import {
+  analyzeHueBands,
   calculateColorHue,
+  calculateColorLuminance,
   calculateColorNoiseReduction,
   calculateColorSaturation,
   calculateColorTemperature,
@@ -11,14 +14,8 @@ import {
   calculateVibrance,
   calculateVignetteAmount,
 } from "./color-analysis"
+import { analyzeColorGrading } from "./color-grading-analysis"
 import { calculateClarity, calculateLuminanceSmoothing, calculateSharpness, calculateTexture } from "./quality-analysis"
-import {
-  calculateSplitToningBalance,
-  calculateSplitToningHighlightHue,
-  calculateSplitToningHighlightSaturation,
-  calculateSplitToningShadowHue,
-  calculateSplitToningShadowSaturation,
-} from "./split-toning-analysis"
 import {
   calculateBrightness,
   calculateContrast,
@@ -44,7 +41,7 @@ interface ImageInfo {
   make: string
   channels: SharpChannel[]
   metadata: Record<string, unknown>
-  buffer: Buffer
+  context: AnalysisContext
 }
 
 // Helper function to convert ImageInfo to Metadata
@@ -56,14 +53,15 @@ function toMetadata(info: ImageInfo): Metadata {
 }
 
 export async function extractImageProperties(imageInfo: ImageInfo): Promise<ImageProperties> {
-  const { channels, make, metadata, buffer } = imageInfo
+  const { channels, make, metadata, context } = imageInfo
   const metadataForSharp = toMetadata(imageInfo)
 
   // Extract basic properties
   const cameraProfile = determineCameraProfile(make)
   const hasCropValue = await checkForCrop(metadata)
 
-  // Calculate color adjustments
+  // Calculate color adjustments from a single pass over the hue bands
+  const hueBands = analyzeHueBands(context)
   const [
     redHue,
     redSat,
@@ -81,24 +79,27 @@ export async function extractImageProperties(imageInfo: ImageInfo): Promise<Imag
     purpleSat,
     magentaHue,
     magentaSat,
-  ] = await Promise.all([
-    calculateColorHue("red", buffer),
-    calculateColorSaturation("red", buffer),
-    calculateColorHue("orange", buffer),
-    calculateColorSaturation("orange", buffer),
-    calculateColorHue("yellow", buffer),
-    calculateColorSaturation("yellow", buffer),
-    calculateColorHue("green", buffer),
-    calculateColorSaturation("green", buffer),
-    calculateColorHue("aqua", buffer),
-    calculateColorSaturation("aqua", buffer),
-    calculateColorHue("blue", buffer),
-    calculateColorSaturation("blue", buffer),
-    calculateColorHue("purple", buffer),
-    calculateColorSaturation("purple", buffer),
-    calculateColorHue("magenta", buffer),
-    calculateColorSaturation("magenta", buffer),
-  ])
+  ] = [
+    calculateColorHue("red", hueBands),
+    calculateColorSaturation("red", hueBands),
+    calculateColorHue("orange", hueBands),
+    calculateColorSaturation("orange", hueBands),
+    calculateColorHue("yellow", hueBands),
+    calculateColorSaturation("yellow", hueBands),
+    calculateColorHue("green", hueBands),
+    calculateColorSaturation("green", hueBands),
+    calculateColorHue("aqua", hueBands),
+    calculateColorSaturation("aqua", hueBands),
+    calculateColorHue("blue", hueBands),
+    calculateColorSaturation("blue", hueBands),
+    calculateColorHue("purple", hueBands),
+    calculateColorSaturation("purple", hueBands),
+    calculateColorHue("magenta", hueBands),
+    calculateColorSaturation("magenta", hueBands),
+  ]
+
+  // Analyze shadow, midtone and highlight chroma for colour grading
+  const colorGrading = analyzeColorGrading(context)
 
   // Calculate all properties
   const properties: ImageProperties = {
@@ -127,11 +128,27 @@ export async function extractImageProperties(imageInfo: ImageInfo): Promise<Imag
     colorNoiseReduction: calculateColorNoiseReduction(channels),
     vignetteAmount: calculateVignetteAmount(channels),
     shadowTint: calculateShadowTint(channels),
-    splitToningShadowHue: calculateSplitToningShadowHue(channels),
-    splitToningShadowSaturation: calculateSplitToningShadowSaturation(channels),
-    splitToningHighlightHue: calculateSplitToningHighlightHue(channels),
-    splitToningHighlightSaturation: calculateSplitToningHighlightSaturation(channels),
-    splitToningBalance: calculateSplitToningBalance(channels),
+    splitToningShadowHue: colorGrading.shadows.hue,
+    splitToningShadowSaturation: colorGrading.shadows.saturation,
+    splitToningHighlightHue: colorGrading.highlights.hue,
+    splitToningHighlightSaturation: colorGrading.highlights.saturation,
+    splitToningBalance: colorGrading.balance,
+
+    // Color grading
+    colorGradeShadowHue: colorGrading.shadows.hue,
+    colorGradeShadowSaturation: colorGrading.shadows.saturation,
+    colorGradeShadowLuminance: colorGrading.shadows.luminance,
+    colorGradeMidtoneHue: colorGrading.midtones.hue,
+    colorGradeMidtoneSaturation: colorGrading.midtones.saturation,
+    colorGradeMidtoneLuminance: colorGrading.midtones.luminance,
+    colorGradeHighlightHue: colorGrading.highlights.hue,
+    colorGradeHighlightSaturation: colorGrading.highlights.saturation,
+    colorGradeHighlightLuminance: colorGrading.highlights.luminance,
+    colorGradeGlobalHue: colorGrading.global.hue,
+    colorGradeGlobalSaturation: colorGrading.global.saturation,
+    colorGradeGlobalLuminance: colorGrading.global.luminance,
+    colorGradeBlending: colorGrading.blending,
+    colorGradeBalance: colorGrading.balance,
 
     // Camera and processing info
     cameraProfile,
@@ -147,20 +164,28 @@ export async function extractImageProperties(imageInfo: ImageInfo): Promise<Imag
     // Color adjustments
     redHue,
     redSaturation: redSat,
+    redLuminance: calculateColorLuminance("red", hueBands),
     orangeHue,
     orangeSaturation: orangeSat,
+    orangeLuminance: calculateColorLuminance("orange", hueBands),
     yellowHue,
     yellowSaturation: yellowSat,
+    yellowLuminance: calculateColorLuminance("yellow", hueBands),
     greenHue,
     greenSaturation: greenSat,
+    greenLuminance: calculateColorLuminance("green", hueBands),
     aquaHue,
     aquaSaturation: aquaSat,
+    aquaLuminance: calculateColorLuminance("aqua", hueBands),
     blueHue,
     blueSaturation: blueSat,
+    blueLuminance: calculateColorLuminance("blue", hueBands),
     purpleHue,
     purpleSaturation: purpleSat,
+    purpleLuminance: calculateColorLuminance("purple", hueBands),
     magentaHue,
     magentaSaturation: magentaSat,
+    magentaLuminance: calculateColorLuminance("magenta", hueBands),
 
     // Tone curves
     toneCurve: await calculateToneCurve(channels),
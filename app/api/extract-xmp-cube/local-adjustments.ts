@@ -1,8 +1,9 @@
 import sharp from "sharp"
 import type { BrushMask, BrushStroke, Circle, GradientMask, Point, RadialMask } from "./types"
+import { IMAGE_INPUT_OPTIONS } from "../shared/validator"
 
 export async function detectGradientAreas(buffer: Buffer): Promise<GradientMask[]> {
-  const metadata = await sharp(buffer).metadata()
+  const metadata = await sharp(buffer, IMAGE_INPUT_OPTIONS).metadata()
   const { width = 0, height = 0 } = metadata
 
   if (!width || !height) {
@@ -13,7 +14,7 @@ export async function detectGradientAreas(buffer: Buffer): Promise<GradientMask[
   const gradients: GradientMask[] = []
 
   // Get luminance data
-  const luminanceData = await sharp(buffer).greyscale().raw().toBuffer()
+  const luminanceData = await sharp(buffer, IMAGE_INPUT_OPTIONS).greyscale().raw().toBuffer()
 
   // Analyze horizontal gradients
   const horizontalGradients = detectDirectionalGradients(luminanceData, width, height, "horizontal")
@@ -105,7 +106,7 @@ function calculateGradientStrength(profile: number[]): number {
 }
 
 export async function detectRadialAreas(buffer: Buffer): Promise<RadialMask[]> {
-  const metadata = await sharp(buffer).metadata()
+  const metadata = await sharp(buffer, IMAGE_INPUT_OPTIONS).metadata()
   const { width = 0, height = 0 } = metadata
 
   if (!width || !height) {
@@ -113,7 +114,7 @@ export async function detectRadialAreas(buffer: Buffer): Promise<RadialMask[]> {
   }
 
   // Get edge data using Canny edge detection
-  const edges = await sharp(buffer)
+  const edges = await sharp(buffer, IMAGE_INPUT_OPTIONS)
     .greyscale()
     .convolve({
       width: 3,
@@ -265,7 +266,7 @@ function mergeOverlappingCircles(circles: Circle[]): Circle[] {
 }
 
 export async function detectBrushAreas(buffer: Buffer): Promise<BrushMask[]> {
-  const metadata = await sharp(buffer).metadata()
+  const metadata = await sharp(buffer, IMAGE_INPUT_OPTIONS).metadata()
   const { width = 0, height = 0 } = metadata
 
   if (!width || !height) {
@@ -273,7 +274,7 @@ export async function detectBrushAreas(buffer: Buffer): Promise<BrushMask[]> {
   }
 
   // Get edge data for detecting brush-like patterns
-  const edges = await sharp(buffer)
+  const edges = await sharp(buffer, IMAGE_INPUT_OPTIONS)
     .greyscale()
     .convolve({
       width: 3,
@@ -0,0 +1,254 @@
+import sharp from "sharp"
+import { LUTGrid, LUTOptions, LUTWriter, LUTWriterContext, RGBTriplet, SampledLUT3D } from "./types"
+
+const UNIT_DOMAIN_MIN: RGBTriplet = [0, 0, 0]
+const UNIT_DOMAIN_MAX: RGBTriplet = [1, 1, 1]
+
+// Lustre/Flame conventions: 10-bit input shaper, 12-bit output values
+const THREEDL_INPUT_MAX = 1023
+const THREEDL_OUTPUT_BITS = 12
+const THREEDL_OUTPUT_MAX = (1 << THREEDL_OUTPUT_BITS) - 1
+
+// Private helpers
+function sanitizeHeaderValue(value: string): string {
+  return value.replace(/[\r\n"]+/g, " ").trim()
+}
+
+function formatValue(value: number, precision: number): string {
+  return value.toFixed(precision)
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value))
+}
+
+function unitGrid(size: number): LUTGrid {
+  return { size, domainMin: UNIT_DOMAIN_MIN, domainMax: UNIT_DOMAIN_MAX }
+}
+
+// Iterate the sampled table with blue varying fastest, as .3dl expects
+function forEachBlueFastest(lut: SampledLUT3D, callback: (offset: number) => void): void {
+  const { size } = lut
+  for (let r = 0; r < size; r++) {
+    for (let g = 0; g < size; g++) {
+      for (let b = 0; b < size; b++) {
+        callback((r + g * size + b * size * size) * 3)
+      }
+    }
+  }
+}
+
+// CUBE (Adobe/Resolve)
+function generateCUBEHeader({ sourceName, options }: LUTWriterContext): string {
+  const { size, precision, title, domainMin, domainMax, shaperSize } = options
+  const lines = [
+    "#Created by NE-Presets",
+    "#Copyright 2024",
+    `#Source Image: ${sanitizeHeaderValue(sourceName)}`,
+    `TITLE "${sanitizeHeaderValue(title)}"`,
+  ]
+
+  if (shaperSize) {
+    // The shaper normalizes the input range so the 3D table always covers 0..1
+    lines.push(
+      `LUT_1D_SIZE ${shaperSize}`,
+      `LUT_1D_INPUT_RANGE ${formatValue(domainMin[0], precision)} ${formatValue(domainMax[0], precision)}`,
+      `LUT_3D_SIZE ${size}`,
+      `LUT_3D_INPUT_RANGE ${formatValue(0, precision)} ${formatValue(1, precision)}`
+    )
+  } else {
+    lines.push(
+      `DOMAIN_MIN ${domainMin.map((v) => formatValue(v, precision)).join(" ")}`,
+      `DOMAIN_MAX ${domainMax.map((v) => formatValue(v, precision)).join(" ")}`,
+      `LUT_3D_SIZE ${size}`
+    )
+  }
+
+  return `${lines.join("\n")}\n\n`
+}
+
+function generateShaperLUT(shaperSize: number, precision: number): string {
+  const lines: string[] = []
+  for (let i = 0; i < shaperSize; i++) {
+    const value = formatValue(i / (shaperSize - 1), precision)
+    lines.push(`${value} ${value} ${value}`)
+  }
+  return `${lines.join("\n")}\n`
+}
+
+const cubeWriter: LUTWriter = {
+  format: "cube",
+  extension: "cube",
+  contentType: "text/plain; charset=utf-8",
+  binary: false,
+  async write(lut, context) {
+    const { precision, shaperSize } = context.options
+    const chunks: string[] = [generateCUBEHeader(context)]
+    if (shaperSize) {
+      chunks.push(generateShaperLUT(shaperSize, precision))
+    }
+
+    for (let i = 0; i < lut.data.length; i += 3) {
+      chunks.push(
+        `${formatValue(lut.data[i]!, precision)} ${formatValue(lut.data[i + 1]!, precision)} ${formatValue(
+          lut.data[i + 2]!,
+          precision
+        )}\n`
+      )
+    }
+
+    return chunks.join("")
+  },
+}
+
+// 3DL (Autodesk Lustre/Flame)
+const threeDLWriter: LUTWriter = {
+  format: "3dl",
+  extension: "3dl",
+  contentType: "text/plain; charset=utf-8",
+  binary: false,
+  resolveGrid: (options) => unitGrid(options.size),
+  async write(lut) {
+    const { size } = lut
+    const lines: string[] = []
+
+    // Lustre only understands power-of-two-plus-one meshes; other sizes use the plain Flame layout
+    const meshBits = Math.log2(size - 1)
+    if (Number.isInteger(meshBits)) {
+      lines.push("3DMESH", `Mesh ${meshBits} ${THREEDL_OUTPUT_BITS}`)
+    }
+
+    const shaper = Array.from({ length: size }, (_, i) => Math.round((i * THREEDL_INPUT_MAX) / (size - 1)))
+    lines.push(shaper.join(" "))
+
+    forEachBlueFastest(lut, (offset) => {
+      const [r, g, b] = [lut.data[offset]!, lut.data[offset + 1]!, lut.data[offset + 2]!].map((v) =>
+        Math.round(clamp01(v) * THREEDL_OUTPUT_MAX)
+      )
+      lines.push(`${r} ${g} ${b}`)
+    })
+
+    return `${lines.join("\n")}\n`
+  },
+}
+
+// Hald CLUT (ImageMagick -hald-clut, ffmpeg haldclut)
+const haldWriter: LUTWriter = {
+  format: "hald",
+  extension: "png",
+  contentType: "image/png",
+  binary: true,
+  resolveGrid: (options) => unitGrid(options.haldLevel * options.haldLevel),
+  async write(lut) {
+    const level = Math.round(Math.sqrt(lut.size))
+    const side = level * level * level
+    const pixels = new Uint16Array(side * side * 3)
+
+    // Pixel order matches the sampled table: red fastest, then green, then blue
+    for (let i = 0; i < lut.data.length; i++) {
+      pixels[i] = Math.round(clamp01(lut.data[i]!) * 65535)
+    }
+
+    return sharp(pixels, { raw: { width: side, height: side, channels: 3 } })
+      .toColourspace("rgb16")
+      .png()
+      .toBuffer()
+  },
+}
+
+// CSP (Rising Sun Research cineSpace)
+const cspWriter: LUTWriter = {
+  format: "csp",
+  extension: "csp",
+  contentType: "text/plain; charset=utf-8",
+  binary: false,
+  async write(lut, { options }) {
+    const { precision, title } = options
+    const lines = ["CSPLUTV100", "3D", "", "BEGIN METADATA", sanitizeHeaderValue(title), "END METADATA", ""]
+
+    // Per-channel pre-LUT maps the input domain onto the 0..1 cube
+    for (let channel = 0; channel < 3; channel++) {
+      lines.push(
+        "2",
+        `${formatValue(lut.domainMin[channel]!, precision)} ${formatValue(lut.domainMax[channel]!, precision)}`,
+        `${formatValue(0, precision)} ${formatValue(1, precision)}`
+      )
+    }
+
+    lines.push("", `${lut.size} ${lut.size} ${lut.size}`)
+    for (let i = 0; i < lut.data.length; i += 3) {
+      lines.push(
+        `${formatValue(lut.data[i]!, precision)} ${formatValue(lut.data[i + 1]!, precision)} ${formatValue(
+          lut.data[i + 2]!,
+          precision
+        )}`
+      )
+    }
+
+    return `${lines.join("\n")}\n`
+  },
+}
+
+// LOOK (IRIDAS/SpeedGrade XML, read natively by OpenColorIO)
+function floatToHex(value: number): string {
+  const bytes = Buffer.alloc(4)
+  bytes.writeFloatLE(value)
+  return bytes.toString("hex")
+}
+
+const lookWriter: LUTWriter = {
+  format: "look",
+  extension: "look",
+  contentType: "application/xml; charset=utf-8",
+  binary: false,
+  resolveGrid: (options) => unitGrid(options.size),
+  async write(lut) {
+    const data = Array.from(lut.data, (value) => floatToHex(value)).join("")
+
+    return `<?xml version="1.0" ?>
+<look>
+  <shaders>
+    <base>
+      <visible>1</visible>
+      <sublayer0>
+        <opacity>1.0</opacity>
+        <parameters>
+          <LUT>
+            <size>"${lut.size}"</size>
+            <data>"${data}"</data>
+          </LUT>
+        </parameters>
+      </sublayer0>
+    </base>
+  </shaders>
+</look>
+`
+  },
+}
+
+// Registry
+const LUT_WRITERS = new Map<string, LUTWriter>()
+
+export function registerLUTWriter(writer: LUTWriter): void {
+  LUT_WRITERS.set(writer.format.toLowerCase(), writer)
+}
+
+export function getLUTWriter(format: string): LUTWriter | undefined {
+  return LUT_WRITERS.get(format.toLowerCase())
+}
+
+export function listLUTFormats(): string[] {
+  return Array.from(LUT_WRITERS.keys())
+}
+
+export function resolveLUTGrid(writer: LUTWriter, options: LUTOptions): LUTGrid {
+  return writer.resolveGrid
+    ? writer.resolveGrid(options)
+    : { size: options.size, domainMin: options.domainMin, domainMax: options.domainMax }
+}
+
+registerLUTWriter(cubeWriter)
+registerLUTWriter(threeDLWriter)
+registerLUTWriter(haldWriter)
+registerLUTWriter(cspWriter)
+registerLUTWriter(lookWriter)
@@ -1,16 +1,14 @@
 import { exiftool, Tags } from "exiftool-vendored"
-import { XMLParser } from "fast-xml-parser"
 import sharp from "sharp"
 import { create } from "xmlbuilder2"
-import { mkdtemp, rm, writeFile } from "fs/promises"
-import os from "os"
-import path from "path"
 import { calculateContrast } from "./tone-analysis"
 import { ImageProperties, SharpChannel } from "./types"
-import { XMPRoot } from "../shared/xml-parser"
+import { cleanupTempFiles, createTempDir, writeTempFile } from "../shared/file-manager"
+import { PV2012Property } from "../shared/types"
+import { getCRSPropertyName, readCRSSettings, toCRSValue } from "../shared/xml-parser"
+import { getXMPNumber, parseXMPDocument } from "../shared/xmp-document"
 
-// Private interfaces
-interface ExifData {
+export interface ExifData {
   Make?: string
   Model?: string
   WhiteBalance?: string
@@ -22,6 +20,7 @@ interface ExifData {
   OriginalHeight?: number
 }
 
+// Private interfaces
 interface CameraProfileSet {
   default: string
   profiles: string[]
@@ -154,9 +153,8 @@ export async function parseExifData(metadata: sharp.Metadata): Promise<ExifData>
   let tmpDir = ""
   try {
     const buffer = exif instanceof Buffer ? exif : Buffer.from(exif)
-    tmpDir = await mkdtemp(path.join(os.tmpdir(), "exif-"))
-    const tmpFile = path.join(tmpDir, "temp.jpg")
-    await writeFile(tmpFile, buffer)
+    tmpDir = await createTempDir()
+    const tmpFile = await writeTempFile(tmpDir, "exif.jpg", buffer)
 
     const tags = (await exiftool.read(tmpFile)) as Tags
     console.log("Extracted EXIF tags:", Object.keys(tags).join(", "))
@@ -180,39 +178,11 @@ export async function parseExifData(metadata: sharp.Metadata): Promise<ExifData>
     return {}
   } finally {
     if (tmpDir) {
-      try {
-        await rm(tmpDir, { recursive: true, force: true })
-      } catch (cleanupError) {
-        console.error("Error cleaning up temporary directory:", cleanupError)
-      }
+      await cleanupTempFiles(tmpDir)
     }
   }
 }
 
-export function parseToneCurve(curve: Record<string, unknown> | undefined): number[][] | undefined {
-  if (!curve || !curve["rdf:Seq"] || typeof curve["rdf:Seq"] !== "object") return undefined
-
-  const seq = curve["rdf:Seq"] as Record<string, unknown>
-  const points = seq["rdf:li"]
-
-  if (!points) return undefined
-
-  const pointArray = Array.isArray(points) ? points : [points]
-
-  const validPoints = pointArray
-    .map((point) => {
-      if (typeof point !== "string") return null
-      const [x, y] = point.split(",").map((n) => {
-        const num = parseFloat(n.trim())
-        return isNaN(num) ? null : num
-      })
-      return x !== null && y !== null ? [x, y] : null
-    })
-    .filter((point): point is [number, number] => point !== null)
-
-  return validPoints.length > 0 ? validPoints : undefined
-}
-
 export async function parseXMPData(
   metadata: sharp.Metadata
 ): Promise<Record<string, string | number | boolean | unknown>> {
@@ -220,68 +190,63 @@ export async function parseXMPData(
   if (!xmp) return {}
 
   try {
-    const xmpString = xmp instanceof Buffer ? xmp.toString() : xmp
-    const parser = new XMLParser({
-      ignoreAttributes: false,
-      attributeNamePrefix: "",
-      textNodeName: "_text",
-      parseAttributeValue: true,
-      parseTagValue: true,
-    })
-    const result = parser.parse(xmpString) as XMPRoot
-    const crs = result?.["x:xmpmeta"]?.["rdf:RDF"]?.["rdf:Description"] as Record<string, unknown>
-    if (!crs) return {}
+    const document = parseXMPDocument(xmp.toString())
+    if (document.descriptions.length === 0) return {}
+
+    // Basic sliders resolve against the packet's process version
+    const settings = readCRSSettings(document)
+    const number = (name: string) => getXMPNumber(document, `crs:${name}`) ?? 0
 
     // Map CRS properties to our format
     return {
-      WhiteBalance: String(crs["crs:WhiteBalance"] || ""),
-      Temperature: parseFloat(String(crs["crs:Temperature"] || "0")),
-      Tint: parseFloat(String(crs["crs:Tint"] || "0")),
-      Exposure: parseFloat(String(crs["crs:Exposure2012"] || "0")),
-      Contrast: parseFloat(String(crs["crs:Contrast2012"] || "0")),
-      Highlights: parseFloat(String(crs["crs:Highlights2012"] || "0")),
-      Shadows: parseFloat(String(crs["crs:Shadows2012"] || "0")),
-      Clarity: parseFloat(String(crs["crs:Clarity2012"] || "0")),
-      Dehaze: parseFloat(String(crs["crs:Dehaze"] || "0")),
-      Vibrance: parseFloat(String(crs["crs:Vibrance"] || "0")),
-      Saturation: parseFloat(String(crs["crs:Saturation"] || "0")),
-      ParametricShadows: parseFloat(String(crs["crs:ParametricShadows"] || "0")),
-      ParametricDarks: parseFloat(String(crs["crs:ParametricDarks"] || "0")),
-      ParametricLights: parseFloat(String(crs["crs:ParametricLights"] || "0")),
-      ParametricHighlights: parseFloat(String(crs["crs:ParametricHighlights"] || "0")),
-      ParametricShadowSplit: parseFloat(String(crs["crs:ParametricShadowSplit"] || "0")),
-      ParametricMidtoneSplit: parseFloat(String(crs["crs:ParametricMidtoneSplit"] || "0")),
-      ParametricHighlightSplit: parseFloat(String(crs["crs:ParametricHighlightSplit"] || "0")),
-      Sharpness: parseFloat(String(crs["crs:Sharpness"] || "0")),
-      LuminanceSmoothing: parseFloat(String(crs["crs:LuminanceSmoothing"] || "0")),
-      ColorNoiseReduction: parseFloat(String(crs["crs:ColorNoiseReduction"] || "0")),
-      HueAdjustmentRed: parseFloat(String(crs["crs:HueAdjustmentRed"] || "0")),
-      HueAdjustmentOrange: parseFloat(String(crs["crs:HueAdjustmentOrange"] || "0")),
-      HueAdjustmentYellow: parseFloat(String(crs["crs:HueAdjustmentYellow"] || "0")),
-      HueAdjustmentGreen: parseFloat(String(crs["crs:HueAdjustmentGreen"] || "0")),
-      HueAdjustmentAqua: parseFloat(String(crs["crs:HueAdjustmentAqua"] || "0")),
-      HueAdjustmentBlue: parseFloat(String(crs["crs:HueAdjustmentBlue"] || "0")),
-      HueAdjustmentPurple: parseFloat(String(crs["crs:HueAdjustmentPurple"] || "0")),
-      HueAdjustmentMagenta: parseFloat(String(crs["crs:HueAdjustmentMagenta"] || "0")),
-      SaturationAdjustmentRed: parseFloat(String(crs["crs:SaturationAdjustmentRed"] || "0")),
-      SaturationAdjustmentOrange: parseFloat(String(crs["crs:SaturationAdjustmentOrange"] || "0")),
-      SaturationAdjustmentYellow: parseFloat(String(crs["crs:SaturationAdjustmentYellow"] || "0")),
-      SaturationAdjustmentGreen: parseFloat(String(crs["crs:SaturationAdjustmentGreen"] || "0")),
-      SaturationAdjustmentAqua: parseFloat(String(crs["crs:SaturationAdjustmentAqua"] || "0")),
-      SaturationAdjustmentBlue: parseFloat(String(crs["crs:SaturationAdjustmentBlue"] || "0")),
-      SaturationAdjustmentPurple: parseFloat(String(crs["crs:SaturationAdjustmentPurple"] || "0")),
-      SaturationAdjustmentMagenta: parseFloat(String(crs["crs:SaturationAdjustmentMagenta"] || "0")),
-      HasCrop: String(crs["crs:HasCrop"]) === "True",
-      CropTop: parseFloat(String(crs["crs:CropTop"] || "0")),
-      CropLeft: parseFloat(String(crs["crs:CropLeft"] || "0")),
-      CropBottom: parseFloat(String(crs["crs:CropBottom"] || "0")),
-      CropRight: parseFloat(String(crs["crs:CropRight"] || "0")),
-      CropAngle: parseFloat(String(crs["crs:CropAngle"] || "0")),
-      CameraProfile: String(crs["crs:CameraProfile"] || ""),
-      ToneCurvePV2012: parseToneCurve(crs["crs:ToneCurvePV2012"] as Record<string, unknown>),
-      ToneCurvePV2012Red: parseToneCurve(crs["crs:ToneCurvePV2012Red"] as Record<string, unknown>),
-      ToneCurvePV2012Green: parseToneCurve(crs["crs:ToneCurvePV2012Green"] as Record<string, unknown>),
-      ToneCurvePV2012Blue: parseToneCurve(crs["crs:ToneCurvePV2012Blue"] as Record<string, unknown>),
+      WhiteBalance: settings.whiteBalance ?? "",
+      Temperature: number("Temperature"),
+      Tint: number("Tint"),
+      Exposure: settings.exposure ?? 0,
+      Contrast: settings.contrast ?? 0,
+      Highlights: settings.highlights ?? 0,
+      Shadows: settings.shadows ?? 0,
+      Clarity: settings.clarity ?? 0,
+      Dehaze: number("Dehaze"),
+      Vibrance: number("Vibrance"),
+      Saturation: number("Saturation"),
+      ParametricShadows: number("ParametricShadows"),
+      ParametricDarks: number("ParametricDarks"),
+      ParametricLights: number("ParametricLights"),
+      ParametricHighlights: number("ParametricHighlights"),
+      ParametricShadowSplit: number("ParametricShadowSplit"),
+      ParametricMidtoneSplit: number("ParametricMidtoneSplit"),
+      ParametricHighlightSplit: number("ParametricHighlightSplit"),
+      Sharpness: number("Sharpness"),
+      LuminanceSmoothing: number("LuminanceSmoothing"),
+      ColorNoiseReduction: number("ColorNoiseReduction"),
+      HueAdjustmentRed: number("HueAdjustmentRed"),
+      HueAdjustmentOrange: number("HueAdjustmentOrange"),
+      HueAdjustmentYellow: number("HueAdjustmentYellow"),
+      HueAdjustmentGreen: number("HueAdjustmentGreen"),
+      HueAdjustmentAqua: number("HueAdjustmentAqua"),
+      HueAdjustmentBlue: number("HueAdjustmentBlue"),
+      HueAdjustmentPurple: number("HueAdjustmentPurple"),
+      HueAdjustmentMagenta: number("HueAdjustmentMagenta"),
+      SaturationAdjustmentRed: number("SaturationAdjustmentRed"),
+      SaturationAdjustmentOrange: number("SaturationAdjustmentOrange"),
+      SaturationAdjustmentYellow: number("SaturationAdjustmentYellow"),
+      SaturationAdjustmentGreen: number("SaturationAdjustmentGreen"),
+      SaturationAdjustmentAqua: number("SaturationAdjustmentAqua"),
+      SaturationAdjustmentBlue: number("SaturationAdjustmentBlue"),
+      SaturationAdjustmentPurple: number("SaturationAdjustmentPurple"),
+      SaturationAdjustmentMagenta: number("SaturationAdjustmentMagenta"),
+      HasCrop: settings.hasCrop ?? false,
+      CropTop: number("CropTop"),
+      CropLeft: number("CropLeft"),
+      CropBottom: number("CropBottom"),
+      CropRight: number("CropRight"),
+      CropAngle: number("CropAngle"),
+      CameraProfile: settings.cameraProfile ?? "",
+      ToneCurvePV2012: settings.toneCurve,
+      ToneCurvePV2012Red: settings.toneCurveRed,
+      ToneCurvePV2012Green: settings.toneCurveGreen,
+      ToneCurvePV2012Blue: settings.toneCurveBlue,
     }
   } catch (error) {
     console.error("Error parsing XMP data:", error)
@@ -358,10 +323,8 @@ export function determineProcessVersion(_metadata: sharp.Metadata): string {
   return "15.0"
 }
 
-export async function determineWhiteBalance(metadata: sharp.Metadata): Promise<string> {
-  const xmpData = await parseXMPData(metadata)
-  const exifData = await parseExifData(metadata)
-
+// Takes EXIF and XMP already parsed by parseExifData/parseXMPData, which are too costly to run per property
+export function determineWhiteBalance(exifData: ExifData, xmpData: Record<string, unknown>): string {
   // First check if there's an existing white balance setting in XMP
   if (typeof xmpData.WhiteBalance === "string" && xmpData.WhiteBalance) {
     console.log(`Using white balance from XMP: ${xmpData.WhiteBalance}`)
@@ -390,9 +353,7 @@ export async function determineWhiteBalance(metadata: sharp.Metadata): Promise<s
   return "As Shot"
 }
 
-export async function hasCrop(metadata: sharp.Metadata): Promise<boolean> {
-  const exifData = await parseExifData(metadata)
-
+export function hasCrop(metadata: sharp.Metadata, exifData: ExifData, xmpData: Record<string, unknown>): boolean {
   // Check if original dimensions are available and different from current
   if (exifData.OriginalWidth && exifData.OriginalHeight) {
     const hasCropValue = exifData.OriginalWidth !== metadata.width || exifData.OriginalHeight !== metadata.height
@@ -405,7 +366,6 @@ export async function hasCrop(metadata: sharp.Metadata): Promise<boolean> {
   }
 
   // Check XMP data for crop information
-  const xmpData = await parseXMPData(metadata)
   const hasCropValue = Boolean(xmpData.HasCrop)
   if (hasCropValue) {
     console.log("Crop detected from XMP data")
@@ -429,17 +389,23 @@ export function generateXMPCRS(filename: string, properties: ImageProperties): s
     xmlns: "http://ns.adobe.com/camera-raw-settings/1.0/",
   })
 
+  // Basic sliders are named and scaled for the process version being written
+  const { processVersion } = properties
+  const basic = (prop: Extract<PV2012Property, keyof ImageProperties>) => ({
+    [getCRSPropertyName(prop, processVersion)]: toCRSValue(prop, properties[prop], processVersion),
+  })
+
   // Add all simple properties
   const simpleProps = {
     "crs:Version": properties.version,
-    "crs:ProcessVersion": properties.processVersion,
+    "crs:ProcessVersion": processVersion,
     "crs:WhiteBalance": properties.whiteBalance,
     "crs:Temperature": properties.temperature,
     "crs:Tint": properties.tint,
-    "crs:Exposure": properties.exposure,
-    "crs:Shadows": properties.shadows,
-    "crs:Highlights": properties.highlights,
-    "crs:Contrast": properties.contrast,
+    ...basic("exposure"),
+    ...basic("shadows"),
+    ...basic("highlights"),
+    ...basic("contrast"),
     "crs:Saturation": properties.saturation,
     "crs:Sharpness": properties.sharpness,
     "crs:LuminanceSmoothing": properties.luminanceSmoothing,
@@ -448,26 +414,48 @@ export function generateXMPCRS(filename: string, properties: ImageProperties): s
     "crs:ShadowTint": properties.shadowTint,
     "crs:HueAdjustmentRed": properties.redHue,
     "crs:SaturationAdjustmentRed": properties.redSaturation,
+    "crs:LuminanceAdjustmentRed": properties.redLuminance,
     "crs:HueAdjustmentOrange": properties.orangeHue,
     "crs:SaturationAdjustmentOrange": properties.orangeSaturation,
+    "crs:LuminanceAdjustmentOrange": properties.orangeLuminance,
     "crs:HueAdjustmentYellow": properties.yellowHue,
     "crs:SaturationAdjustmentYellow": properties.yellowSaturation,
+    "crs:LuminanceAdjustmentYellow": properties.yellowLuminance,
     "crs:HueAdjustmentGreen": properties.greenHue,
     "crs:SaturationAdjustmentGreen": properties.greenSaturation,
+    "crs:LuminanceAdjustmentGreen": properties.greenLuminance,
     "crs:HueAdjustmentAqua": properties.aquaHue,
     "crs:SaturationAdjustmentAqua": properties.aquaSaturation,
+    "crs:LuminanceAdjustmentAqua": properties.aquaLuminance,
     "crs:HueAdjustmentBlue": properties.blueHue,
     "crs:SaturationAdjustmentBlue": properties.blueSaturation,
+    "crs:LuminanceAdjustmentBlue": properties.blueLuminance,
     "crs:HueAdjustmentPurple": properties.purpleHue,
     "crs:SaturationAdjustmentPurple": properties.purpleSaturation,
+    "crs:LuminanceAdjustmentPurple": properties.purpleLuminance,
     "crs:HueAdjustmentMagenta": properties.magentaHue,
     "crs:SaturationAdjustmentMagenta": properties.magentaSaturation,
+    "crs:LuminanceAdjustmentMagenta": properties.magentaLuminance,
     "crs:SplitToningShadowHue": properties.splitToningShadowHue,
     "crs:SplitToningShadowSaturation": properties.splitToningShadowSaturation,
     "crs:SplitToningHighlightHue": properties.splitToningHighlightHue,
     "crs:SplitToningHighlightSaturation": properties.splitToningHighlightSaturation,
     "crs:SplitToningBalance": properties.splitToningBalance,
-    "crs:Clarity": properties.clarity,
+    "crs:ColorGradeShadowHue": properties.colorGradeShadowHue,
+    "crs:ColorGradeShadowSat": properties.colorGradeShadowSaturation,
+    "crs:ColorGradeShadowLum": properties.colorGradeShadowLuminance,
+    "crs:ColorGradeMidtoneHue": properties.colorGradeMidtoneHue,
+    "crs:ColorGradeMidtoneSat": properties.colorGradeMidtoneSaturation,
+    "crs:ColorGradeMidtoneLum": properties.colorGradeMidtoneLuminance,
+    "crs:ColorGradeHighlightHue": properties.colorGradeHighlightHue,
+    "crs:ColorGradeHighlightSat": properties.colorGradeHighlightSaturation,
+    "crs:ColorGradeHighlightLum": properties.colorGradeHighlightLuminance,
+    "crs:ColorGradeGlobalHue": properties.colorGradeGlobalHue,
+    "crs:ColorGradeGlobalSat": properties.colorGradeGlobalSaturation,
+    "crs:ColorGradeGlobalLum": properties.colorGradeGlobalLuminance,
+    "crs:ColorGradeBlending": properties.colorGradeBlending,
+    "crs:ColorGradeBalance": properties.colorGradeBalance,
+    ...basic("clarity"),
     "crs:Dehaze": properties.dehaze,
     "crs:Vibrance": properties.vibrance,
     "crs:ParametricShadows": properties.parametricShadows,
@@ -0,0 +1,92 @@
+/** @jest-environment node */
+import { describe, expect, it } from "@jest/globals"
+import sharp from "sharp"
+import { DEFAULT_LUT_OPTIONS } from "./constants"
+import { extractPresetFromPair } from "./pair-analysis"
+import { RGBTriplet } from "./types"
+import { applyXMPToImage } from "../apply-xmp/apply-xmp-core"
+import { createMonotoneCurve } from "../shared/image-utils"
+
+const SIZE = 64
+
+// A spread of colours and brightness levels, so every fitting stage has samples to work with
+function createOriginal(): Buffer {
+  const pixels = Buffer.alloc(SIZE * SIZE * 3)
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const i = (y * SIZE + x) * 3
+      pixels[i] = 40 + x * 2.5
+      pixels[i + 1] = 40 + y * 2.5
+      pixels[i + 2] = 40 + (x + y) * 1.25
+    }
+  }
+  return pixels
+}
+
+function edit(original: Buffer, gains: RGBTriplet, curve: (value: number) => number = (value) => value): Buffer {
+  return Buffer.from(original.map((value, i) => Math.round(Math.min(255, curve(value * gains[i % 3]!)))))
+}
+
+function encode(pixels: Buffer): Promise<Buffer> {
+  return sharp(pixels, { raw: { width: SIZE, height: SIZE, channels: 3 } })
+    .png()
+    .toBuffer()
+}
+
+async function decode(image: Buffer): Promise<Buffer> {
+  return sharp(image).removeAlpha().raw().toBuffer()
+}
+
+function meanAbsoluteError(a: Buffer, b: Buffer): number {
+  let total = 0
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i]! - b[i]!)
+  return total / a.length
+}
+
+function extract(original: Buffer, edited: Buffer) {
+  return Promise.all([encode(original), encode(edited)]).then(([originalImage, editedImage]) =>
+    extractPresetFromPair(originalImage, editedImage, "pair.png", "cube", DEFAULT_LUT_OPTIONS)
+  )
+}
+
+describe("extractPresetFromPair", () => {
+  it("recovers a known white balance gain as relative sliders", async () => {
+    const original = createOriginal()
+    // 15% more blue is a cooler look: 1.0075^-19 ≈ 1 / 1.15
+    const { imageProperties, fit } = await extract(original, edit(original, [1, 1, 1.15]))
+
+    expect(imageProperties.temperature).toBeGreaterThanOrEqual(-20)
+    expect(imageProperties.temperature).toBeLessThanOrEqual(-18)
+    expect(Math.abs(imageProperties.tint)).toBeLessThanOrEqual(1)
+    expect(fit.gains[2] / fit.gains[0]).toBeCloseTo(1.15, 1)
+    expect(fit.modelError).toBeLessThan(2)
+  })
+
+  it("recovers a known tone curve", async () => {
+    const original = createOriginal()
+    const curve = (value: number) => 255 * Math.pow(value / 255, 0.8)
+    const { imageProperties, fit } = await extract(original, edit(original, [1, 1, 1], curve))
+
+    const fitted = createMonotoneCurve(imageProperties.toneCurve)
+    for (const input of [64, 96, 128, 160]) {
+      expect(Math.abs(fitted(input) - curve(input))).toBeLessThan(4)
+    }
+    expect(Math.abs(imageProperties.temperature)).toBeLessThanOrEqual(1)
+    expect(fit.modelError).toBeLessThan(2)
+  })
+
+  it("writes an XMP that moves the original towards the edit", async () => {
+    const original = createOriginal()
+    const edited = edit(original, [1.1, 1.05, 0.9])
+    const { xmpContent } = await extract(original, edited)
+
+    const { outputBuffer } = await applyXMPToImage(await encode(original), xmpContent)
+    const rendered = await decode(outputBuffer)
+    expect(meanAbsoluteError(rendered, edited)).toBeLessThan(meanAbsoluteError(original, edited) / 3)
+
+    const channelMean = (pixels: Buffer, channel: number) =>
+      pixels.filter((_, i) => i % 3 === channel).reduce((sum, value) => sum + value, 0) / (SIZE * SIZE)
+    expect(channelMean(rendered, 0)).toBeGreaterThan(channelMean(original, 0))
+    expect(channelMean(rendered, 2)).toBeLessThan(channelMean(original, 2) * 1.01)
+  })
+})
@@ -0,0 +1,586 @@
+import sharp from "sharp"
+import { Offset, offsetToWheel } from "./color-grading-analysis"
+import {
+  COLOR_RANGES,
+  PAIR_ANALYSIS_SIZE,
+  PAIR_CURVE_POINTS,
+  PAIR_LUT_PRIOR_WEIGHT,
+  PAIR_MIN_BAND_WEIGHT,
+} from "./constants"
+import { getLUTWriter, listLUTFormats, resolveLUTGrid } from "./lut-writers"
+import {
+  calculateProfileDigest,
+  determineCameraProfile,
+  determineProcessVersion,
+  determineVersion,
+  generateXMPCRS,
+} from "./metadata-analysis"
+import {
+  ColorChannel,
+  ImageProperties,
+  LUTArtifact,
+  LUTGrid,
+  LUTOptions,
+  PairFitSummary,
+  RGBTriplet,
+  SampledLUT3D,
+} from "./types"
+import { applyCubeLUTToPixels } from "../apply-cube/apply-cube-core"
+import {
+  applyColorGradingToPixels,
+  applyHSLAdjustmentsToPixels,
+  applyToneCurvesToPixels,
+  calculateHueBandWeights,
+  calculateLuma,
+  calculateToneMasks,
+  calculateWhiteBalanceGains,
+  calculateWhiteBalanceSliders,
+  ColorGrading,
+  HSLBandAdjustment,
+  MAX_BAND_HUE_SHIFT,
+  rgbToHsl,
+} from "../shared/image-utils"
+import { IMAGE_INPUT_OPTIONS } from "../shared/validator"
+
+// Parameters fitted from the pair, evaluated in the same order applyXMPToImage uses
+interface PairModel {
+  temperature: number // Relative Temperature and Tint sliders, which render as `gains`
+  tint: number
+  gains: RGBTriplet
+  hslBands: HSLBandAdjustment[]
+  colorGrading: ColorGrading
+  toneCurve: number[][]
+  toneCurveRed: number[][]
+  toneCurveGreen: number[][]
+  toneCurveBlue: number[][]
+}
+
+interface AlignedPair {
+  original: Buffer
+  edited: Buffer
+  width: number
+  height: number
+}
+
+const CHANNELS = 3
+const BAND_NAMES = Object.keys(COLOR_RANGES) as ColorChannel[]
+const BAND_CENTERS = BAND_NAMES.map((name) => COLOR_RANGES[name].center)
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value))
+}
+
+function wrapDegrees(degrees: number): number {
+  return ((((degrees + 180) % 360) + 360) % 360) - 180
+}
+
+/**
+ * Decode both images to same-sized 8-bit sRGB proxies. The original is cropped to the edited framing
+ * so each pixel pair shows the same point of the scene.
+ */
+async function alignImagePair(originalBuffer: Buffer, editedBuffer: Buffer): Promise<AlignedPair> {
+  const edited = await sharp(editedBuffer, IMAGE_INPUT_OPTIONS)
+    .rotate()
+    .resize(PAIR_ANALYSIS_SIZE, PAIR_ANALYSIS_SIZE, { fit: "inside", withoutEnlargement: true })
+    .removeAlpha()
+    .toColourspace("srgb")
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  const { width, height } = edited.info
+  const original = await sharp(originalBuffer, IMAGE_INPUT_OPTIONS)
+    .rotate()
+    .resize(width, height, { fit: "cover", position: "centre" })
+    .removeAlpha()
+    .toColourspace("srgb")
+    .raw()
+    .toBuffer()
+
+  return { original, edited: edited.data, width, height }
+}
+
+/**
+ * Fit a monotone 0-255 mapping from binned samples with weighted pool-adjacent-violators, filling
+ * bins no pixel landed in by interpolating between their neighbours
+ */
+function fitMonotoneTable(sums: Float64Array, counts: Float64Array): Float64Array {
+  const blocks: { value: number; weight: number; start: number; end: number }[] = []
+  for (let bin = 0; bin < sums.length; bin++) {
+    if (counts[bin]! === 0) continue
+    blocks.push({ value: sums[bin]! / counts[bin]!, weight: counts[bin]!, start: bin, end: bin })
+    while (blocks.length > 1 && blocks[blocks.length - 2]!.value > blocks[blocks.length - 1]!.value) {
+      const last = blocks.pop()!
+      const previous = blocks[blocks.length - 1]!
+      const weight = previous.weight + last.weight
+      previous.value = (previous.value * previous.weight + last.value * last.weight) / weight
+      previous.weight = weight
+      previous.end = last.end
+    }
+  }
+
+  const table = new Float64Array(sums.length)
+  if (blocks.length === 0) {
+    return table.map((_, bin) => bin)
+  }
+
+  // Anchor each pooled block at its centre and interpolate between anchors
+  const anchors = blocks.map((block) => ({ x: (block.start + block.end) / 2, y: block.value }))
+  let anchor = 0
+  for (let bin = 0; bin < table.length; bin++) {
+    while (anchor < anchors.length - 1 && anchors[anchor + 1]!.x <= bin) anchor++
+    const current = anchors[anchor]!
+    const next = anchors[Math.min(anchor + 1, anchors.length - 1)]!
+    if (bin <= current.x || next === current) {
+      table[bin] = current.y
+    } else {
+      table[bin] = current.y + ((bin - current.x) / (next.x - current.x)) * (next.y - current.y)
+    }
+  }
+
+  return table
+}
+
+function tableToCurve(table: Float64Array): number[][] {
+  return Array.from({ length: PAIR_CURVE_POINTS }, (_, i) => {
+    const input = Math.round((i * 255) / (PAIR_CURVE_POINTS - 1))
+    return [input, Math.round(clamp(table[input]!, 0, 255))]
+  })
+}
+
+function applyGains(pixels: Buffer, gains: RGBTriplet): void {
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = Math.round(clamp(pixels[i]! * gains[i % CHANNELS]!, 0, 255))
+  }
+}
+
+/**
+ * Evaluate the fitted model on interleaved 3-channel pixels in place. Channel curves are skipped while
+ * they are still being fitted.
+ */
+function applyPairModel(pixels: Buffer, model: PairModel, includeChannelCurves: boolean = true): void {
+  applyGains(pixels, model.gains)
+  applyHSLAdjustmentsToPixels(pixels, CHANNELS, model.hslBands)
+  applyColorGradingToPixels(pixels, CHANNELS, model.colorGrading)
+  applyToneCurvesToPixels(pixels, CHANNELS, {
+    master: model.toneCurve,
+    red: includeChannelCurves ? model.toneCurveRed : undefined,
+    green: includeChannelCurves ? model.toneCurveGreen : undefined,
+    blue: includeChannelCurves ? model.toneCurveBlue : undefined,
+  })
+}
+
+/**
+ * White balance sliders from per-channel gains over well-exposed pixels. The model then applies the gains those
+ * sliders render as, so whatever brightness they add is left to the curves like the rest of the tonal change.
+ */
+function fitWhiteBalance({ original, edited }: AlignedPair): Pick<PairModel, "temperature" | "tint" | "gains"> {
+  const sumOriginal = [0, 0, 0]
+  const sumEdited = [0, 0, 0]
+
+  for (let i = 0; i < original.length; i += CHANNELS) {
+    const luma = calculateLuma(original[i]! / 255, original[i + 1]! / 255, original[i + 2]! / 255)
+    if (luma < 0.15 || luma > 0.85) continue
+    for (let c = 0; c < CHANNELS; c++) {
+      sumOriginal[c]! += original[i + c]!
+      sumEdited[c]! += edited[i + c]!
+    }
+  }
+
+  const raw = sumOriginal.map((sum, c) => (sum > 0 && sumEdited[c]! > 0 ? sumEdited[c]! / sum : 1)) as RGBTriplet
+  const { temperature, tint } = calculateWhiteBalanceSliders(raw)
+  return { temperature, tint, gains: calculateWhiteBalanceGains(temperature, tint) }
+}
+
+function fitMasterCurve(source: Buffer, edited: Buffer): number[][] {
+  const sums = new Float64Array(256)
+  const counts = new Float64Array(256)
+
+  for (let i = 0; i < source.length; i += CHANNELS) {
+    const input = calculateLuma(source[i]!, source[i + 1]!, source[i + 2]!)
+    const output = calculateLuma(edited[i]!, edited[i + 1]!, edited[i + 2]!)
+    const bin = Math.round(clamp(input, 0, 255))
+    sums[bin]! += output
+    counts[bin]!++
+  }
+
+  return tableToCurve(fitMonotoneTable(sums, counts))
+}
+
+/**
+ * Per-band hue rotation, saturation ratio and luminance shift between coloured pixels, inverted into
+ * slider values for the HSL model applyHSLAdjustmentsToPixels implements
+ */
+function fitHSLBands(source: Buffer, edited: Buffer): HSLBandAdjustment[] {
+  const hueSums = new Float64Array(BAND_NAMES.length)
+  const saturationSums = new Float64Array(BAND_NAMES.length)
+  const luminanceSums = new Float64Array(BAND_NAMES.length)
+  const weights = new Float64Array(BAND_NAMES.length)
+
+  for (let i = 0; i < source.length; i += CHANNELS) {
+    const before = rgbToHsl(source[i]! / 255, source[i + 1]! / 255, source[i + 2]! / 255)
+    if (before.s < 0.1 || before.l < 0.05 || before.l > 0.95) continue
+    const after = rgbToHsl(edited[i]! / 255, edited[i + 1]! / 255, edited[i + 2]! / 255)
+
+    const hueShift = after.s > 0 ? wrapDegrees(after.h - before.h) : 0
+    const saturationRatio = after.s / before.s
+    const luminanceDelta = after.l - before.l
+    const luminanceAmount = luminanceDelta > 0 ? luminanceDelta / (1 - before.l) : luminanceDelta / before.l
+    const luminanceSlider = (luminanceAmount / (before.s * 0.5)) * 100
+
+    calculateHueBandWeights(before.h, BAND_CENTERS).forEach((weight, band) => {
+      if (weight === 0) return
+      hueSums[band]! += hueShift * weight
+      saturationSums[band]! += saturationRatio * weight
+      luminanceSums[band]! += luminanceSlider * weight
+      weights[band]! += weight
+    })
+  }
+
+  return BAND_NAMES.map((_, band) => {
+    const weight = weights[band]!
+    if (weight < PAIR_MIN_BAND_WEIGHT) {
+      return { center: BAND_CENTERS[band]!, hue: 0, saturation: 0, luminance: 0 }
+    }
+    return {
+      center: BAND_CENTERS[band]!,
+      hue: Math.round(clamp((hueSums[band]! / weight / MAX_BAND_HUE_SHIFT) * 100, -100, 100)),
+      saturation: Math.round(clamp((saturationSums[band]! / weight - 1) * 100, -100, 100)),
+      luminance: Math.round(clamp(luminanceSums[band]! / weight, -100, 100)),
+    }
+  })
+}
+
+/**
+ * Chroma the edit adds per tonal range that the HSL bands do not explain, weighted towards
+ * near-neutral pixels where a tint is visible. Tonal luminance is already covered by the curves.
+ */
+function fitColorGrading(source: Buffer, edited: Buffer): ColorGrading {
+  const balance = 0
+  const blending = 50
+  const sums: Offset[] = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ]
+  const weights = [0, 0, 0, 0]
+
+  for (let i = 0; i < source.length; i += CHANNELS) {
+    const r = source[i]! / 255
+    const g = source[i + 1]! / 255
+    const b = source[i + 2]! / 255
+    const luma = calculateLuma(r, g, b)
+    const editedLuma = calculateLuma(edited[i]! / 255, edited[i + 1]! / 255, edited[i + 2]! / 255)
+    const delta = [
+      edited[i]! / 255 - editedLuma - (r - luma),
+      edited[i + 1]! / 255 - editedLuma - (g - luma),
+      edited[i + 2]! / 255 - editedLuma - (b - luma),
+    ]
+    const neutrality = (1 - rgbToHsl(r, g, b).s) ** 2
+    const masks = calculateToneMasks(luma, balance, blending)
+
+    ;[masks.shadows, masks.midtones, masks.highlights, 1].forEach((mask, range) => {
+      const weight = mask * neutrality
+      for (let c = 0; c < CHANNELS; c++) sums[range]![c]! += delta[c]! * weight
+      weights[range]! += weight
+    })
+  }
+
+  const [shadows, midtones, highlights, global] = sums.map((sum, range) =>
+    sum.map((value) => (weights[range]! > 0 ? value / weights[range]! : 0))
+  ) as [Offset, Offset, Offset, Offset]
+  const relative = (offset: Offset): Offset => [offset[0] - global[0], offset[1] - global[1], offset[2] - global[2]]
+
+  return {
+    shadows: offsetToWheel(relative(shadows), 0),
+    midtones: offsetToWheel(relative(midtones), 0),
+    highlights: offsetToWheel(relative(highlights), 0),
+    global: offsetToWheel(global, 0),
+    blending,
+    balance,
+  }
+}
+
+function fitChannelCurves(source: Buffer, edited: Buffer): [number[][], number[][], number[][]] {
+  return [0, 1, 2].map((channel) => {
+    const sums = new Float64Array(256)
+    const counts = new Float64Array(256)
+    for (let i = channel; i < source.length; i += CHANNELS) {
+      sums[source[i]!]! += edited[i]!
+      counts[source[i]!]!++
+    }
+    return tableToCurve(fitMonotoneTable(sums, counts))
+  }) as [number[][], number[][], number[][]]
+}
+
+/**
+ * Fit the model one stage at a time, each stage explaining what the previous ones left over
+ */
+function fitPairModel(pair: AlignedPair): PairModel {
+  const identity = tableToCurve(Float64Array.from({ length: 256 }, (_, i) => i))
+  const model: PairModel = {
+    ...fitWhiteBalance(pair),
+    hslBands: BAND_CENTERS.map((center) => ({ center, hue: 0, saturation: 0, luminance: 0 })),
+    colorGrading: {
+      shadows: { hue: 0, saturation: 0, luminance: 0 },
+      midtones: { hue: 0, saturation: 0, luminance: 0 },
+      highlights: { hue: 0, saturation: 0, luminance: 0 },
+      global: { hue: 0, saturation: 0, luminance: 0 },
+      blending: 50,
+      balance: 0,
+    },
+    toneCurve: identity,
+    toneCurveRed: identity,
+    toneCurveGreen: identity,
+    toneCurveBlue: identity,
+  }
+
+  const balanced = Buffer.from(pair.original)
+  applyGains(balanced, model.gains)
+  model.toneCurve = fitMasterCurve(balanced, pair.edited)
+
+  const toned = Buffer.from(balanced)
+  applyToneCurvesToPixels(toned, CHANNELS, { master: model.toneCurve })
+  model.hslBands = fitHSLBands(toned, pair.edited)
+
+  const shifted = Buffer.from(toned)
+  applyHSLAdjustmentsToPixels(shifted, CHANNELS, model.hslBands)
+  model.colorGrading = fitColorGrading(shifted, pair.edited)
+
+  // Channel curves absorb whatever is left, fitted against the model evaluated in application order
+  const partial = Buffer.from(pair.original)
+  applyPairModel(partial, model, false)
+  ;[model.toneCurveRed, model.toneCurveGreen, model.toneCurveBlue] = fitChannelCurves(partial, pair.edited)
+
+  return model
+}
+
+function meanAbsoluteError(a: Buffer, b: Buffer): number {
+  let total = 0
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i]! - b[i]!)
+  return total / a.length
+}
+
+/**
+ * Sample the fitted model on the LUT grid, then correct each node by the residuals of nearby pixel pairs
+ * so the LUT reproduces the observed mapping wherever the image has data
+ */
+function samplePairLUT(model: PairModel, pair: AlignedPair, modelOutput: Buffer, grid: LUTGrid): SampledLUT3D {
+  const { size, domainMin, domainMax } = grid
+  const nodeCount = size * size * size
+
+  const nodes = Buffer.alloc(nodeCount * CHANNELS)
+  let offset = 0
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        ;[r, g, b].forEach((index, c) => {
+          const value = domainMin[c]! + (index / (size - 1)) * (domainMax[c]! - domainMin[c]!)
+          nodes[offset++] = Math.round(clamp(value, 0, 1) * 255)
+        })
+      }
+    }
+  }
+  applyPairModel(nodes, model)
+
+  // Splat residuals onto the eight surrounding nodes with trilinear weights
+  const residuals = new Float64Array(nodeCount * CHANNELS)
+  const weights = new Float64Array(nodeCount)
+  const { original, edited } = pair
+  for (let i = 0; i < original.length; i += CHANNELS) {
+    const position = [0, 1, 2].map((c) =>
+      clamp(((original[i + c]! / 255 - domainMin[c]!) / (domainMax[c]! - domainMin[c]!)) * (size - 1), 0, size - 1)
+    )
+    const lower = position.map((p) => Math.min(Math.floor(p), size - 2))
+    const fraction = position.map((p, c) => p - lower[c]!)
+
+    for (let corner = 0; corner < 8; corner++) {
+      let weight = 1
+      let node = 0
+      for (let c = 0, stride = 1; c < CHANNELS; c++, stride *= size) {
+        const upper = (corner >> c) & 1
+        weight *= upper ? fraction[c]! : 1 - fraction[c]!
+        node += (lower[c]! + upper) * stride
+      }
+      if (weight === 0) continue
+      for (let c = 0; c < CHANNELS; c++) {
+        residuals[node * CHANNELS + c]! += (edited[i + c]! - modelOutput[i + c]!) * weight
+      }
+      weights[node]! += weight
+    }
+  }
+
+  const data = new Float64Array(nodeCount * CHANNELS)
+  for (let node = 0; node < nodeCount; node++) {
+    const trust = weights[node]! + PAIR_LUT_PRIOR_WEIGHT
+    for (let c = 0; c < CHANNELS; c++) {
+      const index = node * CHANNELS + c
+      data[index] = clamp((nodes[index]! + residuals[index]! / trust) / 255, 0, 1)
+    }
+  }
+
+  return { size, domainMin, domainMax, data }
+}
+
+function createPairProperties(model: PairModel, metadata: sharp.Metadata): ImageProperties {
+  const cameraProfile = determineCameraProfile(metadata)
+  const band = (name: ColorChannel) => model.hslBands[BAND_NAMES.indexOf(name)]!
+  const { shadows, midtones, highlights, global, blending, balance } = model.colorGrading
+
+  return {
+    // White balance change on the relative scale, which the renderer reads as the fitted gains
+    temperature: model.temperature,
+    tint: model.tint,
+    whiteBalance: "Custom",
+
+    // Tonal changes are carried entirely by the fitted curves
+    exposure: 0,
+    contrast: 0,
+    saturation: 0,
+    brightness: 0,
+    sharpness: 0,
+    clarity: 0,
+    vibrance: 0,
+    texture: 0,
+    shadows: 0,
+    highlights: 0,
+    dehaze: 0,
+    parametricShadows: 0,
+    parametricDarks: 0,
+    parametricLights: 0,
+    parametricHighlights: 0,
+    parametricShadowSplit: 25,
+    parametricMidtoneSplit: 50,
+    parametricHighlightSplit: 75,
+    toneMapStrength: 0,
+    luminanceSmoothing: 0,
+    colorNoiseReduction: 0,
+    vignetteAmount: 0,
+    shadowTint: 0,
+
+    redHue: band("red").hue,
+    redSaturation: band("red").saturation,
+    redLuminance: band("red").luminance,
+    orangeHue: band("orange").hue,
+    orangeSaturation: band("orange").saturation,
+    orangeLuminance: band("orange").luminance,
+    yellowHue: band("yellow").hue,
+    yellowSaturation: band("yellow").saturation,
+    yellowLuminance: band("yellow").luminance,
+    greenHue: band("green").hue,
+    greenSaturation: band("green").saturation,
+    greenLuminance: band("green").luminance,
+    aquaHue: band("aqua").hue,
+    aquaSaturation: band("aqua").saturation,
+    aquaLuminance: band("aqua").luminance,
+    blueHue: band("blue").hue,
+    blueSaturation: band("blue").saturation,
+    blueLuminance: band("blue").luminance,
+    purpleHue: band("purple").hue,
+    purpleSaturation: band("purple").saturation,
+    purpleLuminance: band("purple").luminance,
+    magentaHue: band("magenta").hue,
+    magentaSaturation: band("magenta").saturation,
+    magentaLuminance: band("magenta").luminance,
+
+    // Legacy split toning mirrors the shadow and highlight wheels, as Lightroom does
+    splitToningShadowHue: shadows.hue,
+    splitToningShadowSaturation: shadows.saturation,
+    splitToningHighlightHue: highlights.hue,
+    splitToningHighlightSaturation: highlights.saturation,
+    splitToningBalance: balance,
+    colorGradeShadowHue: shadows.hue,
+    colorGradeShadowSaturation: shadows.saturation,
+    colorGradeShadowLuminance: shadows.luminance,
+    colorGradeMidtoneHue: midtones.hue,
+    colorGradeMidtoneSaturation: midtones.saturation,
+    colorGradeMidtoneLuminance: midtones.luminance,
+    colorGradeHighlightHue: highlights.hue,
+    colorGradeHighlightSaturation: highlights.saturation,
+    colorGradeHighlightLuminance: highlights.luminance,
+    colorGradeGlobalHue: global.hue,
+    colorGradeGlobalSaturation: global.saturation,
+    colorGradeGlobalLuminance: global.luminance,
+    colorGradeBlending: blending,
+    colorGradeBalance: balance,
+
+    toneCurve: model.toneCurve,
+    toneCurveRed: model.toneCurveRed,
+    toneCurveGreen: model.toneCurveGreen,
+    toneCurveBlue: model.toneCurveBlue,
+    toneCurveName: "Custom",
+
+    cameraProfile,
+    cameraProfileDigest: calculateProfileDigest(cameraProfile),
+    hasSettings: true,
+    hasCrop: false,
+    alreadyApplied: false,
+    version: determineVersion(metadata),
+    processVersion: determineProcessVersion(metadata),
+  }
+}
+
+/**
+ * Derive a preset from an unedited original and its edited version: fit white balance, tone curves,
+ * per-band HSL and colour grading for the XMP, and sample the observed pixel mapping into the LUT
+ */
+export async function extractPresetFromPair(
+  originalBuffer: Buffer,
+  editedBuffer: Buffer,
+  filename: string,
+  format: string,
+  lutOptions: LUTOptions
+): Promise<{
+  xmpContent: string
+  cubeContent: string
+  lut: LUTArtifact
+  imageProperties: ImageProperties
+  fit: PairFitSummary
+}> {
+  const writer = getLUTWriter(format)
+  const cubeWriter = getLUTWriter("cube")
+  if (!writer || !cubeWriter) {
+    throw new Error(`Unsupported LUT format: ${format}. Supported formats: ${listLUTFormats().join(", ")}`)
+  }
+
+  const pair = await alignImagePair(originalBuffer, editedBuffer)
+  const model = fitPairModel(pair)
+
+  const modelOutput = Buffer.from(pair.original)
+  applyPairModel(modelOutput, model)
+
+  const context = { sourceName: filename, options: lutOptions }
+  const cubeLUT = samplePairLUT(model, pair, modelOutput, resolveLUTGrid(cubeWriter, lutOptions))
+  const cubeContent = String(await cubeWriter.write(cubeLUT, context))
+  const lutContent =
+    writer === cubeWriter
+      ? cubeContent
+      : await writer.write(samplePairLUT(model, pair, modelOutput, resolveLUTGrid(writer, lutOptions)), context)
+
+  // Measure the sampled LUT the same way /api/apply-cube would apply it
+  const lutOutput = Buffer.from(pair.original)
+  applyCubeLUTToPixels(
+    lutOutput,
+    CHANNELS,
+    { lut3D: { ...cubeLUT, data: Float32Array.from(cubeLUT.data) } },
+    { interpolation: "trilinear", intensity: 100 }
+  )
+
+  const imageProperties = createPairProperties(model, await sharp(editedBuffer, IMAGE_INPUT_OPTIONS).metadata())
+  const xmpContent = generateXMPCRS(filename, imageProperties)
+
+  return {
+    xmpContent,
+    cubeContent,
+    lut: { format: writer.format, extension: writer.extension, contentType: writer.contentType, content: lutContent },
+    imageProperties,
+    fit: {
+      width: pair.width,
+      height: pair.height,
+      samples: pair.width * pair.height,
+      gains: model.gains,
+      modelError: meanAbsoluteError(modelOutput, pair.edited),
+      lutError: meanAbsoluteError(lutOutput, pair.edited),
+    },
+  }
+}
@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server"
+import sharp from "sharp"
+import { runAnalysisTask } from "../../shared/analysis-pool"
+import {
+  ArchiveEntry,
+  CONTENT_TYPES,
+  createAttachmentResponse,
+  createWorkerErrorResponse,
+  createZipArchive,
+  getBaseName,
+} from "../../shared/response"
+import { validateImageFile } from "../../shared/validator"
+import {
+  OUTPUT_FORMATS,
+  parseOutputFormat,
+  validateImagePair,
+  validateLUTFormat,
+  validateLUTOptions,
+} from "../validator"
+
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData()
+    const original = formData.get("original")
+    const edited = formData.get("edited")
+
+    // Validate both uploaded files
+    for (const [field, file] of [
+      ["original", original],
+      ["edited", edited],
+    ] as const) {
+      const validation = await validateImageFile(file instanceof File ? file : null)
+      if (!validation.isValid) {
+        return NextResponse.json({ error: `${field}: ${validation.error}` }, { status: 400 })
+      }
+    }
+
+    // Validate the requested output format
+    const output = parseOutputFormat(formData.get("output"))
+    if (!output) {
+      return NextResponse.json(
+        { error: `Unsupported output format. Supported formats: ${OUTPUT_FORMATS.join(", ")}` },
+        { status: 400 }
+      )
+    }
+
+    // Validate the requested LUT format (?format=cube|3dl|hald|csp|look)
+    const formatValidation = validateLUTFormat(new URL(request.url).searchParams.get("format"))
+    if (!formatValidation.isValid) {
+      return NextResponse.json({ error: formatValidation.error }, { status: 400 })
+    }
+
+    // Validate the requested LUT options
+    const lutValidation = validateLUTOptions(formData)
+    if (!lutValidation.isValid) {
+      return NextResponse.json({ error: lutValidation.error }, { status: 400 })
+    }
+
+    // At this point we know both images are valid Files
+    const editedImage = edited as File
+    const originalBuffer = Buffer.from(await (original as File).arrayBuffer())
+    const editedBuffer = Buffer.from(await editedImage.arrayBuffer())
+
+    // Make sure both decode and share the same framing
+    let pairValidation
+    try {
+      pairValidation = validateImagePair(await sharp(originalBuffer).metadata(), await sharp(editedBuffer).metadata())
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : "Invalid image" }, { status: 400 })
+    }
+    if (!pairValidation.isValid) {
+      return NextResponse.json({ error: pairValidation.error }, { status: 400 })
+    }
+
+    const baseName = getBaseName(editedImage.name)
+    const xmpName = `${baseName}.xmp`
+    const cubeName = `${baseName}.cube`
+
+    // Fit the edit and sample the observed mapping on the worker pool
+    const { xmpContent, cubeContent, lut, imageProperties, fit } = await runAnalysisTask(
+      "pair",
+      [originalBuffer, editedBuffer, editedImage.name, formatValidation.format!, lutValidation.options!],
+      { signal: request.signal }
+    )
+    const lutName = `${baseName}.${lut.extension}`
+
+    switch (output) {
+      case "xmp":
+        return createAttachmentResponse(xmpContent, xmpName, CONTENT_TYPES.xmp)
+      case "cube":
+        return createAttachmentResponse(cubeContent, cubeName, CONTENT_TYPES.cube)
+      case "lut":
+        return createAttachmentResponse(lut.content, lutName, lut.contentType)
+      case "zip": {
+        const entries: ArchiveEntry[] = [
+          { name: xmpName, content: xmpContent },
+          { name: cubeName, content: cubeContent },
+        ]
+        if (lut.format !== "cube") {
+          entries.push({ name: lutName, content: lut.content })
+        }
+        const archive = await createZipArchive(entries)
+        return createAttachmentResponse(archive, `${baseName}.zip`, CONTENT_TYPES.zip)
+      }
+      default:
+        return NextResponse.json({
+          message: "Image pair analyzed successfully",
+          files: { xmp: xmpName, cube: cubeName, lut: lutName },
+          xmp: xmpContent,
+          cube: cubeContent,
+          lut: {
+            format: lut.format,
+            contentType: lut.contentType,
+            encoding: Buffer.isBuffer(lut.content) ? "base64" : "utf-8",
+            content: Buffer.isBuffer(lut.content) ? lut.content.toString("base64") : lut.content,
+          },
+          properties: imageProperties,
+          fit,
+        })
+    }
+  } catch (error) {
+    const workerErrorResponse = createWorkerErrorResponse(error)
+    if (workerErrorResponse) return workerErrorResponse
+
+    console.error("Error processing image pair:", error)
+    return NextResponse.json({ error: "Failed to process image pair" }, { status: 500 })
+  }
+}
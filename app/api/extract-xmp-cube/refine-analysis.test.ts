@@ -0,0 +1,101 @@
+/** @jest-environment node */
+import { describe, expect, it } from "@jest/globals"
+import sharp from "sharp"
+import { DEFAULT_LUT_OPTIONS, REFINE_INITIAL_STEP, REFINE_PARAMETERS } from "./constants"
+import { generateXMPCRS } from "./metadata-analysis"
+import { extractPresetFromPair } from "./pair-analysis"
+import { refineImageProperties } from "./refine-analysis"
+import { RefineParameter } from "./types"
+import { applyXMPToImage } from "../apply-xmp/apply-xmp-core"
+import { ImageProperties } from "../shared/types"
+
+const SIZE = 48
+const PARAMETERS = Object.keys(REFINE_PARAMETERS) as RefineParameter[]
+
+// A spread of colours across the whole tone range, so every slider has something to act on
+function createImage(): Promise<Buffer> {
+  const pixels = Buffer.alloc(SIZE * SIZE * 3)
+  const level = (position: number) => Math.round((position / (SIZE - 1)) * 255)
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const i = (y * SIZE + x) * 3
+      pixels[i] = level(x)
+      pixels[i + 1] = level(y)
+      pixels[i + 2] = level(SIZE - 1 - (x + y) / 2)
+    }
+  }
+  return sharp(pixels, { raw: { width: SIZE, height: SIZE, channels: 3 } })
+    .png()
+    .toBuffer()
+}
+
+// Properties that leave the image as it is, from fitting an image against itself
+async function createNeutralProperties(image: Buffer): Promise<ImageProperties> {
+  const { imageProperties } = await extractPresetFromPair(image, image, "image.png", "cube", DEFAULT_LUT_OPTIONS)
+  return imageProperties
+}
+
+// Every slider starts in use, so a parameter the renderer drops in favour of another would not move the error
+const START: Record<RefineParameter, number> = {
+  exposure: 0.3,
+  contrast: 10,
+  highlights: -10,
+  shadows: 10,
+  temperature: 6000,
+  tint: 5,
+  saturation: 10,
+  vibrance: 10,
+  dehaze: 10,
+  parametricShadows: 10,
+  parametricDarks: 10,
+  parametricLights: -10,
+  parametricHighlights: -10,
+}
+
+async function render(image: Buffer, properties: ImageProperties): Promise<Buffer> {
+  const { outputBuffer } = await applyXMPToImage(image, generateXMPCRS("image.png", properties))
+  return sharp(outputBuffer).removeAlpha().raw().toBuffer()
+}
+
+function meanAbsoluteError(a: Buffer, b: Buffer): number {
+  let total = 0
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i]! - b[i]!)
+  return total / a.length
+}
+
+describe("refined parameters", () => {
+  // Moved by the optimizer's first step
+  it.each(PARAMETERS)("changes the render error when %s moves", async (parameter) => {
+    const image = await createImage()
+    const start = { ...(await createNeutralProperties(image)), ...START }
+    const baseline = await render(image, start)
+
+    const { min, max } = REFINE_PARAMETERS[parameter]
+    const moved = await render(image, { ...start, [parameter]: START[parameter] + (max - min) * REFINE_INITIAL_STEP })
+    // A slider the renderer drops leaves the render as it was; the narrowest zones move about an eighth of the image
+    expect(meanAbsoluteError(moved, baseline)).toBeGreaterThan(0.25)
+  })
+})
+
+describe("refineImageProperties", () => {
+  it("lowers the render error within the iteration budget", async () => {
+    const source = await createImage()
+    const neutral = await createNeutralProperties(source)
+    const { outputBuffer: target } = await applyXMPToImage(
+      source,
+      generateXMPCRS("image.png", { ...neutral, exposure: 0.5, saturation: 25, shadows: 20 })
+    )
+
+    const { refinement } = await refineImageProperties(target, source, "image.png", neutral, {
+      maxIterations: 40,
+      timeLimit: 60000,
+    })
+
+    expect(refinement.iterations).toBeLessThanOrEqual(40)
+    expect(refinement.finalError).toBeLessThan(refinement.initialError / 2)
+
+    // The best error never rises between steps
+    const errors = refinement.trace.map((entry) => entry.error)
+    errors.slice(1).forEach((error, i) => expect(error).toBeLessThanOrEqual(errors[i]!))
+  })
+})
@@ -0,0 +1,176 @@
+import sharp from "sharp"
+import { REFINE_INITIAL_STEP, REFINE_MIN_STEP, REFINE_PARAMETERS, REFINE_PROXY_SIZE } from "./constants"
+import { generateXMPCRS } from "./metadata-analysis"
+import { ImageProperties, RefinementSummary, RefineOptions, RefineParameter, RefineTraceEntry } from "./types"
+import { applyXMPToImage } from "../apply-xmp/apply-xmp-core"
+import { calculateDeltaE2000, rgbToLab } from "../shared/image-utils"
+import { IMAGE_INPUT_OPTIONS } from "../shared/validator"
+
+type ParameterValues = Record<RefineParameter, number>
+
+// The source proxy is what gets rendered; the target is what the render should look like
+interface RefineProxies {
+  source: Buffer // Lossless PNG, since applyXMPToImage works on encoded images
+  target: Float32Array // Interleaved Lab
+  width: number
+  height: number
+}
+
+const CHANNELS = 3
+const PARAMETERS = Object.keys(REFINE_PARAMETERS) as RefineParameter[]
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value))
+}
+
+function range(parameter: RefineParameter): number {
+  const { min, max } = REFINE_PARAMETERS[parameter]
+  return max - min
+}
+
+// Sliders are written to the XMP with two decimals, so candidates are snapped to what the file can hold
+function snap(parameter: RefineParameter, value: number): number {
+  const { min, max } = REFINE_PARAMETERS[parameter]
+  return Math.round(clamp(value, min, max) * 100) / 100
+}
+
+async function createRefineProxies(targetBuffer: Buffer, sourceBuffer: Buffer): Promise<RefineProxies> {
+  const target = await sharp(targetBuffer, IMAGE_INPUT_OPTIONS)
+    .rotate()
+    .resize(REFINE_PROXY_SIZE, REFINE_PROXY_SIZE, { fit: "inside", withoutEnlargement: true })
+    .removeAlpha()
+    .toColourspace("srgb")
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+  const { width, height } = target.info
+
+  const source = await sharp(sourceBuffer, IMAGE_INPUT_OPTIONS)
+    .rotate()
+    .resize(width, height, { fit: "cover", position: "centre" })
+    .removeAlpha()
+    .toColourspace("srgb")
+    .png()
+    .toBuffer()
+
+  const lab = new Float32Array(width * height * CHANNELS)
+  for (let i = 0; i < lab.length; i += CHANNELS) {
+    const { l, a, b } = rgbToLab(target.data[i]!, target.data[i + 1]!, target.data[i + 2]!)
+    lab[i] = l
+    lab[i + 1] = a
+    lab[i + 2] = b
+  }
+
+  return { source, target: lab, width, height }
+}
+
+// Render the proxy through the real XMP applier and score it as mean CIEDE2000 against the target
+async function renderError(
+  proxies: RefineProxies,
+  properties: ImageProperties,
+  filename: string,
+  values: ParameterValues
+): Promise<number> {
+  const xmpContent = generateXMPCRS(filename, { ...properties, ...values })
+  const { outputBuffer } = await applyXMPToImage(proxies.source, xmpContent)
+  const rendered = await sharp(outputBuffer)
+    .resize(proxies.width, proxies.height, { fit: "fill" })
+    .removeAlpha()
+    .toColourspace("srgb")
+    .raw()
+    .toBuffer()
+
+  let total = 0
+  for (let i = 0; i < proxies.target.length; i += CHANNELS) {
+    total += calculateDeltaE2000(rgbToLab(rendered[i]!, rendered[i + 1]!, rendered[i + 2]!), {
+      l: proxies.target[i]!,
+      a: proxies.target[i + 1]!,
+      b: proxies.target[i + 2]!,
+    })
+  }
+  return total / (proxies.width * proxies.height)
+}
+
+/**
+ * Refine the heuristic slider values by coordinate descent: each slider is nudged up and down within its
+ * bounds, keeping any move that lowers the render error and halving its step when neither does. Stops once
+ * every step is below REFINE_MIN_STEP or the iteration or time budget runs out. Without a source image the
+ * target itself is rendered, which pulls back adjustments that would push the image away from its own look.
+ */
+export async function refineImageProperties(
+  targetBuffer: Buffer,
+  sourceBuffer: Buffer | undefined,
+  filename: string,
+  properties: ImageProperties,
+  { maxIterations, timeLimit }: RefineOptions
+): Promise<{ properties: ImageProperties; refinement: RefinementSummary }> {
+  const start = Date.now()
+  const elapsed = () => Date.now() - start
+  const proxies = await createRefineProxies(targetBuffer, sourceBuffer ?? targetBuffer)
+
+  // Starting values stay as extracted; only a slider the search moves is snapped to its bounds
+  const initial = Object.fromEntries(PARAMETERS.map((parameter) => [parameter, properties[parameter]]))
+  const values = { ...initial } as ParameterValues
+  const steps = Object.fromEntries(
+    PARAMETERS.map((parameter) => [parameter, range(parameter) * REFINE_INITIAL_STEP])
+  ) as ParameterValues
+  const isActive = (parameter: RefineParameter) => steps[parameter] >= range(parameter) * REFINE_MIN_STEP
+
+  let bestError = await renderError(proxies, properties, filename, values)
+  const initialError = bestError
+  let iterations = 1
+  const trace: RefineTraceEntry[] = [{ iteration: 1, elapsed: elapsed(), error: bestError, accepted: true }]
+
+  let stopReason: RefinementSummary["stopReason"] = "converged"
+  search: while (PARAMETERS.some(isActive)) {
+    for (const parameter of PARAMETERS.filter(isActive)) {
+      let moved = false
+      for (const direction of [1, -1]) {
+        const value = snap(parameter, values[parameter] + direction * steps[parameter])
+        if (value === values[parameter]) continue
+
+        if (iterations >= maxIterations) {
+          stopReason = "iterations"
+          break search
+        }
+        if (elapsed() >= timeLimit) {
+          stopReason = "time"
+          break search
+        }
+
+        const error = await renderError(proxies, properties, filename, { ...values, [parameter]: value })
+        iterations++
+        const accepted = error < bestError
+        if (accepted) {
+          values[parameter] = value
+          bestError = error
+        }
+        trace.push({ iteration: iterations, elapsed: elapsed(), error: bestError, parameter, value, accepted })
+
+        if (accepted) {
+          moved = true
+          break
+        }
+      }
+
+      if (!moved) {
+        steps[parameter] /= 2
+      }
+    }
+  }
+
+  return {
+    properties: { ...properties, ...values },
+    refinement: {
+      proxy: { width: proxies.width, height: proxies.height },
+      initialError,
+      finalError: bestError,
+      iterations,
+      elapsed: elapsed(),
+      stopReason,
+      parameters: Object.fromEntries(
+        PARAMETERS.map((parameter) => [parameter, { initial: initial[parameter]!, refined: values[parameter] }])
+      ),
+      trace,
+    },
+  }
+}
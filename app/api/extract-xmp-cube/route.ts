@@ -1,49 +1,155 @@
 import { NextResponse } from "next/server"
-import { extractXMPCubeFromImage } from "./extract-xmp-cube-core"
-import { validateImageFile } from "./validator"
-import { cleanupTempFiles, saveUploadedImage, saveXMPFile } from "../shared/file-manager"
+import {
+  OUTPUT_FORMATS,
+  parseOutputFormat,
+  validateLUTFormat,
+  validateLUTOptions,
+  validateRefineOptions,
+} from "./validator"
+import { runAnalysisTask } from "../shared/analysis-pool"
+import { storeArtifact } from "../shared/file-manager"
+import {
+  ArchiveEntry,
+  CONTENT_TYPES,
+  createAttachmentResponse,
+  createWorkerErrorResponse,
+  createZipArchive,
+  getBaseName,
+} from "../shared/response"
+import { validateImageFile } from "../shared/validator"
 
 export async function POST(request: Request) {
-  let tmpDir: string | undefined
-
   try {
     const formData = await request.formData()
     const image = formData.get("image")
 
     // Validate the uploaded file
-    const validation = validateImageFile(image instanceof File ? image : null)
+    const validation = await validateImageFile(image instanceof File ? image : null)
     if (!validation.isValid) {
       return NextResponse.json({ error: validation.error }, { status: 400 })
     }
 
+    // Validate the requested output format
+    const output = parseOutputFormat(formData.get("output"))
+    if (!output) {
+      return NextResponse.json(
+        { error: `Unsupported output format. Supported formats: ${OUTPUT_FORMATS.join(", ")}` },
+        { status: 400 }
+      )
+    }
+
+    // Validate the requested LUT format (?format=cube|3dl|hald|csp|look)
+    const formatValidation = validateLUTFormat(new URL(request.url).searchParams.get("format"))
+    if (!formatValidation.isValid) {
+      return NextResponse.json({ error: formatValidation.error }, { status: 400 })
+    }
+    const lutFormat = formatValidation.format!
+
+    // Validate the requested LUT options
+    const lutValidation = validateLUTOptions(formData)
+    if (!lutValidation.isValid) {
+      return NextResponse.json({ error: lutValidation.error }, { status: 400 })
+    }
+
+    // Validate refine mode and its optional neutral source image
+    const refineValidation = validateRefineOptions(formData)
+    if (!refineValidation.isValid) {
+      return NextResponse.json({ error: refineValidation.error }, { status: 400 })
+    }
+    const source = formData.get("source")
+    if (source !== null) {
+      const sourceValidation = await validateImageFile(source instanceof File ? source : null)
+      if (!sourceValidation.isValid) {
+        return NextResponse.json({ error: `source: ${sourceValidation.error}` }, { status: 400 })
+      }
+    }
+
     // At this point we know image is a valid File
     const validatedImage = image as File
-
-    // Save the uploaded file and get paths
-    const { imagePath, xmpPath, tmpDir: tempDir } = await saveUploadedImage(validatedImage)
-    tmpDir = tempDir
+    const baseName = getBaseName(validatedImage.name)
+    const xmpName = `${baseName}.xmp`
+    const cubeName = `${baseName}.cube`
 
     // Convert image to buffer for analysis
     const buffer = Buffer.from(await validatedImage.arrayBuffer())
 
-    // Generate XMP content and analyze image
-    const { xmpContent, imageProperties } = await extractXMPCubeFromImage(buffer, imagePath)
+    // Generate XMP and CUBE content and analyze image on the worker pool
+    const refine = refineValidation.options && {
+      options: refineValidation.options,
+      source: source instanceof File ? Buffer.from(await source.arrayBuffer()) : undefined,
+    }
+    const { xmpContent, cubeContent, imageProperties, refinement } = await runAnalysisTask(
+      "extract",
+      [buffer, validatedImage.name, lutValidation.options, refine],
+      { signal: request.signal }
+    )
+
+    // Render the requested LUT format, reusing the CUBE output when that is what was asked for
+    const lut =
+      lutFormat === "cube"
+        ? { format: "cube", extension: "cube", contentType: CONTENT_TYPES.cube, content: cubeContent }
+        : await runAnalysisTask("lut", [imageProperties, validatedImage.name, lutFormat, lutValidation.options], {
+            signal: request.signal,
+          })
+    const lutName = `${baseName}.${lut.extension}`
 
-    // Save XMP file
-    await saveXMPFile(xmpPath, xmpContent)
+    switch (output) {
+      case "xmp":
+        return createAttachmentResponse(xmpContent, xmpName, CONTENT_TYPES.xmp)
+      case "cube":
+        return createAttachmentResponse(cubeContent, cubeName, CONTENT_TYPES.cube)
+      case "lut":
+        return createAttachmentResponse(lut.content, lutName, lut.contentType)
+      case "zip": {
+        const entries: ArchiveEntry[] = [
+          { name: xmpName, content: xmpContent },
+          { name: cubeName, content: cubeContent },
+        ]
+        if (lut.format !== "cube") {
+          entries.push({ name: lutName, content: lut.content })
+        }
+        if (refinement) {
+          entries.push({ name: `${baseName}-refinement.json`, content: JSON.stringify(refinement, null, 2) })
+        }
+        const archive = await createZipArchive(entries)
+        return createAttachmentResponse(archive, `${baseName}.zip`, CONTENT_TYPES.zip)
+      }
+      default: {
+        // Keep the results so they can be downloaded or shared later; they are still returned inline if this fails
+        const downloads = await Promise.all([
+          storeArtifact(xmpContent, xmpName, CONTENT_TYPES.xmp),
+          storeArtifact(cubeContent, cubeName, CONTENT_TYPES.cube),
+          storeArtifact(lut.content, lutName, lut.contentType),
+        ]).catch((error) => {
+          console.error("Error storing artifacts:", error)
+          return undefined
+        })
 
-    return NextResponse.json({
-      message: "Image analyzed successfully",
-      xmpPath,
-      properties: imageProperties,
-    })
+        return NextResponse.json({
+          message: "Image analyzed successfully",
+          files: { xmp: xmpName, cube: cubeName, lut: lutName },
+          xmp: xmpContent,
+          cube: cubeContent,
+          lut: {
+            format: lut.format,
+            contentType: lut.contentType,
+            encoding: Buffer.isBuffer(lut.content) ? "base64" : "utf-8",
+            content: Buffer.isBuffer(lut.content) ? lut.content.toString("base64") : lut.content,
+          },
+          properties: imageProperties,
+          refinement,
+          ...(downloads && {
+            links: { xmp: downloads[0].url, cube: downloads[1].url, lut: downloads[2].url },
+            expiresAt: downloads[0].expiresAt,
+          }),
+        })
+      }
+    }
   } catch (error) {
+    const workerErrorResponse = createWorkerErrorResponse(error)
+    if (workerErrorResponse) return workerErrorResponse
+
     console.error("Error processing image:", error)
     return NextResponse.json({ error: "Failed to process image" }, { status: 500 })
-  } finally {
-    // Clean up temporary files
-    if (tmpDir) {
-      await cleanupTempFiles(tmpDir)
-    }
   }
 }
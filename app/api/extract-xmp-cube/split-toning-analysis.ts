@@ -1,66 +0,0 @@
-import { SharpChannel } from "../shared/types"
-
-/**
- * Calculate shadow hue for split toning
- */
-export function calculateSplitToningShadowHue(_channels: SharpChannel[]): number {
-  try {
-    // Implement shadow hue calculation
-    return 0
-  } catch (error) {
-    console.warn("Failed to calculate split toning shadow hue", error)
-    return 0
-  }
-}
-
-/**
- * Calculate shadow saturation for split toning
- */
-export function calculateSplitToningShadowSaturation(_channels: SharpChannel[]): number {
-  try {
-    // Implement shadow saturation calculation
-    return 0
-  } catch (error) {
-    console.warn("Failed to calculate split toning shadow saturation", error)
-    return 0
-  }
-}
-
-/**
- * Calculate highlight hue for split toning
- */
-export function calculateSplitToningHighlightHue(_channels: SharpChannel[]): number {
-  try {
-    // Implement highlight hue calculation
-    return 0
-  } catch (error) {
-    console.warn("Failed to calculate split toning highlight hue", error)
-    return 0
-  }
-}
-
-/**
- * Calculate highlight saturation for split toning
- */
-export function calculateSplitToningHighlightSaturation(_channels: SharpChannel[]): number {
-  try {
-    // Implement highlight saturation calculation
-    return 0
-  } catch (error) {
-    console.warn("Failed to calculate split toning highlight saturation", error)
-    return 0
-  }
-}
-
-/**
- * Calculate balance between shadows and highlights
- */
-export function calculateSplitToningBalance(_channels: SharpChannel[]): number {
-  try {
-    // Implement balance calculation
-    return 0
-  } catch (error) {
-    console.warn("Failed to calculate split toning balance", error)
-    return 0
-  }
-}
@@ -1,4 +1,5 @@
-import { getChannelHistogram, Histogram } from "./histogram-analysis"
+import { AnalysisContext } from "./analysis-context"
+import { Histogram } from "./histogram-analysis"
 import { SharpChannel } from "./types"
 
 export interface TonePoint {
@@ -195,23 +196,13 @@ function calculateChannelToneCurveFromPoints(points: TonePoint[]): number[][] {
   return smoothToneCurve(points)
 }
 
-export async function calculateAllToneCurves(
-  channels: SharpChannel[],
-  buffer: Buffer
-): Promise<{
+export function calculateAllToneCurves({ channels, histograms }: AnalysisContext): {
   toneCurve: number[][]
   toneCurveRed: number[][]
   toneCurveGreen: number[][]
   toneCurveBlue: number[][]
-}> {
-  // Calculate histograms once
-  const histograms = await Promise.all([
-    getChannelHistogram(buffer, 0),
-    getChannelHistogram(buffer, 1),
-    getChannelHistogram(buffer, 2),
-  ])
-
-  // Use cached histograms for all calculations
+} {
+  // Use the context's histograms for all calculations
   const channelPoints = histograms.map((histogram) => findSignificantTonePointsFromHistogram(histogram))
 
   // Ensure all channel points are defined
@@ -246,17 +237,13 @@ export async function calculateAllToneCurves(
 }
 
 // Keep these for backward compatibility
-export async function calculateToneCurve(channels: SharpChannel[], buffer: Buffer): Promise<number[][]> {
-  const { toneCurve } = await calculateAllToneCurves(channels, buffer)
+export function calculateToneCurve(context: AnalysisContext): number[][] {
+  const { toneCurve } = calculateAllToneCurves(context)
   return toneCurve
 }
 
-export async function calculateChannelToneCurve(
-  channel: SharpChannel,
-  channelIndex: 0 | 1 | 2,
-  buffer: Buffer
-): Promise<number[][]> {
-  const histogram = await getChannelHistogram(buffer, channelIndex)
+export function calculateChannelToneCurve(context: AnalysisContext, channelIndex: 0 | 1 | 2): number[][] {
+  const histogram = context.histograms[channelIndex]
   const points = findSignificantTonePointsFromHistogram(histogram)
   return calculateChannelToneCurveFromPoints(points)
 }
@@ -422,35 +409,3 @@ export function calculateToneMapStrength(channels: SharpChannel[]): number {
 
   return Math.min(Math.max(strength, 0), 100)
 }
-
-export function calculateSplitToningShadowHue(channels: SharpChannel[]): number {
-  const shadowColors = channels.map((channel) => channel.min || 0)
-  const dominantShadowChannel = shadowColors.indexOf(Math.max(...shadowColors))
-  return Math.round((dominantShadowChannel / 3) * 360)
-}
-
-export function calculateSplitToningShadowSaturation(channels: SharpChannel[]): number {
-  const shadowColors = channels.map((channel) => channel.min || 0)
-  const maxShadow = Math.max(...shadowColors)
-  const minShadow = Math.min(...shadowColors)
-  return Math.round(((maxShadow - minShadow) / maxShadow) * 100)
-}
-
-export function calculateSplitToningHighlightHue(channels: SharpChannel[]): number {
-  const highlightColors = channels.map((channel) => channel.max || 0)
-  const dominantHighlightChannel = highlightColors.indexOf(Math.max(...highlightColors))
-  return Math.round((dominantHighlightChannel / 3) * 360)
-}
-
-export function calculateSplitToningHighlightSaturation(channels: SharpChannel[]): number {
-  const highlightColors = channels.map((channel) => channel.max || 0)
-  const maxHighlight = Math.max(...highlightColors)
-  const minHighlight = Math.min(...highlightColors)
-  return Math.round(((maxHighlight - minHighlight) / maxHighlight) * 100)
-}
-
-export function calculateSplitToningBalance(channels: SharpChannel[]): number {
-  const avgShadow = channels.reduce((acc, channel) => acc + (channel.min || 0), 0) / channels.length
-  const avgHighlight = channels.reduce((acc, channel) => acc + (channel.max || 0), 0) / channels.length
-  return Math.round(((avgHighlight - avgShadow) / 255) * 100)
-}
@@ -72,11 +72,27 @@ export interface Circle {
   strength: number
 }
 
+export interface ChromaDistribution {
+  mean: number
+  stdev: number
+  histogram: number[] // Pixel counts in CHROMA_BIN_SIZE-wide bins, the last bin holding everything above
+}
+
+// Hues are HSL degrees, the scale COLOR_RANGES and the applied HSL bands use
 export interface ColorDistribution {
   mean: LabColor
+  meanHue: number // Chroma-weighted circular mean
   peaks: LabColor[]
+  peakHues: number[] // Peak positions on the same scale as `histogram`
   histogram: number[]
-  weight: number
+  chroma: ChromaDistribution
+  weight: number // Share of all pixels that fall in the band
+}
+
+// Every COLOR_RANGES band summarized from one pass over the image
+export interface HueBandAnalysis {
+  bands: Record<ColorChannel, ColorDistribution>
+  meanLightness: number // Mean L* of the whole image, the reference band luminance is judged against
 }
 
 export interface HistogramPeak {
@@ -107,5 +123,161 @@ export interface TonePoint {
   weight: number
 }
 
+export type RGBTriplet = [number, number, number]
+
+export interface LUTOptions {
+  size: number // 3D grid points per axis
+  precision: number // Decimal places written per value
+  title: string
+  domainMin: RGBTriplet
+  domainMax: RGBTriplet
+  shaperSize?: number // Optional 1D shaper LUT written ahead of the 3D table
+  haldLevel: number // Hald CLUT level, the image holds level^3 x level^3 pixels
+}
+
+// 3D transform sampled on a regular grid, stored red-fastest as interleaved RGB
+export interface SampledLUT3D {
+  size: number
+  domainMin: RGBTriplet
+  domainMax: RGBTriplet
+  data: Float64Array
+}
+
+export interface LUTGrid {
+  size: number
+  domainMin: RGBTriplet
+  domainMax: RGBTriplet
+}
+
+export interface LUTWriterContext {
+  sourceName: string
+  options: LUTOptions
+}
+
+export interface LUTWriter {
+  format: string
+  extension: string
+  contentType: string
+  binary: boolean
+  // Grid the writer needs sampled; defaults to the requested size and domain
+  resolveGrid?: (options: LUTOptions) => LUTGrid
+  write: (lut: SampledLUT3D, context: LUTWriterContext) => Promise<string | Buffer>
+}
+
+export interface LUTArtifact {
+  format: string
+  extension: string
+  contentType: string
+  content: string | Buffer
+}
+
+// How closely the fitted preset reproduces the edited image, as mean absolute 8-bit RGB error
+export interface PairFitSummary {
+  width: number
+  height: number
+  samples: number
+  gains: RGBTriplet
+  modelError: number
+  lutError: number
+}
+
+export type ConsensusMethod = "median" | "trimmed-mean"
+
+// How much one property varies across the reference set; hue spreads are circular and in degrees
+export interface PropertySpread {
+  kind: "linear" | "circular" | "curve" | "categorical"
+  stdev: number
+  variance: number
+  min?: number
+  max?: number
+  agreement?: number // Share of images agreeing with the consensus value for categorical properties
+}
+
+export interface ConsensusResult {
+  method: ConsensusMethod
+  count: number
+  properties: ImageProperties
+  spread: Partial<Record<keyof ImageProperties, PropertySpread>>
+}
+
+export type BatchManifestEntry =
+  | {
+      source: string
+      status: "ok"
+      files: { xmp: string; cube: string }
+      properties: ImageProperties
+    }
+  | {
+      source: string
+      status: "error"
+      error: string
+    }
+
+export interface BatchManifest {
+  createdAt: string
+  total: number
+  succeeded: number
+  failed: number
+  lutOptions: LUTOptions
+  files: BatchManifestEntry[]
+  consensus?: {
+    method: ConsensusMethod
+    count: number
+    files: { xmp: string; cube: string }
+    properties: ImageProperties
+    spread: ConsensusResult["spread"]
+  }
+}
+
+// Numeric sliders refine mode optimizes; the renderer reads them straight from the generated XMP
+export type RefineParameter =
+  | "exposure"
+  | "contrast"
+  | "highlights"
+  | "shadows"
+  | "temperature"
+  | "tint"
+  | "saturation"
+  | "vibrance"
+  | "dehaze"
+  | "parametricShadows"
+  | "parametricDarks"
+  | "parametricLights"
+  | "parametricHighlights"
+
+export interface RefineOptions {
+  maxIterations: number // Proxy renders, including the initial one
+  timeLimit: number // Milliseconds
+}
+
+export interface RefineTraceEntry {
+  iteration: number
+  elapsed: number // Milliseconds since the refinement started
+  error: number // Best mean CIEDE2000 so far
+  parameter?: RefineParameter // Slider moved by this step; absent for the initial render
+  value?: number
+  accepted: boolean
+}
+
+export interface RefinementSummary {
+  proxy: { width: number; height: number }
+  initialError: number
+  finalError: number
+  iterations: number
+  elapsed: number
+  stopReason: "converged" | "iterations" | "time"
+  parameters: Partial<Record<RefineParameter, { initial: number; refined: number }>>
+  trace: RefineTraceEntry[]
+}
+
+// Stages extractXMPCubeFromImage reports as it runs, in order; "refine" only runs in refine mode
+export type ExtractionStage =
+  | "decode"
+  | "tone-analysis"
+  | "color-analysis"
+  | "refine"
+  | "xmp-generation"
+  | "lut-generation"
+
 // Re-export ImageProperties from shared/types
 export type { ImageProperties }
@@ -1,60 +1,299 @@
+import sharp from "sharp"
 import { z } from "zod"
+import {
+  BATCH_CONCURRENCY_RANGE,
+  BATCH_MODES,
+  CONSENSUS_METHODS,
+  DEFAULT_BATCH_CONCURRENCY,
+  DEFAULT_CONSENSUS_METHOD,
+  DEFAULT_LUT_FORMAT,
+  DEFAULT_LUT_OPTIONS,
+  DEFAULT_REFINE_ITERATIONS,
+  DEFAULT_REFINE_TIME_LIMIT,
+  LUT_PRECISION_RANGE,
+  MAX_BATCH_FILES,
+  MAX_BATCH_TOTAL_SIZE,
+  MAX_PAIR_ASPECT_DIFFERENCE,
+  REFINE_ITERATIONS_RANGE,
+  REFINE_TIME_LIMIT_RANGE,
+  SHAPER_SIZE_RANGE,
+  SUPPORTED_HALD_LEVELS,
+  SUPPORTED_LUT_SIZES,
+} from "./constants"
+import { getLUTWriter, listLUTFormats } from "./lut-writers"
+import { ConsensusMethod, LUTOptions, RefineOptions, RGBTriplet } from "./types"
+import { ValidationResult } from "../shared/validator"
 
-export const ALLOWED_IMAGE_TYPES = [
-  "image/jpeg",
-  "image/png",
-  "image/tiff",
-  "image/webp",
-  "image/heic",
-  "image/heif",
-] as const
-
-export const MAX_FILE_SIZE = 50 * 1024 * 1024 // 50MB
-
-export const ImageFileSchema = z.object({
-  name: z.string().min(1),
-  type: z.enum(ALLOWED_IMAGE_TYPES),
-  size: z.number().max(MAX_FILE_SIZE, {
-    message: `File size must not exceed ${MAX_FILE_SIZE / 1024 / 1024}MB`,
-  }),
-})
+export const OUTPUT_FORMATS = ["json", "zip", "xmp", "cube", "lut"] as const
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number]
+
+export const OutputFormatSchema = z.enum(OUTPUT_FORMATS).default("json")
+
+export function parseOutputFormat(value: FormDataEntryValue | null): OutputFormat | null {
+  const result = OutputFormatSchema.safeParse(typeof value === "string" && value ? value.toLowerCase() : undefined)
+  return result.success ? result.data : null
+}
+
+// Accepts "0", "0 0 0" or "0,0,0"
+const RGBTripletSchema = z
+  .string()
+  .trim()
+  .transform((value, ctx): RGBTriplet => {
+    const values = value.split(/[\s,]+/).map(Number)
+    if (values.some((v) => !Number.isFinite(v)) || (values.length !== 1 && values.length !== 3)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "must be one or three numbers" })
+      return z.NEVER
+    }
+    return values.length === 1 ? [values[0]!, values[0]!, values[0]!] : (values as RGBTriplet)
+  })
+
+export const LUTOptionsSchema = z
+  .object({
+    size: z.coerce
+      .number()
+      .int()
+      .refine((size) => (SUPPORTED_LUT_SIZES as readonly number[]).includes(size), {
+        message: `must be one of ${SUPPORTED_LUT_SIZES.join(", ")}`,
+      })
+      .default(DEFAULT_LUT_OPTIONS.size),
+    precision: z.coerce
+      .number()
+      .int()
+      .min(LUT_PRECISION_RANGE.MIN)
+      .max(LUT_PRECISION_RANGE.MAX)
+      .default(DEFAULT_LUT_OPTIONS.precision),
+    title: z.string().trim().min(1).max(256).default(DEFAULT_LUT_OPTIONS.title),
+    domainMin: RGBTripletSchema.default(DEFAULT_LUT_OPTIONS.domainMin.join(" ")),
+    domainMax: RGBTripletSchema.default(DEFAULT_LUT_OPTIONS.domainMax.join(" ")),
+    shaperSize: z.coerce.number().int().min(SHAPER_SIZE_RANGE.MIN).max(SHAPER_SIZE_RANGE.MAX).optional(),
+    haldLevel: z.coerce
+      .number()
+      .int()
+      .refine((level) => (SUPPORTED_HALD_LEVELS as readonly number[]).includes(level), {
+        message: `must be one of ${SUPPORTED_HALD_LEVELS.join(", ")}`,
+      })
+      .default(DEFAULT_LUT_OPTIONS.haldLevel),
+  })
+  .refine(({ domainMin, domainMax }) => domainMin.every((min, i) => min < domainMax[i]!), {
+    message: "must be greater than domainMin on every channel",
+    path: ["domainMax"],
+  })
+  .refine(
+    ({ domainMin, domainMax, shaperSize }) =>
+      !shaperSize || (new Set(domainMin).size === 1 && new Set(domainMax).size === 1),
+    {
+      message: "must be the same on every channel when a shaper LUT is requested",
+      path: ["domainMin"],
+    }
+  )
+
+export const LUT_OPTION_FIELDS: Record<keyof LUTOptions, string> = {
+  size: "lutSize",
+  precision: "lutPrecision",
+  title: "lutTitle",
+  domainMin: "lutDomainMin",
+  domainMax: "lutDomainMax",
+  shaperSize: "lutShaperSize",
+  haldLevel: "lutHaldLevel",
+}
+
+export type LUTOptionsValidationResult = ValidationResult & {
+  options?: LUTOptions
+}
+
+export function validateLUTOptions(formData: FormData): LUTOptionsValidationResult {
+  const raw = Object.fromEntries(
+    Object.entries(LUT_OPTION_FIELDS).map(([key, field]) => {
+      const value = formData.get(field)
+      return [key, typeof value === "string" && value.trim() !== "" ? value : undefined]
+    })
+  )
+
+  const result = LUTOptionsSchema.safeParse(raw)
+  if (!result.success) {
+    const firstError = result.error.issues[0]
+    if (!firstError) {
+      return { isValid: false, error: "Invalid LUT options" }
+    }
 
-export type ValidationResult = {
-  isValid: boolean
-  error?: string
+    const key = firstError.path[0] as keyof LUTOptions | undefined
+    const field = key ? LUT_OPTION_FIELDS[key] : "LUT options"
+    return { isValid: false, error: `Invalid ${field}: ${firstError.message}` }
+  }
+
+  return { isValid: true, options: result.data }
 }
 
-export function validateImageFile(file: File | null): ValidationResult {
-  if (!file) {
-    return { isValid: false, error: "No image file provided" }
+export type LUTFormatValidationResult = ValidationResult & {
+  format?: string
+}
+
+export function validateLUTFormat(value: string | null): LUTFormatValidationResult {
+  const format = value?.trim().toLowerCase() || DEFAULT_LUT_FORMAT
+  if (!getLUTWriter(format)) {
+    return {
+      isValid: false,
+      error: `Unsupported LUT format: ${format}. Supported formats: ${listLUTFormats().join(", ")}`,
+    }
   }
 
-  const result = ImageFileSchema.safeParse(file)
+  return { isValid: true, format }
+}
+
+export type BatchFilesValidationResult = ValidationResult & {
+  files?: File[]
+}
 
+// Individual files are validated during the batch so one bad upload only fails its own manifest entry
+export function validateBatchFiles(entries: FormDataEntryValue[]): BatchFilesValidationResult {
+  if (entries.length === 0) {
+    return { isValid: false, error: "No image files provided" }
+  }
+  if (entries.some((entry) => !(entry instanceof File))) {
+    return { isValid: false, error: "Every image field must be a file upload" }
+  }
+  if (entries.length > MAX_BATCH_FILES) {
+    return {
+      isValid: false,
+      error: `Too many images: ${entries.length}. A batch may contain at most ${MAX_BATCH_FILES}`,
+    }
+  }
+
+  const files = entries as File[]
+  const totalSize = files.reduce((sum, file) => sum + file.size, 0)
+  if (totalSize > MAX_BATCH_TOTAL_SIZE) {
+    return {
+      isValid: false,
+      error: `Batch size (${Math.round(totalSize / 1024 / 1024)}MB) exceeds maximum allowed size (${
+        MAX_BATCH_TOTAL_SIZE / 1024 / 1024
+      }MB)`,
+    }
+  }
+
+  return { isValid: true, files }
+}
+
+export const BatchConcurrencySchema = z.coerce
+  .number()
+  .int()
+  .min(BATCH_CONCURRENCY_RANGE.MIN)
+  .max(BATCH_CONCURRENCY_RANGE.MAX)
+  .default(DEFAULT_BATCH_CONCURRENCY)
+
+export type BatchConcurrencyValidationResult = ValidationResult & {
+  concurrency?: number
+}
+
+export function validateBatchConcurrency(value: FormDataEntryValue | null): BatchConcurrencyValidationResult {
+  const result = BatchConcurrencySchema.safeParse(typeof value === "string" && value.trim() !== "" ? value : undefined)
   if (!result.success) {
-    const issues = result.error.issues
-    if (issues.length === 0) {
-      return { isValid: false, error: "Invalid file format" }
+    return {
+      isValid: false,
+      error: `Invalid concurrency: must be an integer between ${BATCH_CONCURRENCY_RANGE.MIN} and ${BATCH_CONCURRENCY_RANGE.MAX}`,
     }
+  }
 
-    // We know issues[0] exists because we checked length > 0
-    const firstError = issues[0]!
+  return { isValid: true, concurrency: result.data }
+}
+
+export const BatchModeSchema = z.object({
+  mode: z.enum(BATCH_MODES).default("individual"),
+  method: z.enum(CONSENSUS_METHODS).default(DEFAULT_CONSENSUS_METHOD),
+})
 
-    if (firstError.code === "invalid_enum_value") {
-      return {
-        isValid: false,
-        error: `Unsupported image type: ${file.type}. Supported types: ${ALLOWED_IMAGE_TYPES.join(", ")}`,
-      }
+export type BatchModeValidationResult = ValidationResult & {
+  consensusMethod?: ConsensusMethod
+}
+
+// `consensusMethod` is only set when the batch should be merged into one consensus preset
+export function validateBatchMode(formData: FormData): BatchModeValidationResult {
+  const field = (name: string) => {
+    const value = formData.get(name)
+    return typeof value === "string" && value.trim() !== "" ? value.trim().toLowerCase() : undefined
+  }
+
+  const result = BatchModeSchema.safeParse({ mode: field("mode"), method: field("method") })
+  if (!result.success) {
+    const key = result.error.issues[0]?.path[0]
+    return {
+      isValid: false,
+      error:
+        key === "method"
+          ? `Invalid method. Supported methods: ${CONSENSUS_METHODS.join(", ")}`
+          : `Invalid mode. Supported modes: ${BATCH_MODES.join(", ")}`,
     }
-    if (firstError.code === "too_big") {
-      return {
-        isValid: false,
-        error: `File size (${Math.round(file.size / 1024 / 1024)}MB) exceeds maximum allowed size (${
-          MAX_FILE_SIZE / 1024 / 1024
-        }MB)`,
-      }
+  }
+
+  return { isValid: true, consensusMethod: result.data.mode === "consensus" ? result.data.method : undefined }
+}
+
+export const RefineOptionsSchema = z.object({
+  refine: z.enum(["true", "false"]).default("false"),
+  maxIterations: z.coerce
+    .number()
+    .int()
+    .min(REFINE_ITERATIONS_RANGE.MIN)
+    .max(REFINE_ITERATIONS_RANGE.MAX)
+    .default(DEFAULT_REFINE_ITERATIONS),
+  timeLimit: z.coerce
+    .number()
+    .int()
+    .min(REFINE_TIME_LIMIT_RANGE.MIN)
+    .max(REFINE_TIME_LIMIT_RANGE.MAX)
+    .default(DEFAULT_REFINE_TIME_LIMIT),
+})
+
+export type RefineOptionsValidationResult = ValidationResult & {
+  options?: RefineOptions
+}
+
+// `options` is only set when refinement was requested with refine=true
+export function validateRefineOptions(formData: FormData): RefineOptionsValidationResult {
+  const field = (name: string) => {
+    const value = formData.get(name)
+    return typeof value === "string" && value.trim() !== "" ? value.trim().toLowerCase() : undefined
+  }
+
+  const result = RefineOptionsSchema.safeParse({
+    refine: field("refine"),
+    maxIterations: field("refineIterations"),
+    timeLimit: field("refineTimeLimit"),
+  })
+  if (!result.success) {
+    const key = result.error.issues[0]?.path[0]
+    return {
+      isValid: false,
+      error:
+        key === "maxIterations"
+          ? `Invalid refineIterations: must be an integer between ${REFINE_ITERATIONS_RANGE.MIN} and ${REFINE_ITERATIONS_RANGE.MAX}`
+          : key === "timeLimit"
+          ? `Invalid refineTimeLimit: must be an integer between ${REFINE_TIME_LIMIT_RANGE.MIN} and ${REFINE_TIME_LIMIT_RANGE.MAX} milliseconds`
+          : "Invalid refine: must be true or false",
+    }
+  }
+
+  const { refine, maxIterations, timeLimit } = result.data
+  return { isValid: true, options: refine === "true" ? { maxIterations, timeLimit } : undefined }
+}
+
+// EXIF orientations 5-8 are stored rotated by 90 degrees
+function getOrientedAspectRatio({ width = 0, height = 0, orientation = 1 }: sharp.Metadata): number {
+  return orientation >= 5 ? height / width : width / height
+}
+
+// Both images must show the same framing; only a uniform resize is undone when aligning them
+export function validateImagePair(original: sharp.Metadata, edited: sharp.Metadata): ValidationResult {
+  if (!original.width || !original.height || !edited.width || !edited.height) {
+    return { isValid: false, error: "Could not read the dimensions of both images" }
+  }
+
+  const difference = Math.abs(getOrientedAspectRatio(original) / getOrientedAspectRatio(edited) - 1)
+  if (difference > MAX_PAIR_ASPECT_DIFFERENCE) {
+    return {
+      isValid: false,
+      error: "Original and edited images must have the same aspect ratio. Crop the original to match the edit",
     }
-    return { isValid: false, error: firstError.message }
   }
 
   return { isValid: true }
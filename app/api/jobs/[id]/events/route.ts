@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server"
+import { JOB_EVENTS_HEARTBEAT_INTERVAL } from "../../constants"
+import { createJobResponse, getJob, isJobFinished, subscribeToJob } from "../../jobs-core"
+import { Job } from "../../types"
+import { isValidJobId } from "../../validator"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Server-Sent Events: a "progress" event per state change, then one "done" event before the stream closes
+function formatEvent(job: Job): string {
+  const event = isJobFinished(job) ? "done" : "progress"
+  // Results can be large; clients fetch them from the job URL once the job is done
+  return `event: ${event}\ndata: ${JSON.stringify(createJobResponse(job, { includeResult: false }))}\n\n`
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const job = isValidJobId(id) ? await getJob(id) : undefined
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 })
+  }
+
+  const encoder = new TextEncoder()
+  // `cancelled` when the client went away, in which case the stream is already closed
+  let close: (cancelled?: boolean) => void = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+      let unsubscribe: () => void = () => {}
+      const heartbeat = setInterval(
+        () => controller.enqueue(encoder.encode(": keep-alive\n\n")),
+        JOB_EVENTS_HEARTBEAT_INTERVAL
+      )
+
+      const onAbort = () => close()
+      close = (cancelled = false) => {
+        if (closed) return
+        closed = true
+        unsubscribe()
+        clearInterval(heartbeat)
+        request.signal.removeEventListener("abort", onAbort)
+        if (!cancelled) controller.close()
+      }
+
+      const send = (current: Job) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(formatEvent(current)))
+        if (isJobFinished(current)) close()
+      }
+
+      // Subscribe before re-reading so no state change falls between the snapshot and the first live event
+      unsubscribe = subscribeToJob(id, send)
+      request.signal.addEventListener("abort", onAbort)
+
+      void getJob(id).then((current) => send(current ?? job))
+    },
+    cancel() {
+      close(true)
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
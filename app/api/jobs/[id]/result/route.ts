@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server"
+import {
+  CONTENT_TYPES,
+  createAttachmentResponse,
+  createJSONHeaderValue,
+  createZipArchive,
+  getBaseName,
+} from "../../../shared/response"
+import { APPLY_OUTPUT_ARTIFACT } from "../../constants"
+import { getJob, getJobArtifact } from "../../jobs-core"
+import { isValidJobId } from "../../validator"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Download a finished job's output: the XMP and CUBE as a ZIP for extract jobs, the rendered image for apply jobs
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const job = isValidJobId(id) ? await getJob(id) : undefined
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+    if (job.status !== "succeeded" || !job.result) {
+      return NextResponse.json({ error: `Job has no result while ${job.status}` }, { status: 409 })
+    }
+
+    const { result } = job
+    if (result.type === "extract") {
+      const entries = [
+        { name: result.files.xmp, content: result.xmp },
+        { name: result.files.cube, content: result.cube },
+      ]
+      if (result.refinement) {
+        entries.push({
+          name: `${getBaseName(job.source)}-refinement.json`,
+          content: JSON.stringify(result.refinement, null, 2),
+        })
+      }
+      const archive = await createZipArchive(entries)
+      return createAttachmentResponse(archive, `${getBaseName(job.source)}.zip`, CONTENT_TYPES.zip)
+    }
+
+    const output = await getJobArtifact(id, APPLY_OUTPUT_ARTIFACT)
+    if (!output) {
+      return NextResponse.json({ error: "Job result is no longer available" }, { status: 410 })
+    }
+    return createAttachmentResponse(output, result.file, result.contentType, {
+      "X-Applied-Adjustments": createJSONHeaderValue(result.appliedAdjustments),
+    })
+  } catch (error) {
+    console.error("Error reading job result:", error)
+    return NextResponse.json({ error: "Failed to read job result" }, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server"
+import { cancelJob, createJobResponse, getJob, isJobFinished } from "../jobs-core"
+import { isValidJobId } from "../validator"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const job = isValidJobId(id) ? await getJob(id) : undefined
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(createJobResponse(job))
+  } catch (error) {
+    console.error("Error reading job:", error)
+    return NextResponse.json({ error: "Failed to read job" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const job = isValidJobId(id) ? await getJob(id) : undefined
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+    if (isJobFinished(job)) {
+      return NextResponse.json(
+        { error: `Job has already finished (${job.status})`, job: createJobResponse(job) },
+        { status: 409 }
+      )
+    }
+
+    // Resolves once the worker has been stopped; the job may still have finished first
+    const cancelled = await cancelJob(id)
+    return NextResponse.json(createJobResponse(cancelled ?? job))
+  } catch (error) {
+    console.error("Error cancelling job:", error)
+    return NextResponse.json({ error: "Failed to cancel job" }, { status: 500 })
+  }
+}
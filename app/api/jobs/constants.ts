@@ -0,0 +1,12 @@
+import { JobStatus } from "./types"
+
+export const JOB_TYPES = ["extract", "apply"] as const
+
+// Statuses a job never leaves
+export const FINISHED_JOB_STATUSES: JobStatus[] = ["succeeded", "failed", "cancelled"]
+
+// Artifact holding the rendered image of an apply job
+export const APPLY_OUTPUT_ARTIFACT = "output"
+
+// Comment lines sent on idle event streams so proxies do not close them
+export const JOB_EVENTS_HEARTBEAT_INTERVAL = 15000
@@ -0,0 +1,103 @@
+import { mkdir, readdir, readFile, rm } from "fs/promises"
+import path from "path"
+import { Job, JobStore } from "./types"
+import { isMissingFileError, writeFileAtomic } from "../shared/fs-utils"
+
+const JOB_RECORD_NAME = "job.json"
+
+// Ids and artifact names become path segments, so never let them climb out of the store directory
+const SAFE_SEGMENT_PATTERN = /^[\w-]+$/
+
+function assertSafeSegment(segment: string): void {
+  if (!SAFE_SEGMENT_PATTERN.test(segment)) {
+    throw new Error(`Invalid job store key: ${segment}`)
+  }
+}
+
+/**
+ * Keep jobs in process memory; everything is lost on restart
+ */
+export function createMemoryJobStore(): JobStore {
+  const jobs = new Map<string, Job>()
+  const artifacts = new Map<string, Map<string, Buffer>>()
+
+  return {
+    async get(id) {
+      return jobs.get(id)
+    },
+    async list() {
+      return Array.from(jobs.values())
+    },
+    async save(job) {
+      jobs.set(job.id, job)
+    },
+    async delete(id) {
+      jobs.delete(id)
+      artifacts.delete(id)
+    },
+    async saveArtifact(id, name, content) {
+      const entries = artifacts.get(id) ?? new Map<string, Buffer>()
+      entries.set(name, content)
+      artifacts.set(id, entries)
+    },
+    async getArtifact(id, name) {
+      return artifacts.get(id)?.get(name)
+    },
+  }
+}
+
+/**
+ * Keep each job in its own directory under `directory`: the record as job.json next to one file per artifact
+ */
+export function createFileJobStore(directory: string): JobStore {
+  const jobDirectory = (id: string) => {
+    assertSafeSegment(id)
+    return path.join(directory, id)
+  }
+
+  const store: JobStore = {
+    async get(id) {
+      try {
+        return JSON.parse(await readFile(path.join(jobDirectory(id), JOB_RECORD_NAME), "utf-8")) as Job
+      } catch (error) {
+        if (isMissingFileError(error)) return undefined
+        throw error
+      }
+    },
+    async list() {
+      let ids: string[]
+      try {
+        ids = await readdir(directory)
+      } catch (error) {
+        if (isMissingFileError(error)) return []
+        throw error
+      }
+      const jobs = await Promise.all(ids.filter((id) => SAFE_SEGMENT_PATTERN.test(id)).map((id) => store.get(id)))
+      return jobs.filter((job): job is Job => job !== undefined)
+    },
+    async save(job) {
+      const target = jobDirectory(job.id)
+      await mkdir(target, { recursive: true })
+      await writeFileAtomic(path.join(target, JOB_RECORD_NAME), JSON.stringify(job))
+    },
+    async delete(id) {
+      await rm(jobDirectory(id), { recursive: true, force: true })
+    },
+    async saveArtifact(id, name, content) {
+      assertSafeSegment(name)
+      const target = jobDirectory(id)
+      await mkdir(target, { recursive: true })
+      await writeFileAtomic(path.join(target, name), content)
+    },
+    async getArtifact(id, name) {
+      assertSafeSegment(name)
+      try {
+        return await readFile(path.join(jobDirectory(id), name))
+      } catch (error) {
+        if (isMissingFileError(error)) return undefined
+        throw error
+      }
+    },
+  }
+  return store
+}
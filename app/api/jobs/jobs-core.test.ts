@@ -0,0 +1,138 @@
+/** @jest-environment node */
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from "@jest/globals"
+import { spawnSync } from "child_process"
+import { mkdtemp, rm } from "fs/promises"
+import os from "os"
+import path from "path"
+import { createFileJobStore } from "./job-store"
+import type * as JobsCore from "./jobs-core"
+import { Job, JobStore } from "./types"
+
+// The pool spawns worker threads; these tests only follow the job records around it
+const mockRunAnalysisTask =
+  jest.fn<(task: string, args: unknown[], options: { signal: AbortSignal }) => Promise<unknown>>()
+jest.mock("../shared/analysis-pool", () => ({ runAnalysisTask: mockRunAnalysisTask }))
+
+const EXTRACT_RESULT = { xmpContent: "<xmp/>", cubeContent: "LUT_3D_SIZE 2", imageProperties: {} }
+
+let directory: string
+let store: JobStore
+let jobs: typeof JobsCore
+
+beforeAll(async () => {
+  // env.mjs reads the environment once, so the store is chosen before jobs-core (and the mocked pool) is loaded
+  directory = await mkdtemp(path.join(os.tmpdir(), "jobs-core-test-"))
+  process.env.JOB_STORE = "filesystem"
+  process.env.JOB_STORE_DIR = directory
+  store = createFileJobStore(directory)
+  jobs = await import("./jobs-core")
+})
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true })
+})
+
+beforeEach(() => {
+  mockRunAnalysisTask.mockReset()
+})
+
+function startExtractJob(): Promise<Job> {
+  return jobs.createJob({ type: "extract", image: Buffer.from("image"), filename: "photo.jpg" })
+}
+
+function waitUntilFinished(id: string): Promise<Job> {
+  return new Promise((resolve) => {
+    const unsubscribe = jobs.subscribeToJob(id, (job) => {
+      if (jobs.isJobFinished(job)) {
+        unsubscribe()
+        resolve(job)
+      }
+    })
+  })
+}
+
+// A record as left behind by a server process that has since stopped
+async function saveOrphanedJob(pid: number): Promise<Job> {
+  const now = new Date().toISOString()
+  const job: Job = {
+    id: `orphan-${pid}`,
+    type: "extract",
+    status: "running",
+    source: "photo.jpg",
+    owner: { host: os.hostname(), pid },
+    createdAt: now,
+    updatedAt: now,
+    stages: [{ name: "decode", status: "running", startedAt: now }],
+    progress: 0,
+  }
+  await store.save(job)
+  return job
+}
+
+// The id of a process that has exited
+function getStoppedPid(): number {
+  return spawnSync(process.execPath, ["-e", ""]).pid
+}
+
+describe("job lifecycle", () => {
+  it("runs a job to success and keeps its result", async () => {
+    mockRunAnalysisTask.mockResolvedValue(EXTRACT_RESULT)
+    const queued = await startExtractJob()
+    expect(queued.status).toBe("queued")
+
+    const finished = await waitUntilFinished(queued.id)
+    expect(finished.status).toBe("succeeded")
+    expect(finished.progress).toBe(1)
+    expect(finished.result).toMatchObject({ type: "extract", xmp: "<xmp/>" })
+  })
+
+  it("cancels a running job and stores the cancellation", async () => {
+    mockRunAnalysisTask.mockImplementation(
+      (_task, _args, { signal }) =>
+        new Promise((_, reject) => {
+          signal.addEventListener("abort", () => reject(new DOMException("Cancelled", "AbortError")))
+        })
+    )
+    const queued = await startExtractJob()
+
+    const cancelled = await jobs.cancelJob(queued.id)
+    expect(cancelled?.status).toBe("cancelled")
+    expect((await store.get(queued.id))?.status).toBe("cancelled")
+  })
+
+  it("returns a finished job unchanged when it is cancelled", async () => {
+    mockRunAnalysisTask.mockResolvedValue(EXTRACT_RESULT)
+    const queued = await startExtractJob()
+    await waitUntilFinished(queued.id)
+
+    // Cancelling waits for the final save, so this also reads the stored record
+    const job = await jobs.cancelJob(queued.id)
+    expect(job?.status).toBe("succeeded")
+    expect(job?.result).toMatchObject({ type: "extract", cube: "LUT_3D_SIZE 2" })
+  })
+})
+
+describe("interrupted jobs", () => {
+  it("reads a job whose process has stopped as interrupted without rewriting it", async () => {
+    const orphan = await saveOrphanedJob(getStoppedPid())
+
+    const job = await jobs.getJob(orphan.id)
+    expect(job?.status).toBe("failed")
+    expect(job?.error).toMatch(/interrupted/)
+    expect(await store.get(orphan.id)).toEqual(orphan)
+  })
+
+  it("leaves a job of another live process running", async () => {
+    const job = await saveOrphanedJob(process.ppid)
+    expect((await jobs.getJob(job.id))?.status).toBe("running")
+  })
+
+  it("marks the jobs whose process has stopped as failed when recovering", async () => {
+    const orphan = await saveOrphanedJob(getStoppedPid())
+    const live = await saveOrphanedJob(process.ppid)
+
+    expect(await jobs.recoverInterruptedJobs()).toBeGreaterThanOrEqual(1)
+    expect((await store.get(orphan.id))?.status).toBe("failed")
+    expect((await store.get(live.id))?.status).toBe("running")
+  })
+})
@@ -0,0 +1,261 @@
+import sharp from "sharp"
+import { randomUUID } from "crypto"
+import os from "os"
+import path from "path"
+import { env } from "env.mjs"
+import { APPLY_OUTPUT_ARTIFACT, FINISHED_JOB_STATUSES } from "./constants"
+import { createFileJobStore, createMemoryJobStore } from "./job-store"
+import { Job, JobInput, JobResult, JobStage, JobStageName, JobStore } from "./types"
+import { OUTPUT_CONTENT_TYPES } from "../apply-cube/apply-cube-core"
+import { APPLY_STAGES } from "../apply-xmp/apply-xmp-core"
+import { EXTRACTION_STAGES } from "../extract-xmp-cube/constants"
+import { runAnalysisTask } from "../shared/analysis-pool"
+import { isProcessAlive } from "../shared/file-manager"
+import { getProcessSingleton } from "../shared/process-singleton"
+import { getBaseName } from "../shared/response"
+import { isAbortError } from "../shared/worker-pool"
+
+type JobListener = (job: Job) => void
+
+interface JobRegistry {
+  store: JobStore
+  // Jobs started by this process; only these can be cancelled or observed live
+  running: Map<string, { controller: AbortController; done: Promise<void> }>
+  listeners: Map<string, Set<JobListener>>
+}
+
+function getJobRegistry(): JobRegistry {
+  return getProcessSingleton<JobRegistry>("jobs", () => ({
+    store:
+      env.JOB_STORE === "filesystem"
+        ? createFileJobStore(env.JOB_STORE_DIR ?? path.join(os.tmpdir(), "ne-presets-jobs"))
+        : createMemoryJobStore(),
+    running: new Map(),
+    listeners: new Map(),
+  }))
+}
+
+function getJobStore(): JobStore {
+  return getJobRegistry().store
+}
+
+export function isJobFinished(job: Job): boolean {
+  return FINISHED_JOB_STATUSES.includes(job.status)
+}
+
+function getStageNames(input: JobInput): JobStageName[] {
+  if (input.type === "apply") return [...APPLY_STAGES]
+  return EXTRACTION_STAGES.filter((stage) => stage !== "refine" || input.refine)
+}
+
+function calculateProgress(stages: JobStage[]): number {
+  const completed = stages.filter((stage) => stage.status === "completed").length
+  return stages.length > 0 ? Math.round((completed / stages.length) * 100) / 100 : 0
+}
+
+// Entering a stage completes every stage before it
+function enterStage(stages: JobStage[], name: JobStageName, now: string): JobStage[] {
+  const index = stages.findIndex((stage) => stage.name === name)
+  if (index === -1) return stages
+  return stages.map((stage, i) => {
+    if (i < index && stage.status !== "completed") {
+      return { ...stage, status: "completed", startedAt: stage.startedAt ?? now, completedAt: now }
+    }
+    if (i === index) return { ...stage, status: "running", startedAt: now }
+    return stage
+  })
+}
+
+function completeStages(stages: JobStage[], now: string): JobStage[] {
+  return stages.map((stage) =>
+    stage.status === "completed"
+      ? stage
+      : { ...stage, status: "completed", startedAt: stage.startedAt ?? now, completedAt: now }
+  )
+}
+
+function notify(job: Job): void {
+  getJobRegistry()
+    .listeners.get(job.id)
+    ?.forEach((listener) => listener(job))
+}
+
+async function executeJob(input: JobInput, job: Job, signal: AbortSignal, onStage: (stage: JobStageName) => void) {
+  const onProgress = (stage: unknown) => onStage(stage as JobStageName)
+
+  if (input.type === "extract") {
+    const { xmpContent, cubeContent, imageProperties, refinement } = await runAnalysisTask(
+      "extract",
+      [input.image, input.filename, input.lutOptions, input.refine],
+      { signal, onProgress }
+    )
+    const baseName = getBaseName(input.filename)
+    return {
+      type: "extract",
+      files: { xmp: `${baseName}.xmp`, cube: `${baseName}.cube` },
+      xmp: xmpContent,
+      cube: cubeContent,
+      properties: imageProperties,
+      refinement,
+    } satisfies JobResult
+  }
+
+  const { outputBuffer, appliedAdjustments } = await runAnalysisTask("apply", [input.image, input.xmp], {
+    signal,
+    onProgress,
+  })
+  const { format = "jpeg" } = await sharp(outputBuffer).metadata()
+  await getJobStore().saveArtifact(job.id, APPLY_OUTPUT_ARTIFACT, outputBuffer)
+  return {
+    type: "apply",
+    file: `processed_${getBaseName(input.filename)}.${format === "jpeg" ? "jpg" : format}`,
+    contentType: OUTPUT_CONTENT_TYPES[format] ?? "application/octet-stream",
+    appliedAdjustments,
+  } satisfies JobResult
+}
+
+async function runJob(input: JobInput, initial: Job, signal: AbortSignal): Promise<void> {
+  const jobStore = getJobStore()
+  let job = initial
+  // Saves are chained so a slow write can never overwrite a newer state
+  let saving = Promise.resolve()
+
+  const update = (changes: (current: Job, now: string) => Partial<Job>) => {
+    const now = new Date().toISOString()
+    const next = { ...job, ...changes(job, now), updatedAt: now }
+    job = { ...next, progress: calculateProgress(next.stages) }
+    const snapshot = job
+    saving = saving.then(() => jobStore.save(snapshot)).catch((error) => console.error("Error saving job:", error))
+    notify(snapshot)
+  }
+
+  try {
+    const result = await executeJob(input, job, signal, (stage) =>
+      update((current, now) => ({ status: "running", stages: enterStage(current.stages, stage, now) }))
+    )
+    update((current, now) => ({ status: "succeeded", stages: completeStages(current.stages, now), result }))
+  } catch (error) {
+    if (isAbortError(error)) {
+      update(() => ({ status: "cancelled" }))
+    } else {
+      console.error(`Error running ${input.type} job ${job.id}:`, error)
+      update(() => ({ status: "failed", error: error instanceof Error ? error.message : "Job failed" }))
+    }
+  } finally {
+    await saving
+    getJobRegistry().running.delete(job.id)
+  }
+}
+
+// Finished jobs are kept for JOB_RETENTION milliseconds so their results can still be collected
+async function pruneExpiredJobs(): Promise<void> {
+  const jobStore = getJobStore()
+  const cutoff = Date.now() - env.JOB_RETENTION
+  const expired = (await jobStore.list()).filter((job) => isJobFinished(job) && Date.parse(job.updatedAt) < cutoff)
+  await Promise.all(expired.map((job) => jobStore.delete(job.id)))
+}
+
+/**
+ * Record a new job and start it on the analysis worker pool; resolves with the queued job without waiting
+ * for it to run
+ */
+export async function createJob(input: JobInput): Promise<Job> {
+  await pruneExpiredJobs()
+
+  const now = new Date().toISOString()
+  const job: Job = {
+    id: randomUUID(),
+    type: input.type,
+    status: "queued",
+    source: input.filename,
+    owner: { host: os.hostname(), pid: process.pid },
+    createdAt: now,
+    updatedAt: now,
+    stages: getStageNames(input).map((name) => ({ name, status: "pending" })),
+    progress: 0,
+  }
+  await getJobStore().save(job)
+
+  const controller = new AbortController()
+  getJobRegistry().running.set(job.id, { controller, done: runJob(input, job, controller.signal) })
+  return job
+}
+
+/**
+ * Whether an unfinished job was lost with the process that started it: one of this process that it is not
+ * running, or one whose process on this host has stopped. Jobs of other hosts cannot be checked and are trusted.
+ */
+function isJobOrphaned(job: Job): boolean {
+  if (isJobFinished(job) || getJobRegistry().running.has(job.id)) return false
+  const { host, pid } = job.owner ?? {}
+  if (host !== undefined && host !== os.hostname()) return false
+  return pid === process.pid || !Number.isInteger(pid) || !isProcessAlive(pid!)
+}
+
+function interruptJob(job: Job): Job {
+  return { ...job, status: "failed", error: "Job was interrupted before it finished" }
+}
+
+// Orphaned jobs read as interrupted; the record is only rewritten by recoverInterruptedJobs
+export async function getJob(id: string): Promise<Job | undefined> {
+  const job = await getJobStore().get(id)
+  return job && isJobOrphaned(job) ? interruptJob(job) : job
+}
+
+/**
+ * Mark the unfinished jobs whose process has stopped as failed. Run at startup, so a restarted server stops
+ * reporting the jobs it lost as running. Resolves with the number of jobs marked.
+ */
+export async function recoverInterruptedJobs(): Promise<number> {
+  const jobStore = getJobStore()
+  const orphaned = (await jobStore.list()).filter(isJobOrphaned)
+  const now = new Date().toISOString()
+  await Promise.all(orphaned.map((job) => jobStore.save({ ...interruptJob(job), updatedAt: now })))
+  return orphaned.length
+}
+
+/**
+ * Cancel a queued or running job and resolve with its final state. Finished jobs are returned unchanged.
+ */
+export async function cancelJob(id: string): Promise<Job | undefined> {
+  const run = getJobRegistry().running.get(id)
+  if (run) {
+    run.controller.abort()
+    await run.done
+  }
+  return getJob(id)
+}
+
+export function getJobArtifact(id: string, name: string): Promise<Buffer | undefined> {
+  return getJobStore().getArtifact(id, name)
+}
+
+/**
+ * Call `listener` with every state change of a job started by this process; returns the unsubscribe function
+ */
+export function subscribeToJob(id: string, listener: JobListener): () => void {
+  const { listeners } = getJobRegistry()
+  const jobListeners = listeners.get(id) ?? new Set<JobListener>()
+  jobListeners.add(listener)
+  listeners.set(id, jobListeners)
+
+  return () => {
+    jobListeners.delete(listener)
+    if (jobListeners.size === 0) listeners.delete(id)
+  }
+}
+
+// Job state plus the URLs a client polls, streams and downloads from
+export function createJobResponse(job: Job, options: { includeResult?: boolean } = {}) {
+  const { result, owner: _owner, ...state } = job
+  const base = `/api/jobs/${job.id}`
+  return {
+    ...state,
+    ...(options.includeResult !== false && result ? { result } : {}),
+    links: {
+      self: base,
+      events: `${base}/events`,
+      ...(job.status === "succeeded" ? { result: `${base}/result` } : {}),
+    },
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server"
+import { createJob, createJobResponse } from "./jobs-core"
+import { JobInput } from "./types"
+import { validateJobType } from "./validator"
+import { validateLUTOptions, validateRefineOptions } from "../extract-xmp-cube/validator"
+import { validateImageFile, validateXMPContent, validateXMPFile, XMPValidationIssue } from "../shared/validator"
+
+type JobInputResult =
+  | { input: JobInput; error?: undefined }
+  | { input?: undefined; error: string; issues?: XMPValidationIssue[] }
+
+// Same fields as POST /api/extract-xmp-cube, minus the output format
+async function readExtractJobInput(formData: FormData, image: File): Promise<JobInputResult> {
+  const lutValidation = validateLUTOptions(formData)
+  if (!lutValidation.isValid) {
+    return { error: lutValidation.error! }
+  }
+
+  const refineValidation = validateRefineOptions(formData)
+  if (!refineValidation.isValid) {
+    return { error: refineValidation.error! }
+  }
+  const source = formData.get("source")
+  if (source !== null) {
+    const sourceValidation = await validateImageFile(source instanceof File ? source : null)
+    if (!sourceValidation.isValid) {
+      return { error: `source: ${sourceValidation.error}` }
+    }
+  }
+
+  return {
+    input: {
+      type: "extract",
+      image: Buffer.from(await image.arrayBuffer()),
+      filename: image.name,
+      lutOptions: lutValidation.options,
+      refine: refineValidation.options && {
+        options: refineValidation.options,
+        source: source instanceof File ? Buffer.from(await source.arrayBuffer()) : undefined,
+      },
+    },
+  }
+}
+
+// Same fields as POST /api/apply-xmp
+async function readApplyJobInput(formData: FormData, image: File): Promise<JobInputResult> {
+  const xmpFile = formData.get("xmp")
+  const xmpValidation = await validateXMPFile(xmpFile instanceof File ? xmpFile : null)
+  if (!xmpValidation.isValid) {
+    return { error: xmpValidation.error! }
+  }
+
+  const xmp = await (xmpFile as File).text()
+  const xmpContentValidation = await validateXMPContent(xmp)
+  if (!xmpContentValidation.isValid) {
+    return { error: xmpContentValidation.error!, issues: xmpContentValidation.issues }
+  }
+
+  return { input: { type: "apply", image: Buffer.from(await image.arrayBuffer()), filename: image.name, xmp } }
+}
+
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData()
+
+    // Validate the job type (type=extract|apply)
+    const typeValidation = validateJobType(formData.get("type"))
+    if (!typeValidation.isValid) {
+      return NextResponse.json({ error: typeValidation.error }, { status: 400 })
+    }
+
+    // Validate the uploaded image, which every job type needs
+    const image = formData.get("image")
+    const imageValidation = await validateImageFile(image instanceof File ? image : null)
+    if (!imageValidation.isValid) {
+      return NextResponse.json({ error: imageValidation.error }, { status: 400 })
+    }
+
+    // Validate the fields of the requested job type
+    const inputResult =
+      typeValidation.type === "extract"
+        ? await readExtractJobInput(formData, image as File)
+        : await readApplyJobInput(formData, image as File)
+    if (!inputResult.input) {
+      const { error, issues } = inputResult
+      return NextResponse.json({ error, ...(issues ? { issues } : {}) }, { status: 400 })
+    }
+    const { input } = inputResult
+
+    // Start the job in the background and hand back where to follow it
+    const job = await createJob(input)
+    const body = createJobResponse(job)
+    return NextResponse.json(body, { status: 202, headers: { Location: body.links.self } })
+  } catch (error) {
+    console.error("Error creating job:", error)
+    return NextResponse.json({ error: "Failed to create job" }, { status: 500 })
+  }
+}
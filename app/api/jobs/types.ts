@@ -0,0 +1,80 @@
+import { ApplyStage } from "../apply-xmp/apply-xmp-core"
+import { ExtractionStage, LUTOptions, RefinementSummary, RefineOptions } from "../extract-xmp-cube/types"
+import { ImageProperties, XMPAdjustments } from "../shared/types"
+
+export type JobType = "extract" | "apply"
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled"
+
+export type JobStageName = ExtractionStage | ApplyStage
+
+export interface JobStage {
+  name: JobStageName
+  status: "pending" | "running" | "completed"
+  startedAt?: string
+  completedAt?: string
+}
+
+export type JobResult =
+  | {
+      type: "extract"
+      files: { xmp: string; cube: string }
+      xmp: string
+      cube: string
+      properties: ImageProperties
+      refinement?: RefinementSummary
+    }
+  | {
+      type: "apply"
+      file: string // Name the rendered image is downloaded as
+      contentType: string
+      appliedAdjustments: XMPAdjustments
+    }
+
+// Server process that runs a job
+export interface JobOwner {
+  host: string
+  pid: number
+}
+
+export interface Job {
+  id: string
+  type: JobType
+  status: JobStatus
+  source: string // Name of the uploaded image
+  owner: JobOwner
+  createdAt: string
+  updatedAt: string
+  stages: JobStage[]
+  progress: number // Fraction of stages completed, 0-1
+  result?: JobResult
+  error?: string
+}
+
+export type JobInput =
+  | {
+      type: "extract"
+      image: Buffer
+      filename: string
+      lutOptions?: Partial<LUTOptions>
+      refine?: { options: RefineOptions; source?: Buffer }
+    }
+  | {
+      type: "apply"
+      image: Buffer
+      filename: string
+      xmp: string
+    }
+
+/**
+ * Where job records and their binary outputs live. Implementations must tolerate concurrent reads of a job
+ * while it is being saved.
+ */
+export interface JobStore {
+  get(id: string): Promise<Job | undefined>
+  list(): Promise<Job[]>
+  save(job: Job): Promise<void>
+  delete(id: string): Promise<void>
+  saveArtifact(id: string, name: string, content: Buffer): Promise<void>
+  getArtifact(id: string, name: string): Promise<Buffer | undefined>
+}
@@ -0,0 +1,23 @@
+import { z } from "zod"
+import { JOB_TYPES } from "./constants"
+import { JobType } from "./types"
+import { ValidationResult } from "../shared/validator"
+
+export const JobTypeSchema = z.enum(JOB_TYPES)
+
+export type JobTypeValidationResult = ValidationResult & {
+  type?: JobType
+}
+
+export function validateJobType(value: FormDataEntryValue | null): JobTypeValidationResult {
+  const result = JobTypeSchema.safeParse(typeof value === "string" ? value.trim().toLowerCase() : value)
+  if (!result.success) {
+    return { isValid: false, error: `Invalid job type. Supported types: ${JOB_TYPES.join(", ")}` }
+  }
+  return { isValid: true, type: result.data }
+}
+
+// Job ids are UUIDs; anything else cannot name a job and must never reach the store
+export function isValidJobId(id: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { CONTENT_TYPES, createAttachmentResponse, createWorkerErrorResponse } from "../../../shared/response"
+import { getPreset, getPresetFilename, renderPresetCube } from "../../presets-core"
+import { isValidPresetId, validatePresetVersion } from "../../validator"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Download the preset as a CUBE LUT, from the latest version or the one named by ?version=
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const versionValidation = validatePresetVersion(new URL(request.url).searchParams.get("version"))
+    if (!versionValidation.isValid) {
+      return NextResponse.json({ error: versionValidation.error }, { status: 400 })
+    }
+
+    const preset = isValidPresetId(id) ? await getPreset(id, versionValidation.version) : undefined
+    if (!preset) {
+      return NextResponse.json({ error: "Preset not found" }, { status: 404 })
+    }
+
+    const cube = await renderPresetCube(preset, request.signal)
+    return createAttachmentResponse(cube, getPresetFilename(preset, "cube"), CONTENT_TYPES.cube)
+  } catch (error) {
+    const workerErrorResponse = createWorkerErrorResponse(error)
+    if (workerErrorResponse) return workerErrorResponse
+
+    console.error("Error rendering preset CUBE:", error)
+    return NextResponse.json({ error: "Failed to render preset CUBE" }, { status: 500 })
+  }
+}
@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server"
+import { createWorkerErrorResponse } from "../../shared/response"
+import { PRESET_SETTINGS_FIELDS, readPresetSettings, readPresetThumbnail } from "../preset-input"
+import { createPresetProperties, createPresetResponse, deletePreset, getPreset, updatePreset } from "../presets-core"
+import { PresetChanges } from "../types"
+import { isValidPresetId, validatePresetFields, validatePresetVersion } from "../validator"
+
+// Everything PATCH can change; at least one must be sent
+const UPDATABLE_FIELDS = ["name", "tags", "notes", "thumbnail", ...PRESET_SETTINGS_FIELDS]
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// The latest version, or the one named by ?version=
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const versionValidation = validatePresetVersion(new URL(request.url).searchParams.get("version"))
+    if (!versionValidation.isValid) {
+      return NextResponse.json({ error: versionValidation.error }, { status: 400 })
+    }
+
+    const { version } = versionValidation
+    const preset = isValidPresetId(id) ? await getPreset(id, version) : undefined
+    if (!preset) {
+      return NextResponse.json({ error: "Preset not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(createPresetResponse(preset, { latest: version === undefined }))
+  } catch (error) {
+    console.error("Error reading preset:", error)
+    return NextResponse.json({ error: "Failed to read preset" }, { status: 500 })
+  }
+}
+
+/**
+ * Save changes as a new version. Fields not sent are kept; `properties` changes only the values it names,
+ * while `xmp` and `image` replace every setting.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const current = isValidPresetId(id) ? await getPreset(id) : undefined
+    if (!current) {
+      return NextResponse.json({ error: "Preset not found" }, { status: 404 })
+    }
+
+    const formData = await request.formData()
+
+    // Validate whichever of name, tags and notes were sent
+    const fieldsValidation = validatePresetFields(formData, false)
+    if (!fieldsValidation.isValid) {
+      return NextResponse.json({ error: fieldsValidation.error }, { status: 400 })
+    }
+
+    const settingsResult = await readPresetSettings(formData, request.signal)
+    if (settingsResult.error !== undefined) {
+      const { error, issues } = settingsResult
+      return NextResponse.json({ error, ...(issues ? { issues } : {}) }, { status: 400 })
+    }
+
+    const thumbnailResult = await readPresetThumbnail(formData, settingsResult.image)
+    if (thumbnailResult.error !== undefined) {
+      return NextResponse.json({ error: thumbnailResult.error }, { status: 400 })
+    }
+
+    const { settings, merge } = settingsResult
+    const { thumbnail } = thumbnailResult
+    const changes: PresetChanges = Object.fromEntries(
+      Object.entries({
+        ...fieldsValidation.fields,
+        properties: settings && createPresetProperties(settings, merge ? current.properties : undefined),
+        thumbnail,
+      }).filter(([, value]) => value !== undefined)
+    )
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json(
+        { error: `Nothing to update. Send at least one of: ${UPDATABLE_FIELDS.join(", ")}` },
+        { status: 400 }
+      )
+    }
+
+    const updated = await updatePreset(id, changes)
+    if (!updated) {
+      return NextResponse.json({ error: "Preset not found" }, { status: 404 })
+    }
+    return NextResponse.json(createPresetResponse(updated))
+  } catch (error) {
+    const workerErrorResponse = createWorkerErrorResponse(error)
+    if (workerErrorResponse) return workerErrorResponse
+
+    console.error("Error updating preset:", error)
+    return NextResponse.json({ error: "Failed to update preset" }, { status: 500 })
+  }
+}
+
+// Delete a preset with every version
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const deleted = isValidPresetId(id) && (await deletePreset(id))
+    if (!deleted) {
+      return NextResponse.json({ error: "Preset not found" }, { status: 404 })
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error("Error deleting preset:", error)
+    return NextResponse.json({ error: "Failed to delete preset" }, { status: 500 })
+  }
+}
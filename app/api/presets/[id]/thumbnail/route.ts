@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { getPresetThumbnail } from "../../presets-core"
+import { isValidPresetId, validatePresetVersion } from "../../validator"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// The JPEG thumbnail of the latest version, or of the one named by ?version=
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const versionValidation = validatePresetVersion(new URL(request.url).searchParams.get("version"))
+    if (!versionValidation.isValid) {
+      return NextResponse.json({ error: versionValidation.error }, { status: 400 })
+    }
+
+    const thumbnail = isValidPresetId(id) ? await getPresetThumbnail(id, versionValidation.version) : undefined
+    if (!thumbnail) {
+      return NextResponse.json({ error: "Thumbnail not found" }, { status: 404 })
+    }
+
+    return new NextResponse(thumbnail, {
+      status: 200,
+      headers: { "Content-Type": "image/jpeg", "Content-Length": String(thumbnail.length) },
+    })
+  } catch (error) {
+    console.error("Error reading preset thumbnail:", error)
+    return NextResponse.json({ error: "Failed to read preset thumbnail" }, { status: 500 })
+  }
+}
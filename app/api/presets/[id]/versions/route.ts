@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { createPresetResponse, listPresetVersions } from "../../presets-core"
+import { isValidPresetId } from "../../validator"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Every saved version of a preset, newest first
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const versions = isValidPresetId(id) ? await listPresetVersions(id) : []
+    if (versions.length === 0) {
+      return NextResponse.json({ error: "Preset not found" }, { status: 404 })
+    }
+
+    const latest = versions[0]!.version
+    return NextResponse.json({
+      versions: versions.map((preset) => createPresetResponse(preset, { latest: preset.version === latest })),
+    })
+  } catch (error) {
+    console.error("Error listing preset versions:", error)
+    return NextResponse.json({ error: "Failed to list preset versions" }, { status: 500 })
+  }
+}
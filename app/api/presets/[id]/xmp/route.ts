@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { CONTENT_TYPES, createAttachmentResponse } from "../../../shared/response"
+import { getPreset, getPresetFilename, renderPresetXMP } from "../../presets-core"
+import { isValidPresetId, validatePresetVersion } from "../../validator"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Download the preset as an XMP file, from the latest version or the one named by ?version=
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const versionValidation = validatePresetVersion(new URL(request.url).searchParams.get("version"))
+    if (!versionValidation.isValid) {
+      return NextResponse.json({ error: versionValidation.error }, { status: 400 })
+    }
+
+    const preset = isValidPresetId(id) ? await getPreset(id, versionValidation.version) : undefined
+    if (!preset) {
+      return NextResponse.json({ error: "Preset not found" }, { status: 404 })
+    }
+
+    return createAttachmentResponse(renderPresetXMP(preset), getPresetFilename(preset, "xmp"), CONTENT_TYPES.xmp)
+  } catch (error) {
+    console.error("Error rendering preset XMP:", error)
+    return NextResponse.json({ error: "Failed to render preset XMP" }, { status: 500 })
+  }
+}
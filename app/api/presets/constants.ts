@@ -0,0 +1,43 @@
+import { ImageProperties } from "../shared/types"
+
+export const PRESET_NAME_MAX_LENGTH = 100
+
+export const PRESET_NOTES_MAX_LENGTH = 2000
+
+export const MAX_PRESET_TAGS = 20
+
+export const PRESET_TAG_MAX_LENGTH = 32
+
+// Longest side of the stored thumbnail, in pixels
+export const PRESET_THUMBNAIL_SIZE = 320
+
+export const PRESET_THUMBNAIL_QUALITY = 80
+
+export const DEFAULT_PRESET_PAGE_SIZE = 50
+
+export const MAX_PRESET_PAGE_SIZE = 200
+
+// Longer operators first, so ">=" is never read as ">" followed by "="
+export const RANGE_OPERATORS = [">=", "<=", ">", "<", "="] as const
+
+// Metadata a preset gets when its settings do not say; the profile digest follows the camera profile
+export const PRESET_METADATA_DEFAULTS: Pick<
+  ImageProperties,
+  | "version"
+  | "processVersion"
+  | "cameraProfile"
+  | "toneCurveName"
+  | "whiteBalance"
+  | "hasSettings"
+  | "hasCrop"
+  | "alreadyApplied"
+> = {
+  version: "15.0",
+  processVersion: "15.0",
+  cameraProfile: "Adobe Standard",
+  toneCurveName: "Linear",
+  whiteBalance: "As Shot",
+  hasSettings: true,
+  hasCrop: false,
+  alreadyApplied: false,
+}
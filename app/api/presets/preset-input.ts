@@ -0,0 +1,86 @@
+import { createPresetThumbnail } from "./presets-core"
+import { validatePresetProperties } from "./validator"
+import { runAnalysisTask } from "../shared/analysis-pool"
+import { ImageProperties, XMPAdjustments } from "../shared/types"
+import { validateImageFile, validateXMPContent, validateXMPFile, XMPValidationIssue } from "../shared/validator"
+import { parseXMPData, readCRSSettings } from "../shared/xml-parser"
+
+export const PRESET_SETTINGS_FIELDS = ["properties", "xmp", "image"] as const
+
+export type PresetSettingsResult =
+  | {
+      settings?: Partial<ImageProperties | XMPAdjustments> // Undefined when no settings were sent
+      merge: boolean // Whether the settings only change some values, rather than describing the whole preset
+      image?: Buffer // The analyzed image, which doubles as the thumbnail source
+      error?: undefined
+    }
+  | { settings?: undefined; error: string; issues?: XMPValidationIssue[] }
+
+/**
+ * Read preset settings from exactly one of `properties` (JSON, e.g. the properties of an extraction result),
+ * `xmp` (an XMP file) or `image` (analyzed like POST /api/extract-xmp-cube)
+ */
+export async function readPresetSettings(formData: FormData, signal: AbortSignal): Promise<PresetSettingsResult> {
+  const given = PRESET_SETTINGS_FIELDS.filter((field) => formData.get(field) !== null)
+  if (given.length > 1) {
+    return { error: `Send preset settings in only one of: ${PRESET_SETTINGS_FIELDS.join(", ")}` }
+  }
+
+  switch (given[0]) {
+    case "properties": {
+      const properties = formData.get("properties")
+      const validation = validatePresetProperties(typeof properties === "string" ? properties : "")
+      if (!validation.isValid) {
+        return { error: validation.error! }
+      }
+      return { settings: validation.properties, merge: true }
+    }
+    case "xmp": {
+      const xmpFile = formData.get("xmp")
+      const xmpValidation = await validateXMPFile(xmpFile instanceof File ? xmpFile : null)
+      if (!xmpValidation.isValid) {
+        return { error: xmpValidation.error! }
+      }
+
+      const xmp = await (xmpFile as File).text()
+      const contentValidation = await validateXMPContent(xmp)
+      if (!contentValidation.isValid) {
+        return { error: contentValidation.error!, issues: contentValidation.issues }
+      }
+      return { settings: readCRSSettings(parseXMPData(xmp)), merge: false }
+    }
+    case "image": {
+      const image = formData.get("image")
+      const imageValidation = await validateImageFile(image instanceof File ? image : null)
+      if (!imageValidation.isValid) {
+        return { error: imageValidation.error! }
+      }
+
+      const buffer = Buffer.from(await (image as File).arrayBuffer())
+      const { imageProperties } = await runAnalysisTask(
+        "extract",
+        [buffer, (image as File).name, undefined, undefined],
+        { signal }
+      )
+      return { settings: imageProperties, merge: false, image: buffer }
+    }
+    default:
+      return { merge: false }
+  }
+}
+
+export type PresetThumbnailResult = { thumbnail?: Buffer; error?: undefined } | { thumbnail?: undefined; error: string }
+
+// An explicit `thumbnail` upload wins over the analyzed image
+export async function readPresetThumbnail(formData: FormData, image?: Buffer): Promise<PresetThumbnailResult> {
+  const thumbnail = formData.get("thumbnail")
+  if (thumbnail === null) {
+    return { thumbnail: image && (await createPresetThumbnail(image)) }
+  }
+
+  const validation = await validateImageFile(thumbnail instanceof File ? thumbnail : null)
+  if (!validation.isValid) {
+    return { error: `thumbnail: ${validation.error}` }
+  }
+  return { thumbnail: await createPresetThumbnail(Buffer.from(await (thumbnail as File).arrayBuffer())) }
+}
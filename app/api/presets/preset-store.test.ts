@@ -0,0 +1,99 @@
+/** @jest-environment node */
+import { beforeEach, describe, expect, it } from "@jest/globals"
+import { createSQLitePresetStore } from "./preset-store"
+import { PresetQuery, PresetStore } from "./types"
+import { ImageProperties } from "../shared/types"
+
+const NOW = "2024-01-01T00:00:00.000Z"
+
+let store: PresetStore
+
+function query(changes: Partial<PresetQuery>): PresetQuery {
+  return { tags: [], ranges: [], limit: 50, offset: 0, ...changes }
+}
+
+// Only the properties a test filters on matter to the store, which keeps them as JSON
+function createPreset(name: string, properties: Partial<ImageProperties> = {}, notes = "") {
+  return store.create(
+    name.replace(/\W/g, "-"),
+    { name, tags: [], notes, properties: properties as ImageProperties },
+    undefined,
+    NOW
+  )
+}
+
+async function searchNames(changes: Partial<PresetQuery>): Promise<string[]> {
+  const { presets } = await store.search(query(changes))
+  return presets.map((preset) => preset.name).sort()
+}
+
+beforeEach(() => {
+  store = createSQLitePresetStore(":memory:")
+})
+
+describe("range filters", () => {
+  beforeEach(async () => {
+    await createPreset("cool", { temperature: -20, exposure: 0.5 })
+    await createPreset("neutral", { temperature: 0, exposure: 0 })
+    await createPreset("warm", { temperature: 25, exposure: -0.5 })
+  })
+
+  it("compares a property with each operator", async () => {
+    const range = (operator: PresetQuery["ranges"][number]["operator"], value: number) =>
+      searchNames({ ranges: [{ property: "temperature", operator, value }] })
+
+    expect(await range(">", 0)).toEqual(["warm"])
+    expect(await range(">=", 0)).toEqual(["neutral", "warm"])
+    expect(await range("<", 0)).toEqual(["cool"])
+    expect(await range("<=", 0)).toEqual(["cool", "neutral"])
+    expect(await range("=", 25)).toEqual(["warm"])
+  })
+
+  it("requires every range to match", async () => {
+    const names = await searchNames({
+      ranges: [
+        { property: "temperature", operator: ">=", value: -20 },
+        { property: "exposure", operator: "<=", value: 0 },
+      ],
+    })
+    expect(names).toEqual(["neutral", "warm"])
+  })
+
+  it("matches nothing on a property the presets do not have", async () => {
+    expect(await searchNames({ ranges: [{ property: "missing", operator: ">", value: -1000 }] })).toEqual([])
+  })
+
+  it("counts every match while paging", async () => {
+    const { presets, total } = await store.search(query({ limit: 2, offset: 2 }))
+    expect(presets).toHaveLength(1)
+    expect(total).toBe(3)
+  })
+})
+
+describe("text search", () => {
+  beforeEach(async () => {
+    await createPreset("50% warmer")
+    await createPreset("500 warmer")
+    await createPreset("film_look")
+    await createPreset("filmXlook")
+    await createPreset("back\\slash")
+    await createPreset("plain", {}, "Shot at 50% exposure")
+  })
+
+  it("matches LIKE wildcards literally", async () => {
+    expect(await searchNames({ search: "50%" })).toEqual(["50% warmer", "plain"])
+    expect(await searchNames({ search: "m_l" })).toEqual(["film_look"])
+    expect(await searchNames({ search: "\\" })).toEqual(["back\\slash"])
+  })
+
+  it("matches names and notes without regard to case", async () => {
+    expect(await searchNames({ search: "WARMER" })).toEqual(["50% warmer", "500 warmer"])
+    expect(await searchNames({ search: "exposure" })).toEqual(["plain"])
+  })
+
+  it("only searches the latest version", async () => {
+    await store.update("filmXlook", { name: "renamed" }, NOW)
+    expect(await searchNames({ search: "filmX" })).toEqual([])
+    expect(await searchNames({ search: "renamed" })).toEqual(["renamed"])
+  })
+})
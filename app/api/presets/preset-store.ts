@@ -0,0 +1,217 @@
+import Database from "better-sqlite3"
+import { mkdirSync } from "fs"
+import path from "path"
+import { Preset, PresetChanges, PresetQuery, PresetStore } from "./types"
+import { ImageProperties } from "../shared/types"
+
+// Every version is a full snapshot; presets.current_version points at the one queries see
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS presets (
+    id TEXT PRIMARY KEY,
+    current_version INTEGER NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS preset_versions (
+    preset_id TEXT NOT NULL REFERENCES presets (id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    tags TEXT NOT NULL,
+    notes TEXT NOT NULL,
+    properties TEXT NOT NULL,
+    thumbnail BLOB,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (preset_id, version)
+  );
+`
+
+// Thumbnails are only read through getThumbnail, so listings never load them
+const PRESET_COLUMNS = `
+  p.id, p.created_at, v.version, v.name, v.tags, v.notes, v.properties,
+  v.thumbnail IS NOT NULL AS has_thumbnail, v.created_at AS updated_at
+`
+
+interface PresetRow {
+  id: string
+  created_at: string
+  version: number
+  name: string
+  tags: string
+  notes: string
+  properties: string
+  has_thumbnail: 0 | 1
+  updated_at: string
+}
+
+function toPreset(row: PresetRow): Preset {
+  return {
+    id: row.id,
+    version: row.version,
+    name: row.name,
+    tags: JSON.parse(row.tags) as string[],
+    notes: row.notes,
+    properties: JSON.parse(row.properties) as ImageProperties,
+    hasThumbnail: row.has_thumbnail === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+// LIKE treats % and _ as wildcards, so escape them to match the search text literally
+function toLikePattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, (char) => `\\${char}`)}%`
+}
+
+// Conditions on the latest version (aliased v) and their parameters, in order
+function buildConditions(query: PresetQuery): { where: string; params: unknown[] } {
+  const conditions: string[] = []
+  const params: unknown[] = []
+
+  query.tags.forEach((tag) => {
+    conditions.push("EXISTS (SELECT 1 FROM json_each(v.tags) WHERE json_each.value = ?)")
+    params.push(tag)
+  })
+  if (query.cameraProfile !== undefined) {
+    conditions.push("json_extract(v.properties, '$.cameraProfile') = ? COLLATE NOCASE")
+    params.push(query.cameraProfile)
+  }
+  if (query.toneCurveName !== undefined) {
+    conditions.push("json_extract(v.properties, '$.toneCurveName') = ? COLLATE NOCASE")
+    params.push(query.toneCurveName)
+  }
+  if (query.search !== undefined) {
+    conditions.push("(v.name LIKE ? ESCAPE '\\' OR v.notes LIKE ? ESCAPE '\\')")
+    params.push(toLikePattern(query.search), toLikePattern(query.search))
+  }
+  // Operators come from RANGE_OPERATORS and properties are bound as JSON paths, so nothing user-supplied is spliced in
+  query.ranges.forEach(({ property, operator, value }) => {
+    conditions.push(`json_extract(v.properties, ?) ${operator} ?`)
+    params.push(`$.${property}`, value)
+  })
+
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "", params }
+}
+
+/**
+ * Keep presets in the SQLite database at `filename`, which is created on first use. better-sqlite3 is
+ * synchronous, so every method runs to completion before another request can touch the database.
+ */
+export function createSQLitePresetStore(filename: string): PresetStore {
+  mkdirSync(path.dirname(filename), { recursive: true })
+  const db = new Database(filename)
+  db.pragma("journal_mode = WAL")
+  db.pragma("foreign_keys = ON")
+  db.exec(SCHEMA)
+
+  const statements = {
+    insertPreset: db.prepare("INSERT INTO presets (id, current_version, created_at) VALUES (?, 1, ?)"),
+    insertVersion: db.prepare(`
+      INSERT INTO preset_versions (preset_id, version, name, tags, notes, properties, thumbnail, created_at)
+      VALUES (@id, @version, @name, @tags, @notes, @properties, @thumbnail, @now)
+    `),
+    // The new version keeps the previous thumbnail unless it brings its own
+    insertNextVersion: db.prepare(`
+      INSERT INTO preset_versions (preset_id, version, name, tags, notes, properties, thumbnail, created_at)
+      SELECT @id, version + 1, @name, @tags, @notes, @properties, COALESCE(@thumbnail, thumbnail), @now
+      FROM preset_versions WHERE preset_id = @id AND version = @version
+    `),
+    setCurrentVersion: db.prepare("UPDATE presets SET current_version = ? WHERE id = ?"),
+    selectCurrent: db.prepare(`
+      SELECT ${PRESET_COLUMNS} FROM presets p
+      JOIN preset_versions v ON v.preset_id = p.id AND v.version = p.current_version
+      WHERE p.id = ?
+    `),
+    selectVersion: db.prepare(`
+      SELECT ${PRESET_COLUMNS} FROM presets p
+      JOIN preset_versions v ON v.preset_id = p.id
+      WHERE p.id = ? AND v.version = ?
+    `),
+    selectVersions: db.prepare(`
+      SELECT ${PRESET_COLUMNS} FROM presets p
+      JOIN preset_versions v ON v.preset_id = p.id
+      WHERE p.id = ? ORDER BY v.version DESC
+    `),
+    selectThumbnail: db.prepare(`
+      SELECT v.thumbnail FROM presets p
+      JOIN preset_versions v ON v.preset_id = p.id AND v.version = COALESCE(?, p.current_version)
+      WHERE p.id = ?
+    `),
+    deletePreset: db.prepare("DELETE FROM presets WHERE id = ?"),
+  }
+
+  const getCurrent = (id: string) => {
+    const row = statements.selectCurrent.get(id) as PresetRow | undefined
+    return row && toPreset(row)
+  }
+
+  const insert = db.transaction((preset: Preset, thumbnail: Buffer | undefined) => {
+    statements.insertPreset.run(preset.id, preset.createdAt)
+    statements.insertVersion.run({
+      id: preset.id,
+      version: preset.version,
+      name: preset.name,
+      tags: JSON.stringify(preset.tags),
+      notes: preset.notes,
+      properties: JSON.stringify(preset.properties),
+      thumbnail: thumbnail ?? null,
+      now: preset.createdAt,
+    })
+  })
+
+  // Reading the current version and writing the next in one transaction keeps concurrent updates from
+  // claiming the same version number
+  const insertNext = db.transaction((id: string, changes: PresetChanges, now: string) => {
+    const current = getCurrent(id)
+    if (!current) return undefined
+
+    statements.insertNextVersion.run({
+      id,
+      version: current.version,
+      name: changes.name ?? current.name,
+      tags: JSON.stringify(changes.tags ?? current.tags),
+      notes: changes.notes ?? current.notes,
+      properties: JSON.stringify(changes.properties ?? current.properties),
+      thumbnail: changes.thumbnail ?? null,
+      now,
+    })
+    statements.setCurrentVersion.run(current.version + 1, id)
+    return getCurrent(id)
+  })
+
+  return {
+    async create(id, content, thumbnail, now) {
+      const preset: Preset = { ...content, id, version: 1, hasThumbnail: !!thumbnail, createdAt: now, updatedAt: now }
+      insert(preset, thumbnail)
+      return preset
+    },
+    async update(id, changes, now) {
+      return insertNext(id, changes, now)
+    },
+    async get(id, version) {
+      const row = (
+        version === undefined ? statements.selectCurrent.get(id) : statements.selectVersion.get(id, version)
+      ) as PresetRow | undefined
+      return row && toPreset(row)
+    },
+    async listVersions(id) {
+      return (statements.selectVersions.all(id) as PresetRow[]).map(toPreset)
+    },
+    async search(query) {
+      const { where, params } = buildConditions(query)
+      const from = `FROM presets p JOIN preset_versions v ON v.preset_id = p.id AND v.version = p.current_version ${where}`
+
+      const { total } = db.prepare(`SELECT COUNT(*) AS total ${from}`).get(...params) as { total: number }
+      const rows = db
+        .prepare(`SELECT ${PRESET_COLUMNS} ${from} ORDER BY v.created_at DESC, p.id LIMIT ? OFFSET ?`)
+        .all(...params, query.limit, query.offset) as PresetRow[]
+      return { presets: rows.map(toPreset), total }
+    },
+    async getThumbnail(id, version) {
+      const row = statements.selectThumbnail.get(version ?? null, id) as { thumbnail: Buffer | null } | undefined
+      return row?.thumbnail ?? undefined
+    },
+    async delete(id) {
+      return statements.deletePreset.run(id).changes > 0
+    },
+  }
+}
@@ -0,0 +1,111 @@
+import sharp from "sharp"
+import { randomUUID } from "crypto"
+import path from "path"
+import { env } from "env.mjs"
+import { PRESET_METADATA_DEFAULTS, PRESET_THUMBNAIL_QUALITY, PRESET_THUMBNAIL_SIZE } from "./constants"
+import { createSQLitePresetStore } from "./preset-store"
+import { Preset, PresetChanges, PresetContent, PresetQuery, PresetStore } from "./types"
+import { calculateProfileDigest } from "../extract-xmp-cube/camera-profiles"
+import { generateXMPCRS } from "../extract-xmp-cube/metadata-analysis"
+import { runAnalysisTask } from "../shared/analysis-pool"
+import { getProcessSingleton } from "../shared/process-singleton"
+import { sanitizeDownloadName } from "../shared/response"
+import { ImageProperties, XMPAdjustments } from "../shared/types"
+import { IMAGE_INPUT_OPTIONS } from "../shared/validator"
+import { parseXMPAdjustments } from "../shared/xml-parser"
+import { createXMPDocument } from "../shared/xmp-document"
+
+// One database connection per process
+function getPresetStore(): PresetStore {
+  return getProcessSingleton("presets", () =>
+    createSQLitePresetStore(env.PRESET_DATABASE ?? path.join(process.cwd(), "data", "presets.db"))
+  )
+}
+
+/**
+ * Complete settings into the ImageProperties a preset renders from. Values not given come from `base`, or
+ * Lightroom's defaults and default metadata for a new preset. The profile digest follows the camera profile
+ * unless one is given with it.
+ */
+export function createPresetProperties(
+  settings: Partial<ImageProperties | XMPAdjustments>,
+  base?: ImageProperties
+): ImageProperties {
+  const defaults = base ?? { ...parseXMPAdjustments(createXMPDocument()), ...PRESET_METADATA_DEFAULTS }
+  const properties = { ...defaults, ...settings }
+  const cameraProfileDigest =
+    settings.cameraProfileDigest ??
+    (base && settings.cameraProfile === undefined
+      ? base.cameraProfileDigest
+      : calculateProfileDigest(properties.cameraProfile))
+  return { ...properties, cameraProfileDigest } as ImageProperties
+}
+
+export async function createPresetThumbnail(image: Buffer): Promise<Buffer> {
+  return sharp(image, IMAGE_INPUT_OPTIONS)
+    .rotate()
+    .resize(PRESET_THUMBNAIL_SIZE, PRESET_THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: PRESET_THUMBNAIL_QUALITY })
+    .toBuffer()
+}
+
+export function createPreset(content: PresetContent, thumbnail?: Buffer): Promise<Preset> {
+  return getPresetStore().create(randomUUID(), content, thumbnail, new Date().toISOString())
+}
+
+// Saves the changes as a new version; earlier versions stay available
+export function updatePreset(id: string, changes: PresetChanges): Promise<Preset | undefined> {
+  return getPresetStore().update(id, changes, new Date().toISOString())
+}
+
+export function getPreset(id: string, version?: number): Promise<Preset | undefined> {
+  return getPresetStore().get(id, version)
+}
+
+export function listPresetVersions(id: string): Promise<Preset[]> {
+  return getPresetStore().listVersions(id)
+}
+
+export function searchPresets(query: PresetQuery): Promise<{ presets: Preset[]; total: number }> {
+  return getPresetStore().search(query)
+}
+
+export function getPresetThumbnail(id: string, version?: number): Promise<Buffer | undefined> {
+  return getPresetStore().getThumbnail(id, version)
+}
+
+export function deletePreset(id: string): Promise<boolean> {
+  return getPresetStore().delete(id)
+}
+
+export function getPresetFilename(preset: Preset, extension: string): string {
+  return sanitizeDownloadName(`${preset.name}.${extension}`)
+}
+
+export function renderPresetXMP(preset: Preset): string {
+  return generateXMPCRS(getPresetFilename(preset, "xmp"), preset.properties)
+}
+
+// Sampled on the worker pool; aborting `signal` cancels it
+export async function renderPresetCube(preset: Preset, signal?: AbortSignal): Promise<string> {
+  const { content } = await runAnalysisTask("lut", [preset.properties, getPresetFilename(preset, "cube"), "cube"], {
+    signal,
+  })
+  return String(content)
+}
+
+// Preset state plus the URLs of its history and downloads; links of an earlier version stay on that version
+export function createPresetResponse(preset: Preset, options: { latest?: boolean } = {}) {
+  const base = `/api/presets/${preset.id}`
+  const query = options.latest === false ? `?version=${preset.version}` : ""
+  return {
+    ...preset,
+    links: {
+      self: `${base}${query}`,
+      versions: `${base}/versions`,
+      xmp: `${base}/xmp${query}`,
+      cube: `${base}/cube${query}`,
+      ...(preset.hasThumbnail ? { thumbnail: `${base}/thumbnail${query}` } : {}),
+    },
+  }
+}
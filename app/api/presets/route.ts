@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server"
+import { PRESET_SETTINGS_FIELDS, readPresetSettings, readPresetThumbnail } from "./preset-input"
+import { createPreset, createPresetProperties, createPresetResponse, searchPresets } from "./presets-core"
+import { validatePresetFields, validatePresetQuery } from "./validator"
+import { createWorkerErrorResponse } from "../shared/response"
+
+// Save a preset: name, optional tags, notes and thumbnail, and its settings as properties, xmp or image
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData()
+
+    // Validate name, tags and notes
+    const fieldsValidation = validatePresetFields(formData, true)
+    if (!fieldsValidation.isValid) {
+      return NextResponse.json({ error: fieldsValidation.error }, { status: 400 })
+    }
+
+    // Read the settings, analyzing the image when that is how they were sent
+    const settingsResult = await readPresetSettings(formData, request.signal)
+    if (settingsResult.error !== undefined) {
+      const { error, issues } = settingsResult
+      return NextResponse.json({ error, ...(issues ? { issues } : {}) }, { status: 400 })
+    }
+    if (!settingsResult.settings) {
+      return NextResponse.json(
+        { error: `Preset settings are required. Send one of: ${PRESET_SETTINGS_FIELDS.join(", ")}` },
+        { status: 400 }
+      )
+    }
+
+    const thumbnailResult = await readPresetThumbnail(formData, settingsResult.image)
+    if (thumbnailResult.error !== undefined) {
+      return NextResponse.json({ error: thumbnailResult.error }, { status: 400 })
+    }
+
+    const { name = "", tags = [], notes = "" } = fieldsValidation.fields!
+    const preset = await createPreset(
+      { name, tags, notes, properties: createPresetProperties(settingsResult.settings) },
+      thumbnailResult.thumbnail
+    )
+    const body = createPresetResponse(preset)
+    return NextResponse.json(body, { status: 201, headers: { Location: body.links.self } })
+  } catch (error) {
+    const workerErrorResponse = createWorkerErrorResponse(error)
+    if (workerErrorResponse) return workerErrorResponse
+
+    console.error("Error saving preset:", error)
+    return NextResponse.json({ error: "Failed to save preset" }, { status: 500 })
+  }
+}
+
+// List the latest version of every preset matching the filters, most recently updated first
+export async function GET(request: Request) {
+  try {
+    const queryValidation = validatePresetQuery(new URL(request.url).searchParams)
+    if (!queryValidation.isValid) {
+      return NextResponse.json({ error: queryValidation.error }, { status: 400 })
+    }
+
+    const query = queryValidation.query!
+    const { presets, total } = await searchPresets(query)
+    return NextResponse.json({
+      presets: presets.map((preset) => createPresetResponse(preset)),
+      total,
+      limit: query.limit,
+      offset: query.offset,
+    })
+  } catch (error) {
+    console.error("Error listing presets:", error)
+    return NextResponse.json({ error: "Failed to list presets" }, { status: 500 })
+  }
+}
@@ -0,0 +1,56 @@
+import { RANGE_OPERATORS } from "./constants"
+import { ImageProperties } from "../shared/types"
+
+// What a user saves; every update stores a new version of it
+export interface PresetContent {
+  name: string
+  tags: string[]
+  notes: string
+  properties: ImageProperties
+}
+
+export interface Preset extends PresetContent {
+  id: string
+  version: number
+  hasThumbnail: boolean
+  createdAt: string // When the first version was saved
+  updatedAt: string // When this version was saved
+}
+
+export interface PresetChanges extends Partial<PresetContent> {
+  thumbnail?: Buffer // Carried over from the previous version when omitted
+}
+
+export type RangeOperator = (typeof RANGE_OPERATORS)[number]
+
+// A numeric property compared against a value, e.g. temperature > 20
+export interface RangeFilter {
+  property: string
+  operator: RangeOperator
+  value: number
+}
+
+export interface PresetQuery {
+  tags: string[] // Presets must carry every one of these
+  cameraProfile?: string
+  toneCurveName?: string
+  search?: string // Matched against name and notes
+  ranges: RangeFilter[]
+  limit: number
+  offset: number
+}
+
+/**
+ * Where presets and their version history live. Queries only ever see the latest version of each preset.
+ */
+export interface PresetStore {
+  create(id: string, content: PresetContent, thumbnail: Buffer | undefined, now: string): Promise<Preset>
+  // Save the changes as the next version; resolves with undefined when there is no such preset
+  update(id: string, changes: PresetChanges, now: string): Promise<Preset | undefined>
+  // The latest version unless `version` is given
+  get(id: string, version?: number): Promise<Preset | undefined>
+  listVersions(id: string): Promise<Preset[]>
+  search(query: PresetQuery): Promise<{ presets: Preset[]; total: number }>
+  getThumbnail(id: string, version?: number): Promise<Buffer | undefined>
+  delete(id: string): Promise<boolean>
+}
@@ -0,0 +1,175 @@
+import { z } from "zod"
+import {
+  DEFAULT_PRESET_PAGE_SIZE,
+  MAX_PRESET_PAGE_SIZE,
+  MAX_PRESET_TAGS,
+  PRESET_NAME_MAX_LENGTH,
+  PRESET_NOTES_MAX_LENGTH,
+  PRESET_TAG_MAX_LENGTH,
+  RANGE_OPERATORS,
+} from "./constants"
+import { PresetQuery, RangeFilter, RangeOperator } from "./types"
+import { CRS_PROPERTY_MAP, CRSProperty, ImageProperties } from "../shared/types"
+import { CRSValuesSchema, ValidationResult } from "../shared/validator"
+import { getCRSPropertyKind } from "../shared/xml-parser"
+
+const TAG_PATTERN = /^\w[\w -]*$/
+
+// Tags are compared case-insensitively, so they are stored lowercased
+const TagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1)
+  .max(PRESET_TAG_MAX_LENGTH, `tags must be at most ${PRESET_TAG_MAX_LENGTH} characters`)
+  .regex(TAG_PATTERN, "tags may only contain letters, digits, spaces, hyphens and underscores")
+
+export const PresetFieldsSchema = z.object({
+  name: z.string().trim().min(1, "name must not be empty").max(PRESET_NAME_MAX_LENGTH).optional(),
+  tags: z
+    .array(TagSchema)
+    .transform((tags) => Array.from(new Set(tags)))
+    .pipe(z.array(z.string()).max(MAX_PRESET_TAGS, `at most ${MAX_PRESET_TAGS} tags are allowed`))
+    .optional(),
+  notes: z.string().trim().max(PRESET_NOTES_MAX_LENGTH).optional(),
+})
+
+export type PresetFields = z.infer<typeof PresetFieldsSchema>
+
+export type PresetFieldsValidationResult = ValidationResult & {
+  fields?: PresetFields
+}
+
+function formatIssue(issue: z.ZodIssue): string {
+  return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+}
+
+// Tags may be sent as repeated fields, comma-separated, or both
+function readTags(formData: FormData): string[] | undefined {
+  const values = formData.getAll("tags").filter((value): value is string => typeof value === "string")
+  if (values.length === 0) return undefined
+  return values.flatMap((value) => value.split(",")).filter((tag) => tag.trim())
+}
+
+/**
+ * Validate the descriptive fields of a preset (name, tags, notes). With `requireName`, as when saving a new
+ * preset, the name must be present; otherwise every field is optional.
+ */
+export function validatePresetFields(formData: FormData, requireName: boolean): PresetFieldsValidationResult {
+  const read = (name: string) => {
+    const value = formData.get(name)
+    return typeof value === "string" ? value : undefined
+  }
+
+  const result = PresetFieldsSchema.safeParse({ name: read("name"), tags: readTags(formData), notes: read("notes") })
+  if (!result.success) {
+    return { isValid: false, error: `Invalid preset: ${formatIssue(result.error.issues[0]!)}` }
+  }
+  if (requireName && !result.data.name) {
+    return { isValid: false, error: "Invalid preset: name is required" }
+  }
+  return { isValid: true, fields: result.data }
+}
+
+export type PresetPropertiesValidationResult = ValidationResult & {
+  properties?: Partial<ImageProperties>
+}
+
+/**
+ * Validate settings sent as JSON, keyed like the `properties` of an extraction result. Any subset may be
+ * given; each value is checked against its Lightroom range.
+ */
+export function validatePresetProperties(value: string): PresetPropertiesValidationResult {
+  let json: unknown
+  try {
+    json = JSON.parse(value)
+  } catch {
+    return { isValid: false, error: "Invalid properties: not valid JSON" }
+  }
+
+  const result = CRSValuesSchema.safeParse(json)
+  if (!result.success) {
+    return { isValid: false, error: `Invalid properties: ${formatIssue(result.error.issues[0]!)}` }
+  }
+  return { isValid: true, properties: result.data as Partial<ImageProperties> }
+}
+
+const RANGE_FILTER_PATTERN = new RegExp(
+  `^\\s*(\\w+)\\s*(${RANGE_OPERATORS.join("|")})\\s*([+-]?(?:\\d+(?:\\.\\d*)?|\\.\\d+))\\s*$`
+)
+
+// A numeric property compared with a number, e.g. "temperature>20" or "exposure <= 0.5"
+export function parseRangeFilter(value: string): RangeFilter | undefined {
+  const match = RANGE_FILTER_PATTERN.exec(value)
+  if (!match) return undefined
+
+  const [, property = "", operator, number] = match
+  if (!(property in CRS_PROPERTY_MAP) || getCRSPropertyKind(property as CRSProperty) !== "number") return undefined
+  return { property, operator: operator as RangeOperator, value: Number(number) }
+}
+
+const PresetQuerySchema = z.object({
+  tag: z.array(TagSchema),
+  cameraProfile: z.string().trim().min(1).max(200).optional(),
+  toneCurveName: z.string().trim().min(1).max(200).optional(),
+  q: z.string().trim().min(1).max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PRESET_PAGE_SIZE).default(DEFAULT_PRESET_PAGE_SIZE),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+export type PresetQueryValidationResult = ValidationResult & {
+  query?: PresetQuery
+}
+
+/**
+ * Validate the filters of GET /api/presets: repeated `tag`, `cameraProfile`, `toneCurveName`, `q` for text
+ * search, repeated `filter` ranges such as `temperature>20`, and `limit`/`offset` paging
+ */
+export function validatePresetQuery(searchParams: URLSearchParams): PresetQueryValidationResult {
+  const result = PresetQuerySchema.safeParse({
+    tag: searchParams.getAll("tag"),
+    cameraProfile: searchParams.get("cameraProfile") ?? undefined,
+    toneCurveName: searchParams.get("toneCurveName") ?? undefined,
+    q: searchParams.get("q") ?? undefined,
+    limit: searchParams.get("limit") ?? undefined,
+    offset: searchParams.get("offset") ?? undefined,
+  })
+  if (!result.success) {
+    return { isValid: false, error: `Invalid query: ${formatIssue(result.error.issues[0]!)}` }
+  }
+
+  const ranges: RangeFilter[] = []
+  for (const value of searchParams.getAll("filter")) {
+    const range = parseRangeFilter(value)
+    if (!range) {
+      const operators = RANGE_OPERATORS.join(", ")
+      return {
+        isValid: false,
+        error: `Invalid filter "${value}". Use a numeric property, an operator (${operators}) and a number, e.g. temperature>20`,
+      }
+    }
+    ranges.push(range)
+  }
+
+  const { tag, q, ...rest } = result.data
+  return { isValid: true, query: { ...rest, tags: tag, search: q, ranges } }
+}
+
+export type PresetVersionValidationResult = ValidationResult & {
+  version?: number
+}
+
+// `?version=` selects an earlier version; without it the latest is used
+export function validatePresetVersion(value: string | null): PresetVersionValidationResult {
+  if (value === null) return { isValid: true }
+  const result = z.coerce.number().int().min(1).safeParse(value)
+  if (!result.success) {
+    return { isValid: false, error: "Invalid version. Versions are whole numbers starting at 1" }
+  }
+  return { isValid: true, version: result.data }
+}
+
+// Preset ids are UUIDs; anything else cannot name a preset
+export function isValidPresetId(id: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)
+}
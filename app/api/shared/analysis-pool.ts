@@ -0,0 +1,36 @@
+import os from "os"
+import { Worker } from "worker_threads"
+import { env } from "env.mjs"
+import type { AnalysisTasks } from "./analysis-worker"
+import { spawnTempFileWorker } from "./file-manager"
+import { getProcessSingleton } from "./process-singleton"
+import { createWorkerPool, WorkerPool, WorkerTaskOptions } from "./worker-pool"
+
+// Leave one core for the request thread unless the pool size is configured explicitly
+function getAnalysisPool(): WorkerPool {
+  return getProcessSingleton("analysisPool", () =>
+    createWorkerPool(
+      // Extraction writes temp files, so workers draw on this process's temp storage quota
+      () =>
+        spawnTempFileWorker(
+          (workerData) => new Worker(new URL("./analysis-worker.ts", import.meta.url), { workerData })
+        ),
+      {
+        size: env.WORKER_POOL_SIZE ?? Math.max(1, os.cpus().length - 1),
+        taskTimeout: env.WORKER_TASK_TIMEOUT,
+      }
+    )
+  )
+}
+
+/**
+ * Run an extraction or rendering task on the shared analysis pool. Pass the request's signal so the
+ * work is cancelled when the client disconnects.
+ */
+export function runAnalysisTask<K extends keyof AnalysisTasks>(
+  task: K,
+  args: Parameters<AnalysisTasks[K]>,
+  options?: WorkerTaskOptions
+): ReturnType<AnalysisTasks[K]> {
+  return getAnalysisPool().run(task, args, options) as ReturnType<AnalysisTasks[K]>
+}
@@ -0,0 +1,24 @@
+import { isMainThread } from "worker_threads"
+import { reportWorkerProgress, serveWorkerTasks } from "./worker-pool"
+import { applyXMPToImage } from "../apply-xmp/apply-xmp-core"
+import { extractXMPCubeFromImage, generateLUT } from "../extract-xmp-cube/extract-xmp-cube-core"
+import { extractPresetFromPair } from "../extract-xmp-cube/pair-analysis"
+
+type ExtractArgs = Parameters<typeof extractXMPCubeFromImage>
+type ApplyArgs = Parameters<typeof applyXMPToImage>
+
+// CPU-bound entry points that run off the request thread; stage changes are reported as task progress
+export const ANALYSIS_TASKS = {
+  extract: (buffer: ExtractArgs[0], filename: ExtractArgs[1], lutOptions?: ExtractArgs[2], refine?: ExtractArgs[3]) =>
+    extractXMPCubeFromImage(buffer, filename, lutOptions, refine, reportWorkerProgress),
+  pair: extractPresetFromPair,
+  lut: generateLUT,
+  apply: (inputBuffer: ApplyArgs[0], xmpString: ApplyArgs[1]) =>
+    applyXMPToImage(inputBuffer, xmpString, reportWorkerProgress),
+}
+
+export type AnalysisTasks = typeof ANALYSIS_TASKS
+
+if (!isMainThread) {
+  serveWorkerTasks(ANALYSIS_TASKS)
+}
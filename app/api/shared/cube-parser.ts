@@ -0,0 +1,134 @@
+import { CubeLUT } from "./types"
+
+type Triplet = [number, number, number]
+
+const MAX_1D_SIZE = 65536
+const MAX_3D_SIZE = 256
+
+function parseNumbers(tokens: string[], count: number, keyword: string, lineNumber: number): number[] {
+  const values = tokens.slice(0, count).map(Number)
+  if (values.length !== count || values.some((v) => !Number.isFinite(v))) {
+    throw new Error(`Invalid CUBE file: ${keyword} on line ${lineNumber} expects ${count} numeric values`)
+  }
+  return values
+}
+
+function parseSize(tokens: string[], max: number, keyword: string, lineNumber: number): number {
+  const [size] = parseNumbers(tokens, 1, keyword, lineNumber)
+  if (!Number.isInteger(size) || size! < 2 || size! > max) {
+    throw new Error(`Invalid CUBE file: ${keyword} on line ${lineNumber} must be an integer between 2 and ${max}`)
+  }
+  return size!
+}
+
+function validateDomain(domainMin: Triplet, domainMax: Triplet, label: string): void {
+  if (domainMin.some((min, i) => min >= domainMax[i]!)) {
+    throw new Error(`Invalid CUBE file: ${label} minimum must be below its maximum on every channel`)
+  }
+}
+
+/**
+ * Parse an Adobe/Resolve .cube file containing a 1D LUT, a 3D LUT, or a 1D shaper followed by a 3D LUT
+ */
+export function parseCubeLUT(content: string): CubeLUT {
+  let title: string | undefined
+  let size1D: number | undefined
+  let size3D: number | undefined
+  let domainMin: Triplet = [0, 0, 0]
+  let domainMax: Triplet = [1, 1, 1]
+  let range1D: [number, number] | undefined
+  let range3D: [number, number] | undefined
+  const values: number[] = []
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const lineNumber = index + 1
+    const trimmed = rawLine.trim()
+    if (!trimmed || trimmed.startsWith("#")) return
+
+    // Titles may legitimately contain "#", so only strip trailing comments elsewhere
+    const line = /^TITLE\s/i.test(trimmed) ? trimmed : trimmed.replace(/#.*$/, "").trim()
+
+    const [keyword = "", ...tokens] = line.split(/\s+/)
+
+    // Data rows start with a number; everything else is a keyword
+    if (/^[-+.\d]/.test(keyword)) {
+      values.push(...parseNumbers([keyword, ...tokens], 3, "Data row", lineNumber))
+      return
+    }
+
+    if (values.length > 0) {
+      throw new Error(`Invalid CUBE file: keyword ${keyword} on line ${lineNumber} appears after LUT data`)
+    }
+
+    switch (keyword.toUpperCase()) {
+      case "TITLE": {
+        const match = line.match(/^TITLE\s+"(.*)"\s*$/i)
+        title = match ? match[1] : tokens.join(" ")
+        break
+      }
+      case "LUT_1D_SIZE":
+        size1D = parseSize(tokens, MAX_1D_SIZE, keyword, lineNumber)
+        break
+      case "LUT_3D_SIZE":
+        size3D = parseSize(tokens, MAX_3D_SIZE, keyword, lineNumber)
+        break
+      case "DOMAIN_MIN":
+        domainMin = parseNumbers(tokens, 3, keyword, lineNumber) as Triplet
+        break
+      case "DOMAIN_MAX":
+        domainMax = parseNumbers(tokens, 3, keyword, lineNumber) as Triplet
+        break
+      case "LUT_1D_INPUT_RANGE":
+        range1D = parseNumbers(tokens, 2, keyword, lineNumber) as [number, number]
+        break
+      case "LUT_3D_INPUT_RANGE":
+        range3D = parseNumbers(tokens, 2, keyword, lineNumber) as [number, number]
+        break
+      default:
+        // Unknown keywords are vendor extensions; ignore them like Resolve does
+        console.warn(`Ignoring unknown CUBE keyword ${keyword} on line ${lineNumber}`)
+    }
+  })
+
+  if (!size1D && !size3D) {
+    throw new Error("Invalid CUBE file: missing LUT_1D_SIZE or LUT_3D_SIZE")
+  }
+
+  const entries1D = size1D ?? 0
+  const entries3D = size3D ? size3D * size3D * size3D : 0
+  const expectedValues = (entries1D + entries3D) * 3
+  if (values.length !== expectedValues) {
+    throw new Error(
+      `Invalid CUBE file: expected ${entries1D + entries3D} data rows but found ${Math.floor(values.length / 3)}`
+    )
+  }
+
+  const lut: CubeLUT = { title }
+
+  // When both tables are present the 1D shaper comes first
+  if (size1D) {
+    const lutDomainMin: Triplet = range1D ? [range1D[0], range1D[0], range1D[0]] : domainMin
+    const lutDomainMax: Triplet = range1D ? [range1D[1], range1D[1], range1D[1]] : domainMax
+    validateDomain(lutDomainMin, lutDomainMax, range1D ? "LUT_1D_INPUT_RANGE" : "DOMAIN")
+    lut.lut1D = {
+      size: size1D,
+      domainMin: lutDomainMin,
+      domainMax: lutDomainMax,
+      data: Float32Array.from(values.slice(0, entries1D * 3)),
+    }
+  }
+
+  if (size3D) {
+    const lutDomainMin: Triplet = range3D ? [range3D[0], range3D[0], range3D[0]] : domainMin
+    const lutDomainMax: Triplet = range3D ? [range3D[1], range3D[1], range3D[1]] : domainMax
+    validateDomain(lutDomainMin, lutDomainMax, range3D ? "LUT_3D_INPUT_RANGE" : "DOMAIN")
+    lut.lut3D = {
+      size: size3D,
+      domainMin: lutDomainMin,
+      domainMax: lutDomainMax,
+      data: Float32Array.from(values.slice(entries1D * 3)),
+    }
+  }
+
+  return lut
+}
@@ -1,37 +1,342 @@
-import { mkdtemp, rm, writeFile } from "fs/promises"
+import { randomUUID } from "crypto"
+import { mkdtemp, readdir, rm, stat, writeFile } from "fs/promises"
 import os from "os"
 import path from "path"
+import { isMainThread, threadId, Worker, workerData } from "worker_threads"
+import { env } from "env.mjs"
+import { getProcessSingleton } from "./process-singleton"
+import { createS3StorageAdapter } from "./s3-storage"
+import {
+  createContentKey,
+  createLocalStorageAdapter,
+  createSigningSecret,
+  deleteObjectsStoredBefore,
+  StorageAdapter,
+  StoredObject,
+  verifyLocalDownload,
+} from "./storage"
 
-export interface ProcessedFiles {
-  imagePath: string
-  xmpPath: string
-  tmpDir: string
+// Every temp dir this app creates starts with this, followed by the owning process and thread ids
+export const TEMP_DIR_PREFIX = "image-analysis-"
+
+const MAX_FILENAME_LENGTH = 100
+
+interface TempDirRegistry {
+  // Bytes written to each temp dir this thread has active
+  active: Map<string, number>
+  // Live worker threads started with spawnTempFileWorker
+  workers: Set<number>
+  sweeper?: ReturnType<typeof setInterval>
+}
+
+function getTempDirRegistry(): TempDirRegistry {
+  return getProcessSingleton<TempDirRegistry>("tempDirs", () => ({ active: new Map(), workers: new Set() }))
+}
+
+// Bytes of temporary storage in use: `total` across the process and `own` by this thread. Both live in shared
+// memory, since every worker thread has its own globalThis but must count against the same quota.
+interface TempUsage {
+  total: BigInt64Array
+  own: BigInt64Array
 }
 
-export async function saveUploadedImage(image: File): Promise<ProcessedFiles> {
-  // Create a temporary directory for processing
-  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "image-analysis-"))
+// The workerData spawnTempFileWorker passes, through which a worker reaches its parent's counters
+export interface TempWorkerData {
+  tempTotal: SharedArrayBuffer
+  tempOwn: SharedArrayBuffer
+}
 
-  // Save the uploaded image
-  const bytes = await image.arrayBuffer()
-  const buffer = Buffer.from(bytes)
-  const imagePath = path.join(tmpDir, image.name)
-  await writeFile(imagePath, buffer)
+function createCounter(): SharedArrayBuffer {
+  return new SharedArrayBuffer(BigInt64Array.BYTES_PER_ELEMENT)
+}
 
-  // Define XMP path
-  const xmpPath = path.join(tmpDir, `${path.parse(image.name).name}.xmp`)
+function getTempUsage(): TempUsage {
+  return getProcessSingleton("tempUsage", () => {
+    const data = (isMainThread ? undefined : workerData) as Partial<TempWorkerData> | undefined
+    return {
+      total: new BigInt64Array(data?.tempTotal ?? createCounter()),
+      own: new BigInt64Array(data?.tempOwn ?? createCounter()),
+    }
+  })
+}
 
-  return { imagePath, xmpPath, tmpDir }
+function releaseTempUsage(usage: TempUsage, bytes: number): void {
+  Atomics.sub(usage.total, 0, BigInt(bytes))
+  Atomics.sub(usage.own, 0, BigInt(bytes))
 }
 
-export async function saveXMPFile(xmpPath: string, xmpContent: string): Promise<void> {
-  await writeFile(xmpPath, xmpContent)
+export interface StoredArtifact {
+  key: string
+  url: string // Signed download URL, valid until expiresAt
+  expiresAt: string
+}
+
+interface ArtifactStorage {
+  adapter: StorageAdapter
+  // Signs the download URLs of the filesystem driver
+  secret: string
+}
+
+function createStorageAdapter(secret: string): StorageAdapter {
+  if (env.STORAGE_DRIVER === "filesystem") {
+    return createLocalStorageAdapter(env.STORAGE_DIR ?? path.join(os.tmpdir(), "ne-presets-artifacts"), secret)
+  }
+
+  if (!env.S3_BUCKET || !env.S3_ACCESS_KEY_ID || !env.S3_SECRET_ACCESS_KEY) {
+    throw new Error("STORAGE_DRIVER=s3 requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY")
+  }
+  return createS3StorageAdapter({
+    bucket: env.S3_BUCKET,
+    region: env.S3_REGION,
+    accessKeyId: env.S3_ACCESS_KEY_ID,
+    secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+    endpoint: env.S3_ENDPOINT,
+    forcePathStyle: env.S3_FORCE_PATH_STYLE,
+    prefix: env.S3_PREFIX,
+  })
+}
+
+function getArtifactStorage(): ArtifactStorage {
+  return getProcessSingleton("storage", () => {
+    const secret = createSigningSecret(env.STORAGE_SIGNING_SECRET)
+    return { adapter: createStorageAdapter(secret), secret }
+  })
+}
+
+function createQuotaExceededError(message: string): DOMException {
+  return new DOMException(message, "QuotaExceededError")
+}
+
+export function isQuotaExceededError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "QuotaExceededError"
+}
+
+/**
+ * Reduce a client-supplied filename to a safe single path segment: no directories, traversal, control or
+ * reserved characters, and a bounded length that keeps the extension. Returns `fallback` when nothing usable
+ * is left.
+ */
+export function sanitizeFilename(filename: string, fallback = generateFilename()): string {
+  const base = path.posix.basename(filename.replace(/\\/g, "/"))
+  const cleaned = base
+    .replace(/[\u0000-\u001f\u007f<>:"|?*]+/g, "_")
+    .replace(/^[.\s]+/, "")
+    .trim()
+  if (!cleaned) return fallback
+
+  const { name, ext } = path.parse(cleaned)
+  const extension = ext.slice(0, 16)
+  return `${name.slice(0, MAX_FILENAME_LENGTH - extension.length)}${extension}`
+}
+
+// A fresh name for files whose client-supplied name is missing or unusable
+export function generateFilename(extension = ""): string {
+  return `${randomUUID()}${extension && !extension.startsWith(".") ? `.${extension}` : extension}`
+}
+
+/**
+ * Create a tracked temp dir for one request. Remove it with cleanupTempFiles once the request is done;
+ * dirs left behind by a crashed process are removed by sweepOrphanedTempDirs.
+ */
+export async function createTempDir(): Promise<string> {
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), `${TEMP_DIR_PREFIX}${process.pid}-${threadId}-`))
+  getTempDirRegistry().active.set(tmpDir, 0)
+  return tmpDir
+}
+
+/**
+ * Write a file into a temp dir from createTempDir under a sanitized name, enforcing the per-request
+ * (TEMP_REQUEST_QUOTA) and process-wide (TEMP_GLOBAL_QUOTA) disk quotas. The process-wide quota covers worker
+ * threads started with spawnTempFileWorker. Throws a QuotaExceededError DOMException when either would be exceeded.
+ */
+export async function writeTempFile(tmpDir: string, filename: string, content: string | Buffer): Promise<string> {
+  const registry = getTempDirRegistry()
+  const used = registry.active.get(tmpDir)
+  if (used === undefined) {
+    throw new Error(`Not an active temp dir: ${tmpDir}`)
+  }
+
+  const size = typeof content === "string" ? Buffer.byteLength(content) : content.length
+  if (used + size > env.TEMP_REQUEST_QUOTA) {
+    throw createQuotaExceededError(
+      `Request would use ${used + size} bytes of temporary storage; the limit is ${env.TEMP_REQUEST_QUOTA}`
+    )
+  }
+
+  // Reserve the space before the write so concurrent requests, on any thread, cannot overshoot the quota together
+  const usage = getTempUsage()
+  if (Atomics.add(usage.total, 0, BigInt(size)) + BigInt(size) > BigInt(env.TEMP_GLOBAL_QUOTA)) {
+    Atomics.sub(usage.total, 0, BigInt(size))
+    throw createQuotaExceededError("Temporary storage is full, try again later")
+  }
+  Atomics.add(usage.own, 0, BigInt(size))
+  registry.active.set(tmpDir, used + size)
+
+  const filePath = path.join(tmpDir, sanitizeFilename(filename))
+  try {
+    await writeFile(filePath, content)
+  } catch (error) {
+    registry.active.set(tmpDir, (registry.active.get(tmpDir) ?? size) - size)
+    releaseTempUsage(usage, size)
+    throw error
+  }
+  return filePath
 }
 
 export async function cleanupTempFiles(tmpDir: string): Promise<void> {
+  const registry = getTempDirRegistry()
   try {
     await rm(tmpDir, { recursive: true, force: true })
+    releaseTempUsage(getTempUsage(), registry.active.get(tmpDir) ?? 0)
+    registry.active.delete(tmpDir)
   } catch (error) {
     console.error("Error cleaning up temporary directory:", error)
   }
 }
+
+/**
+ * Keep a generated file in artifact storage under its content-addressed key and return a signed URL to
+ * download it as `filename`. The artifact is retained for STORAGE_TTL milliseconds after it was last stored;
+ * the URL expires after STORAGE_URL_TTL, or sooner if the artifact does or the storage caps presigned URLs
+ * (S3 allows a week). `expiresAt` is when the URL actually stops working.
+ */
+export async function storeArtifact(
+  content: string | Buffer,
+  filename: string,
+  contentType: string
+): Promise<StoredArtifact> {
+  const { adapter } = getArtifactStorage()
+  const key = createContentKey(content, path.extname(filename))
+  await adapter.put(key, typeof content === "string" ? Buffer.from(content, "utf-8") : content, contentType)
+
+  const { url, expiresAt } = await adapter.getDownloadUrl(key, {
+    filename,
+    expiresIn: Math.min(env.STORAGE_URL_TTL, env.STORAGE_TTL),
+  })
+  return { key, url, expiresAt: expiresAt.toISOString() }
+}
+
+export function getArtifact(key: string): Promise<StoredObject | undefined> {
+  return getArtifactStorage().adapter.get(key)
+}
+
+// Only the filesystem driver serves downloads itself; S3 URLs go straight to the bucket
+export function verifyArtifactDownload(key: string, searchParams: URLSearchParams): boolean {
+  return env.STORAGE_DRIVER === "filesystem" && verifyLocalDownload(getArtifactStorage().secret, key, searchParams)
+}
+
+/**
+ * Delete artifacts not stored again within the last STORAGE_TTL milliseconds. Resolves with the number
+ * of artifacts removed.
+ */
+export function pruneExpiredArtifacts(): Promise<number> {
+  return deleteObjectsStoredBefore(getArtifactStorage().adapter, new Date(Date.now() - env.STORAGE_TTL))
+}
+
+/**
+ * Start a worker thread through `spawn`, handing it the workerData that makes its temp files count against
+ * this process's TEMP_GLOBAL_QUOTA. When the worker exits, even when terminated mid-task, the temp dirs it left
+ * behind are removed and their bytes returned to the quota. Worker threads that write temp files must be started
+ * this way, since the sweeper takes dirs of any other worker thread of this process for orphans.
+ */
+export function spawnTempFileWorker(spawn: (workerData: TempWorkerData) => Worker): Worker {
+  const tempOwn = createCounter()
+  const worker = spawn({ tempTotal: getTempUsage().total.buffer as SharedArrayBuffer, tempOwn })
+  const workerThreadId = worker.threadId
+  const { workers } = getTempDirRegistry()
+  workers.add(workerThreadId)
+
+  worker.once("exit", () => {
+    workers.delete(workerThreadId)
+    void removeWorkerTempDirs(workerThreadId, new BigInt64Array(tempOwn))
+  })
+  return worker
+}
+
+async function removeWorkerTempDirs(workerThreadId: number, own: BigInt64Array): Promise<void> {
+  const tmpRoot = os.tmpdir()
+  const prefix = `${TEMP_DIR_PREFIX}${process.pid}-${workerThreadId}-`
+  try {
+    const names = (await readdir(tmpRoot)).filter((name) => name.startsWith(prefix))
+    await Promise.all(names.map((name) => rm(path.join(tmpRoot, name), { recursive: true, force: true })))
+  } catch (error) {
+    console.error(`Error removing temporary directories of worker thread ${workerThreadId}:`, error)
+  }
+  // Whatever the worker had reserved and not released when it stopped
+  Atomics.sub(getTempUsage().total, 0, Atomics.exchange(own, 0, BigInt(0)))
+}
+
+// Whether a process with this id runs on this host
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === "EPERM"
+  }
+}
+
+/**
+ * Remove temp dirs nobody will clean up: those of processes that no longer run and of this process's worker
+ * threads that have exited, and any not in use by this process that are older than TEMP_DIR_MAX_AGE. Dirs of
+ * live worker threads are left to them. Resolves with the number of dirs removed.
+ */
+export async function sweepOrphanedTempDirs(): Promise<number> {
+  const { active, workers } = getTempDirRegistry()
+  const tmpRoot = os.tmpdir()
+  const cutoff = Date.now() - env.TEMP_DIR_MAX_AGE
+  let removed = 0
+
+  const entries = await readdir(tmpRoot, { withFileTypes: true })
+  for (const entry of entries) {
+    if (!entry.isDirectory() || !entry.name.startsWith(TEMP_DIR_PREFIX)) continue
+
+    const dir = path.join(tmpRoot, entry.name)
+    if (active.has(dir)) continue
+
+    const [pid = NaN, ownerThreadId = NaN] = entry.name.slice(TEMP_DIR_PREFIX.length).split("-").map(Number)
+    const ownWorker = pid === process.pid && ownerThreadId !== threadId
+    if (ownWorker && workers.has(ownerThreadId)) continue
+
+    try {
+      const ownerGone = ownWorker || (Number.isInteger(pid) && pid > 0 && pid !== process.pid && !isProcessAlive(pid))
+      if (ownerGone || (await stat(dir)).mtimeMs < cutoff) {
+        await rm(dir, { recursive: true, force: true })
+        removed++
+      }
+    } catch (error) {
+      console.error(`Error sweeping temporary directory ${dir}:`, error)
+    }
+  }
+
+  return removed
+}
+
+/**
+ * Sweep orphaned temp dirs and expired artifacts now and every TEMP_SWEEP_INTERVAL milliseconds. Only the
+ * main thread sweeps; calling this again is a no-op.
+ */
+export function startStorageSweeper(): void {
+  const registry = getTempDirRegistry()
+  if (!isMainThread || registry.sweeper) return
+
+  const sweep = () =>
+    Promise.all([
+      sweepOrphanedTempDirs()
+        .then((removed) => {
+          if (removed > 0) console.log(`Removed ${removed} orphaned temporary directories`)
+        })
+        .catch((error) => console.error("Error sweeping temporary directories:", error)),
+      pruneExpiredArtifacts()
+        .then((removed) => {
+          if (removed > 0) console.log(`Removed ${removed} expired artifacts`)
+        })
+        .catch((error) => console.error("Error pruning expired artifacts:", error)),
+    ])
+
+  registry.sweeper = setInterval(sweep, env.TEMP_SWEEP_INTERVAL)
+  // The sweeper must not keep the process alive on its own
+  registry.sweeper.unref()
+  void sweep()
+}
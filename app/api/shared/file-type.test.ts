@@ -0,0 +1,118 @@
+/** @jest-environment node */
+import { describe, expect, it } from "@jest/globals"
+import sharp from "sharp"
+import { DetectedImageType, detectImageType, isXMPContent } from "./file-type"
+
+type EncodedFormat = "jpeg" | "png" | "webp" | "tiff" | "avif"
+
+const ENCODED_TYPES: [EncodedFormat, DetectedImageType][] = [
+  ["jpeg", "image/jpeg"],
+  ["png", "image/png"],
+  ["webp", "image/webp"],
+  ["tiff", "image/tiff"],
+  ["avif", "image/avif"],
+]
+
+function encode(format: EncodedFormat): Promise<Buffer> {
+  return sharp({ create: { width: 8, height: 8, channels: 3, background: { r: 200, g: 120, b: 40 } } })
+    .toFormat(format)
+    .toBuffer()
+}
+
+// An ISO BMFF ftyp box with a major brand and compatible brands
+function ftyp(major: string, compatible: string[]): Uint8Array {
+  const brands = [major, "\0\0\0\0", ...compatible].join("")
+  const box = Buffer.alloc(8 + brands.length)
+  box.writeUInt32BE(box.length, 0)
+  box.write("ftyp", 4, "latin1")
+  box.write(brands, 8, "latin1")
+  return box
+}
+
+// A TIFF header whose first IFD holds the given tags
+function tiff(tags: number[], littleEndian = true): Uint8Array {
+  const bytes = Buffer.alloc(8 + 2 + tags.length * 12 + 4)
+  bytes.write(littleEndian ? "II" : "MM", 0, "latin1")
+  const writeUInt16 = (value: number, offset: number) =>
+    littleEndian ? bytes.writeUInt16LE(value, offset) : bytes.writeUInt16BE(value, offset)
+  const writeUInt32 = (value: number, offset: number) =>
+    littleEndian ? bytes.writeUInt32LE(value, offset) : bytes.writeUInt32BE(value, offset)
+
+  writeUInt16(42, 2)
+  writeUInt32(8, 4)
+  writeUInt16(tags.length, 8)
+  tags.forEach((tag, i) => writeUInt16(tag, 10 + i * 12))
+  return bytes
+}
+
+const IMAGE_WIDTH_TAG = 0x0100
+const DNG_VERSION_TAG = 0xc612
+
+describe("detectImageType", () => {
+  it.each(ENCODED_TYPES)("recognizes %s from its content", async (format, type) => {
+    expect(detectImageType(await encode(format))).toBe(type)
+  })
+
+  it("tells DNG from plain TIFF by the DNGVersion tag", () => {
+    expect(detectImageType(tiff([IMAGE_WIDTH_TAG, DNG_VERSION_TAG]))).toBe("image/x-adobe-dng")
+    expect(detectImageType(tiff([IMAGE_WIDTH_TAG, DNG_VERSION_TAG], false))).toBe("image/x-adobe-dng")
+    expect(detectImageType(tiff([IMAGE_WIDTH_TAG]))).toBe("image/tiff")
+    expect(detectImageType(tiff([IMAGE_WIDTH_TAG], false))).toBe("image/tiff")
+  })
+
+  it("treats a TIFF whose IFD lies past the sniffed bytes as plain TIFF", () => {
+    const header = Buffer.from([0x49, 0x49, 0x2a, 0x00, 0xff, 0xff, 0x00, 0x00])
+    expect(detectImageType(header)).toBe("image/tiff")
+  })
+
+  it("identifies HEIF-family files by their ftyp brands", () => {
+    expect(detectImageType(ftyp("heic", ["mif1", "heic"]))).toBe("image/heic")
+    expect(detectImageType(ftyp("mif1", ["heic"]))).toBe("image/heic")
+    expect(detectImageType(ftyp("mif1", ["miaf"]))).toBe("image/heif")
+    expect(detectImageType(ftyp("avif", ["mif1", "miaf"]))).toBe("image/avif")
+    expect(detectImageType(ftyp("isom", ["mp41"]))).toBeUndefined()
+  })
+
+  it("does not recognize other formats", () => {
+    expect(detectImageType(Buffer.from("GIF89a"))).toBeUndefined()
+    expect(detectImageType(Buffer.from("<?xml version='1.0'?><svg/>"))).toBeUndefined()
+    expect(detectImageType(Buffer.from("%PDF-1.7"))).toBeUndefined()
+  })
+
+  it("returns nothing for empty or truncated input", () => {
+    expect(detectImageType(new Uint8Array())).toBeUndefined()
+    expect(detectImageType(Buffer.from([0xff, 0xd8]))).toBeUndefined()
+    expect(detectImageType(Buffer.from("RIFF"))).toBeUndefined()
+  })
+})
+
+describe("isXMPContent", () => {
+  const xmp = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"/></x:xmpmeta>`
+
+  it("accepts an XMP packet with or without an xpacket wrapper", () => {
+    expect(isXMPContent(xmp)).toBe(true)
+    expect(isXMPContent(`<?xpacket begin="\ufeff" id="W5M0MpCehiHzreSzNTczkc9d"?>\n${xmp}\n<?xpacket end="w"?>`)).toBe(
+      true
+    )
+  })
+
+  it("accepts a bare rdf:RDF, a BOM and leading whitespace", () => {
+    const rdf = `<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"></rdf:RDF>`
+    expect(isXMPContent(rdf)).toBe(true)
+    expect(isXMPContent(`\ufeff\n  ${rdf}`)).toBe(true)
+  })
+
+  it("rejects XML without the XMP or RDF namespace", () => {
+    expect(isXMPContent(`<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg"/>`)).toBe(false)
+  })
+
+  it("rejects text that is not markup and binary content", () => {
+    expect(isXMPContent("adobe:ns:meta/")).toBe(false)
+    expect(isXMPContent(`<x:xmpmeta xmlns:x="adobe:ns:meta/">\u0000\u0001`)).toBe(false)
+    expect(isXMPContent("")).toBe(false)
+  })
+
+  it("only looks at the start of the file", () => {
+    expect(isXMPContent(`<data>${" ".repeat(8192)}adobe:ns:meta/</data>`)).toBe(false)
+  })
+})
@@ -0,0 +1,90 @@
+// MIME types detectUploadedImageType can report
+export const DETECTED_IMAGE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/tiff",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+  "image/avif",
+  "image/x-adobe-dng",
+] as const
+
+export type DetectedImageType = (typeof DETECTED_IMAGE_TYPES)[number]
+
+// Enough to hold the ISO BMFF ftyp box and a TIFF's first IFD in every file we have seen
+export const FILE_TYPE_SNIFF_LENGTH = 4096
+
+const DNG_VERSION_TAG = 0xc612
+
+const HEIC_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis"]
+const HEIF_BRANDS = ["mif1", "msf1"]
+const AVIF_BRANDS = ["avif", "avis"]
+
+const XMP_NAMESPACE_MARKERS = ["adobe:ns:meta/", "http://www.w3.org/1999/02/22-rdf-syntax-ns#"]
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, i) => bytes[offset + i] === byte)
+}
+
+function readASCII(bytes: Uint8Array, start: number, end: number): string {
+  return Buffer.from(bytes.subarray(start, end)).toString("latin1")
+}
+
+// DNG is a TIFF whose first IFD carries a DNGVersion tag
+function isDNG(bytes: Uint8Array): boolean {
+  if (bytes.length < 8) return false
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const littleEndian = bytes[0] === 0x49
+
+  const ifdOffset = view.getUint32(4, littleEndian)
+  if (ifdOffset + 2 > bytes.length) return false
+
+  const entryCount = view.getUint16(ifdOffset, littleEndian)
+  for (let i = 0; i < entryCount; i++) {
+    const entryOffset = ifdOffset + 2 + i * 12
+    if (entryOffset + 2 > bytes.length) return false
+    if (view.getUint16(entryOffset, littleEndian) === DNG_VERSION_TAG) return true
+  }
+  return false
+}
+
+// HEIF-family files are ISO BMFF containers identified by the brands in their leading ftyp box
+function detectISOBMFFType(bytes: Uint8Array): DetectedImageType | undefined {
+  if (bytes.length < 16 || readASCII(bytes, 4, 8) !== "ftyp") return undefined
+
+  const boxSize = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(0)
+  const brands = [readASCII(bytes, 8, 12)]
+  for (let offset = 16; offset + 4 <= Math.min(boxSize, bytes.length); offset += 4) {
+    brands.push(readASCII(bytes, offset, offset + 4))
+  }
+
+  if (brands.some((brand) => AVIF_BRANDS.includes(brand))) return "image/avif"
+  if (brands.some((brand) => HEIC_BRANDS.includes(brand))) return "image/heic"
+  if (brands.some((brand) => HEIF_BRANDS.includes(brand))) return "image/heif"
+  return undefined
+}
+
+/**
+ * Identify an image from its leading bytes (at least FILE_TYPE_SNIFF_LENGTH of them for TIFF/DNG),
+ * ignoring whatever name or MIME type the client sent
+ */
+export function detectImageType(bytes: Uint8Array): DetectedImageType | undefined {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg"
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png"
+  if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) {
+    return isDNG(bytes) ? "image/x-adobe-dng" : "image/tiff"
+  }
+  if (readASCII(bytes, 0, 4) === "RIFF" && readASCII(bytes, 8, 12) === "WEBP") return "image/webp"
+  return detectISOBMFFType(bytes)
+}
+
+/**
+ * Whether text looks like an XMP packet: XML markup (after an optional BOM) that declares the XMP or RDF
+ * namespace. Binary content is rejected outright.
+ */
+export function isXMPContent(text: string): boolean {
+  const head = text.slice(0, FILE_TYPE_SNIFF_LENGTH).replace(/^﻿/, "").trimStart()
+  if (!head.startsWith("<") || head.includes("\u0000")) return false
+  return XMP_NAMESPACE_MARKERS.some((marker) => head.includes(marker))
+}
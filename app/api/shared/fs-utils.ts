@@ -0,0 +1,13 @@
+import { randomBytes } from "crypto"
+import { rename, writeFile } from "fs/promises"
+
+export function isMissingFileError(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT"
+}
+
+// Write next to the target and rename, so readers never see a half-written file
+export async function writeFileAtomic(filePath: string, content: string | Buffer): Promise<void> {
+  const tmpPath = `${filePath}.${randomBytes(6).toString("hex")}.tmp`
+  await writeFile(tmpPath, content)
+  await rename(tmpPath, filePath)
+}
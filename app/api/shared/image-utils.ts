@@ -36,38 +36,242 @@ export function rgbToLab(r: number, g: number, b: number): LabColor {
   }
 }
 
-export function convertToneCurveToMatrix(curve: number[][] | undefined): [number, number, number] {
-  if (!curve || curve.length < 2) {
-    return [1, 0, 0] // Identity matrix for no adjustment
+/**
+ * CIEDE2000 colour difference between two Lab colours (Sharma, Wu and Dalal, 2005), with kL = kC = kH = 1
+ */
+export function calculateDeltaE2000(lab1: LabColor, lab2: LabColor): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const toDegrees = (radians: number) => (radians * 180) / Math.PI
+
+  const c1 = Math.hypot(lab1.a, lab1.b)
+  const c2 = Math.hypot(lab2.a, lab2.b)
+  const meanC = (c1 + c2) / 2
+  const g = 0.5 * (1 - Math.sqrt(meanC ** 7 / (meanC ** 7 + 25 ** 7)))
+
+  const a1 = lab1.a * (1 + g)
+  const a2 = lab2.a * (1 + g)
+  const c1Prime = Math.hypot(a1, lab1.b)
+  const c2Prime = Math.hypot(a2, lab2.b)
+  const h1 = c1Prime === 0 ? 0 : (toDegrees(Math.atan2(lab1.b, a1)) + 360) % 360
+  const h2 = c2Prime === 0 ? 0 : (toDegrees(Math.atan2(lab2.b, a2)) + 360) % 360
+
+  const deltaL = lab2.l - lab1.l
+  const deltaC = c2Prime - c1Prime
+  let deltaHue = 0
+  if (c1Prime * c2Prime !== 0) {
+    deltaHue = h2 - h1
+    if (deltaHue > 180) deltaHue -= 360
+    else if (deltaHue < -180) deltaHue += 360
+  }
+  const deltaH = 2 * Math.sqrt(c1Prime * c2Prime) * Math.sin(toRadians(deltaHue / 2))
+
+  const meanL = (lab1.l + lab2.l) / 2
+  const meanCPrime = (c1Prime + c2Prime) / 2
+  let meanH = h1 + h2
+  if (c1Prime * c2Prime !== 0) {
+    if (Math.abs(h1 - h2) <= 180) meanH = (h1 + h2) / 2
+    else meanH = h1 + h2 < 360 ? (h1 + h2 + 360) / 2 : (h1 + h2 - 360) / 2
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos(toRadians(meanH - 30)) +
+    0.24 * Math.cos(toRadians(2 * meanH)) +
+    0.32 * Math.cos(toRadians(3 * meanH + 6)) -
+    0.2 * Math.cos(toRadians(4 * meanH - 63))
+  const deltaTheta = 30 * Math.exp(-(((meanH - 275) / 25) ** 2))
+  const rC = 2 * Math.sqrt(meanCPrime ** 7 / (meanCPrime ** 7 + 25 ** 7))
+  const sL = 1 + (0.015 * (meanL - 50) ** 2) / Math.sqrt(20 + (meanL - 50) ** 2)
+  const sC = 1 + 0.045 * meanCPrime
+  const sH = 1 + 0.015 * meanCPrime * t
+  const rT = -Math.sin(toRadians(2 * deltaTheta)) * rC
+
+  return Math.sqrt((deltaL / sL) ** 2 + (deltaC / sC) ** 2 + (deltaH / sH) ** 2 + rT * (deltaC / sC) * (deltaH / sH))
+}
+
+function isValidCurvePoint(point: number[] | undefined): point is [number, number] {
+  return typeof point?.[0] === "number" && typeof point[1] === "number" && isFinite(point[0]) && isFinite(point[1])
+}
+
+/**
+ * Build a monotone cubic (Fritsch-Carlson) interpolator through tone curve control points in 0-255 space.
+ * Like Lightroom, the curve is flat outside the first and last control points.
+ */
+export function createMonotoneCurve(curve: number[][] | undefined): (x: number) => number {
+  // Sort, clamp and de-duplicate the control points, keeping the last output for repeated inputs
+  const byInput = new Map<number, number>()
+  for (const point of curve || []) {
+    if (!isValidCurvePoint(point)) continue
+    byInput.set(Math.max(0, Math.min(255, point[0])), Math.max(0, Math.min(255, point[1])))
+  }
+  const points = Array.from(byInput.entries()).sort((a, b) => a[0] - b[0])
+
+  if (points.length < 2) {
+    return (x) => x
   }
 
-  // Convert tone curve to a 3x3 matrix approximation
-  // This is a simplified conversion - in reality, we'd need more complex curve fitting
-  const firstPoint = curve[0]
-  const lastPoint = curve[curve.length - 1]
+  const xs = points.map(([x]) => x)
+  const ys = points.map(([, y]) => y)
+  const n = points.length
 
-  if (!firstPoint?.[0] || !firstPoint?.[1] || !lastPoint?.[0] || !lastPoint?.[1]) {
-    return [1, 0, 0] // Identity matrix for invalid points
+  // Secant slopes between neighbouring points
+  const deltas: number[] = []
+  for (let i = 0; i < n - 1; i++) {
+    deltas.push((ys[i + 1]! - ys[i]!) / (xs[i + 1]! - xs[i]!))
   }
 
-  const avgSlope = (lastPoint[1] - firstPoint[1]) / (lastPoint[0] - firstPoint[0])
-  return [avgSlope, 0, 0]
+  // Initial tangents, zeroed at local extrema to preserve monotonicity
+  const tangents: number[] = [deltas[0]!]
+  for (let i = 1; i < n - 1; i++) {
+    const prev = deltas[i - 1]!
+    const next = deltas[i]!
+    tangents.push(prev * next <= 0 ? 0 : (prev + next) / 2)
+  }
+  tangents.push(deltas[n - 2]!)
+
+  // Limit tangents so no segment overshoots
+  for (let i = 0; i < n - 1; i++) {
+    const delta = deltas[i]!
+    if (delta === 0) {
+      tangents[i] = 0
+      tangents[i + 1] = 0
+      continue
+    }
+    const alpha = tangents[i]! / delta
+    const beta = tangents[i + 1]! / delta
+    const magnitude = alpha * alpha + beta * beta
+    if (magnitude > 9) {
+      const tau = 3 / Math.sqrt(magnitude)
+      tangents[i] = tau * alpha * delta
+      tangents[i + 1] = tau * beta * delta
+    }
+  }
+
+  return (x: number) => {
+    if (x <= xs[0]!) return ys[0]!
+    if (x >= xs[n - 1]!) return ys[n - 1]!
+
+    let i = 0
+    while (i < n - 2 && x > xs[i + 1]!) i++
+
+    const h = xs[i + 1]! - xs[i]!
+    const t = (x - xs[i]!) / h
+    const t2 = t * t
+    const t3 = t2 * t
+
+    // Cubic Hermite basis
+    return (
+      (2 * t3 - 3 * t2 + 1) * ys[i]! +
+      (t3 - 2 * t2 + t) * h * tangents[i]! +
+      (-2 * t3 + 3 * t2) * ys[i + 1]! +
+      (t3 - t2) * h * tangents[i + 1]!
+    )
+  }
 }
 
-// Add shared matrix operations
-export function createShadowHighlightMatrix(shadows: number, highlights: number): Matrix3x3 {
-  // Create a matrix that enhances shadows and highlights separately
-  const shadowGain = Math.pow(2, shadows / 100)
-  const highlightGain = Math.pow(2, -highlights / 100)
-  const midtoneBalance = 1 - (shadowGain + highlightGain) / 2
+/**
+ * Apply the master tone curve followed by the per-channel curves to interleaved 8-bit pixel data in place
+ */
+export function applyToneCurvesToPixels(
+  pixels: Buffer,
+  channels: number,
+  curves: { master?: number[][]; red?: number[][]; green?: number[][]; blue?: number[][] }
+): void {
+  const master = createMonotoneCurve(curves.master)
+  const channelCurves = [curves.red, curves.green, curves.blue].map(createMonotoneCurve)
 
+  // Compose master and channel curves in floating point so no precision is lost between them
+  const tables = channelCurves.map((channelCurve) => {
+    const table = new Uint8Array(256)
+    for (let v = 0; v < 256; v++) {
+      table[v] = Math.round(Math.max(0, Math.min(255, channelCurve(master(v)))))
+    }
+    return table
+  })
+
+  const [redTable, greenTable, blueTable] = tables as [Uint8Array, Uint8Array, Uint8Array]
+  for (let i = 0; i < pixels.length; i += channels) {
+    pixels[i] = redTable[pixels[i]!]!
+    pixels[i + 1] = greenTable[pixels[i + 1]!]!
+    pixels[i + 2] = blueTable[pixels[i + 2]!]!
+  }
+}
+
+// Lightroom writes Temperature in Kelvin for raw files and as a relative −100..+100 shift for rendered images
+export const KELVIN_TEMPERATURE_RANGE = { min: 2000, max: 50000 }
+
+// Where the Kelvin and relative scales meet: daylight, which the extractor also reads as no colour cast
+const NEUTRAL_TEMPERATURE = 5500
+
+// Mireds per step of the relative scale, so 2000 K lands past −100 and 50000 K near +80
+const MIREDS_PER_TEMPERATURE_STEP = 2
+
+export function isKelvinTemperature(temperature: number): boolean {
+  return temperature >= KELVIN_TEMPERATURE_RANGE.min
+}
+
+/**
+ * Express a Temperature on the relative scale the renderer works in. Kelvin values are measured from daylight
+ * in mireds, where equal steps look like equal colour shifts; as in Lightroom, a higher Kelvin value is warmer.
+ */
+export function toRelativeTemperature(temperature: number): number {
+  if (!isKelvinTemperature(temperature)) return temperature
+  const mireds = 1e6 / NEUTRAL_TEMPERATURE - 1e6 / temperature
+  return Math.max(-100, Math.min(100, mireds / MIREDS_PER_TEMPERATURE_STEP))
+}
+
+// Channel gain per step of the relative Temperature and Tint sliders
+const WHITE_BALANCE_STEP_GAIN = 1.0075
+
+/**
+ * Per-channel gains a Temperature and Tint render as. Warming boosts red and cooling blue; a positive tint
+ * boosts green and a negative one red and blue, so white balance never darkens a channel.
+ */
+export function calculateWhiteBalanceGains(temperature: number, tint: number): [number, number, number] {
+  const temperatureGain = Math.pow(WHITE_BALANCE_STEP_GAIN, toRelativeTemperature(temperature))
+  const tintGain = Math.pow(WHITE_BALANCE_STEP_GAIN, tint)
+  const magenta = Math.max(1 / tintGain, 1)
+  return [Math.max(temperatureGain, 1) * magenta, Math.max(tintGain, 1), Math.max(1 / temperatureGain, 1) * magenta]
+}
+
+/**
+ * Invert calculateWhiteBalanceGains: the relative Temperature and Tint whose gains give the same channel ratios
+ * as `gains`. Overall brightness is not part of white balance, so gains differing only by a factor match.
+ */
+export function calculateWhiteBalanceSliders([red, green, blue]: [number, number, number]): {
+  temperature: number
+  tint: number
+} {
+  const steps = (ratio: number) => Math.log(ratio) / Math.log(WHITE_BALANCE_STEP_GAIN)
+  const temperature = steps(red / blue)
+  // Tint is read against the channel temperature leaves alone
+  const tint = steps(green / (temperature >= 0 ? blue : red))
+  return {
+    temperature: Math.round(Math.max(-100, Math.min(100, temperature))),
+    tint: Math.round(Math.max(-150, Math.min(150, tint))),
+  }
+}
+
+// How far the Shadows and Highlights sliders move their quarter of the tone range at ±100
+const SHADOW_HIGHLIGHT_STRENGTH = 0.32
+
+/**
+ * Build a master tone curve for the Shadows and Highlights sliders, lifting or lowering the quarter and three-quarter
+ * points while the black point, midpoint and white point stay put
+ */
+export function createShadowHighlightCurve(shadows: number, highlights: number): number[][] {
+  // Clamped so combined sliders cannot push a point past the midpoint and fold the curve
+  const shift = (amount: number) => Math.max(-100, Math.min(100, amount)) * SHADOW_HIGHLIGHT_STRENGTH
   return [
-    [shadowGain, midtoneBalance, highlightGain],
-    [shadowGain, midtoneBalance, highlightGain],
-    [shadowGain, midtoneBalance, highlightGain],
+    [0, 0],
+    [64, 64 + shift(shadows)],
+    [128, 128],
+    [192, 192 + shift(highlights)],
+    [255, 255],
   ]
 }
 
+// Add shared matrix operations
 export function calculateHueSaturationMatrix(hue: number, saturation: number): Matrix3x3 {
   // Convert hue to radians and calculate color rotation matrix
   const hueRad = (hue * Math.PI) / 180
@@ -154,7 +358,13 @@ export function hueToRGB(hue: number): { r: number; g: number; b: number } {
   return { r, g, b }
 }
 
-// Add shared curve generation functions
+// How far a parametric slider moves the middle of its zone at ±100, in 0-255 levels
+const PARAMETRIC_STRENGTH = 0.25
+
+/**
+ * Build a master tone curve for the parametric sliders. The splits divide the tone range (in percent) into
+ * shadows, darks, lights and highlights zones, and each slider raises or lowers the middle of its zone.
+ */
 export function createParametricCurve(adjustments: {
   parametricShadows?: number
   parametricDarks?: number
@@ -174,43 +384,22 @@ export function createParametricCurve(adjustments: {
     parametricHighlightSplit = 75,
   } = adjustments
 
-  // Create a direct mapping function for the curve
-  function mapValue(x: number): number {
-    let y = x
-
-    // Apply adjustments based on the region
-    if (x <= parametricShadowSplit) {
-      // Shadows region
-      const strength = parametricShadows / 100
-      y += x * strength
-    } else if (x <= parametricMidtoneSplit) {
-      // Darks region
-      const t = (x - parametricShadowSplit) / (parametricMidtoneSplit - parametricShadowSplit)
-      const strength = parametricDarks / 100
-      y += x * strength * (1 - t)
-    } else if (x <= parametricHighlightSplit) {
-      // Lights region
-      const t = (x - parametricMidtoneSplit) / (parametricHighlightSplit - parametricMidtoneSplit)
-      const strength = parametricLights / 100
-      y += x * strength * t
-    } else {
-      // Highlights region
-      const strength = parametricHighlights / 100
-      y += x * strength
-    }
+  const edges = [0, parametricShadowSplit, parametricMidtoneSplit, parametricHighlightSplit, 100]
+  const sliders = [parametricShadows, parametricDarks, parametricLights, parametricHighlights]
 
-    // Ensure y stays within bounds
-    return Math.max(0, Math.min(255, Math.round(y)))
-  }
+  // Keep the outputs rising so neighbouring zones pulled towards each other cannot fold the curve
+  let previous = 0
+  const zones = sliders.map((slider, i) => {
+    const input = ((edges[i]! + edges[i + 1]!) / 2) * 2.55
+    const output = Math.max(
+      previous,
+      Math.min(255, input + Math.max(-100, Math.min(100, slider)) * PARAMETRIC_STRENGTH)
+    )
+    previous = output
+    return [input, output]
+  })
 
-  // Create curve points at key positions
-  return [
-    [0, mapValue(0)],
-    [parametricShadowSplit, mapValue(parametricShadowSplit)],
-    [parametricMidtoneSplit, mapValue(parametricMidtoneSplit)],
-    [parametricHighlightSplit, mapValue(parametricHighlightSplit)],
-    [255, mapValue(255)],
-  ]
+  return [[0, 0], ...zones, [255, 255]]
 }
 
 // Add shared SVG generation functions
@@ -249,3 +438,213 @@ export function createNoiseSVG(width: number, height: number, amount: number, si
     </svg>
   `
 }
+
+// HSL conversion on normalized 0-1 RGB; hue is in degrees
+export function rgbToHsl(r: number, g: number, b: number): { h: number; s: number; l: number } {
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const l = (max + min) / 2
+  const d = max - min
+
+  if (d === 0) {
+    return { h: 0, s: 0, l }
+  }
+
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min)
+  let h: number
+  if (max === r) {
+    h = ((g - b) / d + (g < b ? 6 : 0)) * 60
+  } else if (max === g) {
+    h = ((b - r) / d + 2) * 60
+  } else {
+    h = ((r - g) / d + 4) * 60
+  }
+
+  return { h, s, l }
+}
+
+export function hslToRgb(h: number, s: number, l: number): { r: number; g: number; b: number } {
+  if (s === 0) {
+    return { r: l, g: l, b: l }
+  }
+
+  const hue = (((h % 360) + 360) % 360) / 360
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s
+  const p = 2 * l - q
+  const channel = (t: number) => {
+    const tt = t < 0 ? t + 1 : t > 1 ? t - 1 : t
+    if (tt < 1 / 6) return p + (q - p) * 6 * tt
+    if (tt < 1 / 2) return q
+    if (tt < 2 / 3) return p + (q - p) * (2 / 3 - tt) * 6
+    return p
+  }
+
+  return { r: channel(hue + 1 / 3), g: channel(hue), b: channel(hue - 1 / 3) }
+}
+
+export interface HSLBandAdjustment {
+  center: number // Band center hue in degrees
+  hue: number // -100..100
+  saturation: number // -100..100
+  luminance: number // -100..100
+}
+
+// Largest hue rotation a ±100 hue slider produces, in degrees
+export const MAX_BAND_HUE_SHIFT = 30
+
+/**
+ * Weight every band for a hue. Neighbouring band centers are blended with a smoothstep so the weights
+ * always sum to one and fall off smoothly between bands.
+ */
+export function calculateHueBandWeights(hue: number, centers: number[]): number[] {
+  const weights = new Array<number>(centers.length).fill(0)
+  const order = centers.map((center, index) => ({ center: ((center % 360) + 360) % 360, index }))
+  order.sort((a, b) => a.center - b.center)
+  if (order.length === 0) return weights
+
+  const h = ((hue % 360) + 360) % 360
+  for (let i = 0; i < order.length; i++) {
+    const current = order[i]!
+    const next = order[(i + 1) % order.length]!
+    const span = (next.center - current.center + 360) % 360 || 360
+    const offset = (h - current.center + 360) % 360
+
+    if (offset < span) {
+      const t = offset / span
+      const smooth = t * t * (3 - 2 * t)
+      weights[current.index]! += 1 - smooth
+      weights[next.index]! += smooth
+      break
+    }
+  }
+
+  return weights
+}
+
+/**
+ * Apply hue-targeted hue, saturation and luminance adjustments to interleaved 8-bit pixel data in place
+ */
+export function applyHSLAdjustmentsToPixels(pixels: Buffer, channels: number, bands: HSLBandAdjustment[]): void {
+  const centers = bands.map((band) => band.center)
+
+  // Pre-compute the blended band shifts at a tenth of a degree instead of weighting every pixel
+  const steps = 3600
+  const hueShifts = new Float32Array(steps)
+  const saturationShifts = new Float32Array(steps)
+  const luminanceShifts = new Float32Array(steps)
+  for (let step = 0; step < steps; step++) {
+    calculateHueBandWeights((step * 360) / steps, centers).forEach((weight, index) => {
+      const band = bands[index]!
+      hueShifts[step]! += weight * band.hue
+      saturationShifts[step]! += weight * band.saturation
+      luminanceShifts[step]! += weight * band.luminance
+    })
+  }
+
+  for (let i = 0; i < pixels.length; i += channels) {
+    const { h, s, l } = rgbToHsl(pixels[i]! / 255, pixels[i + 1]! / 255, pixels[i + 2]! / 255)
+    if (s === 0) continue
+
+    const step = Math.round((h * steps) / 360) % steps
+    const newHue = h + (hueShifts[step]! / 100) * MAX_BAND_HUE_SHIFT
+    const newSaturation = Math.max(0, Math.min(1, s * (1 + saturationShifts[step]! / 100)))
+
+    // Luminance only moves coloured pixels, scaled by how saturated they are
+    const luminanceAmount = (luminanceShifts[step]! / 100) * s * 0.5
+    const newLuminance = luminanceAmount > 0 ? l + (1 - l) * luminanceAmount : l + l * luminanceAmount
+
+    const { r, g, b } = hslToRgb(newHue, newSaturation, newLuminance)
+    pixels[i] = Math.round(Math.max(0, Math.min(1, r)) * 255)
+    pixels[i + 1] = Math.round(Math.max(0, Math.min(1, g)) * 255)
+    pixels[i + 2] = Math.round(Math.max(0, Math.min(1, b)) * 255)
+  }
+}
+
+export interface ColorWheel {
+  hue: number // 0..360 degrees
+  saturation: number // 0..100
+  luminance: number // -100..100
+}
+
+export interface ColorGrading {
+  shadows: ColorWheel
+  midtones: ColorWheel
+  highlights: ColorWheel
+  global: ColorWheel
+  blending: number // 0..100, how far the tonal ranges overlap
+  balance: number // -100..100, positive values extend the highlight range
+}
+
+export interface ToneMasks {
+  shadows: number
+  midtones: number
+  highlights: number
+}
+
+// Strength of a fully saturated wheel, as a fraction of the pixel range
+const MAX_GRADE_TINT = 0.3
+const MAX_GRADE_LUMINANCE_SHIFT = 0.5
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)))
+  return t * t * (3 - 2 * t)
+}
+
+export function calculateLuma(r: number, g: number, b: number): number {
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+/**
+ * Split a 0..1 luminance into shadow, midtone and highlight weights that always sum to one.
+ * Balance moves the pivot between shadows and highlights; blending widens the midtone transition.
+ */
+export function calculateToneMasks(luminance: number, balance: number, blending: number): ToneMasks {
+  const pivot = 0.5 - Math.max(-100, Math.min(100, balance)) / 400
+  const width = 0.1 + 0.4 * (Math.max(0, Math.min(100, blending)) / 100)
+  const shadows = 1 - smoothstep(pivot - width, pivot, luminance)
+  const highlights = smoothstep(pivot, pivot + width, luminance)
+  return { shadows, midtones: 1 - shadows - highlights, highlights }
+}
+
+// Chroma-only offset for a hue: the fully saturated colour minus its own luma, so tints keep brightness
+export function createTintOffset({ hue, saturation }: ColorWheel): [number, number, number] {
+  const { r, g, b } = hueToRGB(hue)
+  const luma = calculateLuma(r, g, b)
+  const strength = (Math.max(0, Math.min(100, saturation)) / 100) * MAX_GRADE_TINT
+  return [(r - luma) * strength, (g - luma) * strength, (b - luma) * strength]
+}
+
+function isNeutralWheel(wheel: ColorWheel): boolean {
+  return !wheel.saturation && !wheel.luminance
+}
+
+/**
+ * Apply three-way colour grading to interleaved 8-bit pixel data in place. Each wheel only tints
+ * the tonal range its luminance mask selects; the global wheel applies everywhere.
+ */
+export function applyColorGradingToPixels(pixels: Buffer, channels: number, grading: ColorGrading): void {
+  const wheels = [grading.shadows, grading.midtones, grading.highlights, grading.global]
+  if (wheels.every(isNeutralWheel)) return
+
+  const tints = wheels.map(createTintOffset)
+  const luminanceShifts = wheels.map((wheel) => (wheel.luminance / 100) * MAX_GRADE_LUMINANCE_SHIFT)
+
+  for (let i = 0; i < pixels.length; i += channels) {
+    const rgb = [pixels[i]! / 255, pixels[i + 1]! / 255, pixels[i + 2]! / 255]
+    const luma = calculateLuma(rgb[0]!, rgb[1]!, rgb[2]!)
+    const masks = calculateToneMasks(luma, grading.balance, grading.blending)
+
+    // Wheel weights in the same order as `wheels`; the global wheel covers every tone
+    const weights = [masks.shadows, masks.midtones, masks.highlights, 1]
+
+    // Luminance lifts towards white or pulls towards black in proportion to the remaining headroom
+    const lumaShift = weights.reduce((sum, weight, w) => sum + weight * luminanceShifts[w]!, 0)
+    const headroom = lumaShift > 0 ? 1 - luma : luma
+
+    for (let c = 0; c < 3; c++) {
+      const tint = weights.reduce((sum, weight, w) => sum + weight * tints[w]![c]!, 0)
+      const value = rgb[c]! + tint + lumaShift * headroom
+      pixels[i + c] = Math.round(Math.max(0, Math.min(1, value)) * 255)
+    }
+  }
+}
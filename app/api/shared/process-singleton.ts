@@ -0,0 +1,14 @@
+// Route handlers can be bundled separately, so state that must exist once per process lives on globalThis
+const globalSingletons = globalThis as typeof globalThis & { __nePresetsSingletons?: Map<string, unknown> }
+
+/**
+ * The value registered under `key`, created with `create` on first use. Shared by every route in the process;
+ * each worker thread has its own globalThis and so its own set.
+ */
+export function getProcessSingleton<T>(key: string, create: () => T): T {
+  const singletons = (globalSingletons.__nePresetsSingletons ??= new Map())
+  if (!singletons.has(key)) {
+    singletons.set(key, create())
+  }
+  return singletons.get(key) as T
+}
@@ -0,0 +1,85 @@
+import JSZip from "jszip"
+import { NextResponse } from "next/server"
+import path from "path"
+import { isAbortError, isTimeoutError } from "./worker-pool"
+
+export const CONTENT_TYPES = {
+  json: "application/json",
+  xmp: "application/rdf+xml; charset=utf-8",
+  cube: "text/plain; charset=utf-8",
+  zip: "application/zip",
+} as const
+
+export interface ArchiveEntry {
+  name: string
+  content: string | Buffer
+}
+
+// Strip directory components and anything that could break out of the quoted header value
+export function sanitizeDownloadName(filename: string): string {
+  const base = path
+    .basename(filename)
+    .replace(/[^\w.\- ]+/g, "_")
+    .trim()
+  return base || "download"
+}
+
+export function getBaseName(filename: string): string {
+  return path.parse(sanitizeDownloadName(filename)).name || "preset"
+}
+
+export function createContentDisposition(filename: string): string {
+  const safeName = sanitizeDownloadName(filename)
+  return `attachment; filename="${safeName}"; filename*=UTF-8''${encodeURIComponent(safeName)}`
+}
+
+/**
+ * JSON for a response header. Headers only carry Latin-1, so the value is percent-encoded; clients read it back
+ * with decodeURIComponent
+ */
+export function createJSONHeaderValue(value: unknown): string {
+  return encodeURIComponent(JSON.stringify(value))
+}
+
+export async function createZipArchive(entries: ArchiveEntry[]): Promise<Buffer> {
+  const zip = new JSZip()
+  entries.forEach(({ name, content }) => {
+    zip.file(sanitizeDownloadName(name), content)
+  })
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" })
+}
+
+export function createAttachmentResponse(
+  body: string | Buffer,
+  filename: string,
+  contentType: string,
+  headers: Record<string, string> = {}
+): NextResponse {
+  const content = typeof body === "string" ? Buffer.from(body, "utf-8") : body
+
+  return new NextResponse(content, {
+    status: 200,
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": createContentDisposition(filename),
+      "Content-Length": String(content.length),
+      ...headers,
+    },
+  })
+}
+
+// Status reported when the client went away before the work finished (nginx convention)
+const CLIENT_CLOSED_REQUEST = 499
+
+/**
+ * Map a cancelled or timed-out worker task onto a response; other errors are left to the caller
+ */
+export function createWorkerErrorResponse(error: unknown): NextResponse | undefined {
+  if (isTimeoutError(error)) {
+    return NextResponse.json({ error: "Processing took too long and was cancelled" }, { status: 504 })
+  }
+  if (isAbortError(error)) {
+    return NextResponse.json({ error: "Request was cancelled" }, { status: CLIENT_CLOSED_REQUEST })
+  }
+  return undefined
+}
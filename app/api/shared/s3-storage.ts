@@ -0,0 +1,224 @@
+import { XMLParser } from "fast-xml-parser"
+import { createHash, createHmac } from "crypto"
+import { isValidContentKey, StorageAdapter, StoredObjectInfo } from "./storage"
+
+export interface S3StorageConfig {
+  bucket: string
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+  endpoint?: string // Defaults to AWS; set for MinIO and other S3-compatible services
+  forcePathStyle?: boolean // Address the bucket in the path instead of the host name
+  prefix?: string // Prepended to every key, so several deployments can share a bucket
+}
+
+export interface SignableRequest {
+  method: string
+  url: URL
+  headers: Record<string, string>
+  payloadHash: string
+}
+
+// S3 presigned URLs may not be valid for longer than a week
+const MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD"
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex")
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest()
+}
+
+// SigV4 wants RFC 3986 encoding, which also escapes the characters encodeURIComponent leaves alone
+function encodeRFC3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+// Canonical query string; also used as the query actually sent, so both always match
+function encodeQuery(params: URLSearchParams): string {
+  const pairs: [string, string][] = []
+  params.forEach((value, name) => pairs.push([encodeRFC3986(name), encodeRFC3986(value)]))
+  return pairs
+    .sort(([a, aValue], [b, bValue]) => (a === b ? (aValue < bValue ? -1 : 1) : a < b ? -1 : 1))
+    .map(([name, value]) => `${name}=${value}`)
+    .join("&")
+}
+
+function toAmzDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "")
+}
+
+/**
+ * AWS Signature Version 4 for the S3 service. Signs `request.headers` (plus host) and returns the signature
+ * together with the values the Authorization header or presigned query needs.
+ */
+export function signRequest(config: S3StorageConfig, request: SignableRequest, amzDate: string) {
+  const date = amzDate.slice(0, 8)
+  const scope = `${date}/${config.region}/s3/aws4_request`
+
+  const headers: Record<string, string> = { host: request.url.host }
+  for (const [name, value] of Object.entries(request.headers)) {
+    headers[name.toLowerCase()] = value.trim()
+  }
+  const headerNames = Object.keys(headers).sort()
+  const signedHeaders = headerNames.join(";")
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    encodeQuery(request.url.searchParams),
+    headerNames.map((name) => `${name}:${headers[name]}\n`).join(""),
+    signedHeaders,
+    request.payloadHash,
+  ].join("\n")
+
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n")
+  const signingKey = ["s3", "aws4_request"].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${config.secretAccessKey}`, date), config.region)
+  )
+
+  return {
+    credential: `${config.accessKeyId}/${scope}`,
+    signedHeaders,
+    signature: hmac(signingKey, stringToSign).toString("hex"),
+  }
+}
+
+/**
+ * Keep artifacts in an S3 bucket, talking to the S3 REST API directly. Works against AWS and S3-compatible
+ * services such as MinIO; download URLs are presigned GETs straight to the bucket.
+ */
+export function createS3StorageAdapter(config: S3StorageConfig): StorageAdapter {
+  const endpoint = new URL(config.endpoint ?? `https://s3.${config.region}.amazonaws.com`)
+  const forcePathStyle = config.forcePathStyle ?? config.endpoint !== undefined
+  const prefix = config.prefix ?? ""
+  const parser = new XMLParser({ isArray: (name) => name === "Contents", parseTagValue: false })
+
+  const objectUrl = (key = "") => {
+    if (key && !isValidContentKey(key)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    const url = new URL(endpoint)
+    const encodedKey = key ? `/${`${prefix}${key}`.split("/").map(encodeRFC3986).join("/")}` : "/"
+    if (forcePathStyle) {
+      url.pathname = `${endpoint.pathname.replace(/\/$/, "")}/${config.bucket}${encodedKey === "/" ? "" : encodedKey}`
+    } else {
+      url.host = `${config.bucket}.${endpoint.host}`
+      url.pathname = encodedKey
+    }
+    return url
+  }
+
+  const send = async (method: string, url: URL, body?: Buffer, headers: Record<string, string> = {}) => {
+    url.search = encodeQuery(url.searchParams)
+    const amzDate = toAmzDate(new Date())
+    const payloadHash = sha256Hex(body ?? "")
+    const signedHeaders = { ...headers, "x-amz-content-sha256": payloadHash, "x-amz-date": amzDate }
+    const {
+      credential,
+      signedHeaders: headerList,
+      signature,
+    } = signRequest(config, { method, url, headers: signedHeaders, payloadHash }, amzDate)
+
+    return fetch(url, {
+      method,
+      body,
+      headers: {
+        ...signedHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${credential}, SignedHeaders=${headerList}, Signature=${signature}`,
+      },
+    })
+  }
+
+  const ensureOk = async (response: Response, action: string) => {
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "")
+      throw new Error(`S3 ${action} failed with status ${response.status}${detail ? `: ${detail}` : ""}`)
+    }
+  }
+
+  return {
+    async put(key, content, contentType) {
+      const response = await send("PUT", objectUrl(key), content, { "content-type": contentType })
+      await ensureOk(response, `PUT ${key}`)
+    },
+
+    async get(key) {
+      const response = await send("GET", objectUrl(key))
+      if (response.status === 404) return undefined
+      await ensureOk(response, `GET ${key}`)
+      return {
+        content: Buffer.from(await response.arrayBuffer()),
+        contentType: response.headers.get("content-type") ?? "application/octet-stream",
+      }
+    },
+
+    async delete(key) {
+      const response = await send("DELETE", objectUrl(key))
+      // Deleting a missing object is not an error
+      if (response.status !== 404) await ensureOk(response, `DELETE ${key}`)
+    },
+
+    async list() {
+      const objects: StoredObjectInfo[] = []
+      let continuationToken: string | undefined
+
+      do {
+        const url = objectUrl()
+        url.searchParams.set("list-type", "2")
+        if (prefix) url.searchParams.set("prefix", prefix)
+        if (continuationToken) url.searchParams.set("continuation-token", continuationToken)
+
+        const response = await send("GET", url)
+        await ensureOk(response, "list")
+        const { ListBucketResult: result } = parser.parse(await response.text())
+
+        for (const item of result?.Contents ?? []) {
+          // Anything else in the bucket, or under the prefix, was not written here and is never touched
+          const key = String(item.Key).slice(prefix.length)
+          if (!isValidContentKey(key)) continue
+          objects.push({
+            key,
+            size: Number(item.Size),
+            lastModified: new Date(item.LastModified),
+          })
+        }
+        continuationToken = result?.IsTruncated === "true" ? result.NextContinuationToken : undefined
+      } while (continuationToken)
+
+      return objects
+    },
+
+    async getDownloadUrl(key, { filename, expiresIn }) {
+      // The URL expires relative to X-Amz-Date, which only has whole seconds
+      const signedAt = Math.floor(Date.now() / 1000) * 1000
+      const amzDate = toAmzDate(new Date(signedAt))
+      const expiresInSeconds = Math.min(Math.ceil(expiresIn / 1000), MAX_PRESIGN_SECONDS)
+      const url = objectUrl(key)
+      url.searchParams.set("response-content-disposition", `attachment; filename="${filename.replace(/"/g, "")}"`)
+      url.searchParams.set("X-Amz-Algorithm", "AWS4-HMAC-SHA256")
+      url.searchParams.set(
+        "X-Amz-Credential",
+        `${config.accessKeyId}/${amzDate.slice(0, 8)}/${config.region}/s3/aws4_request`
+      )
+      url.searchParams.set("X-Amz-Date", amzDate)
+      url.searchParams.set("X-Amz-Expires", String(expiresInSeconds))
+      url.searchParams.set("X-Amz-SignedHeaders", "host")
+
+      const { signature } = signRequest(
+        config,
+        { method: "GET", url, headers: {}, payloadHash: UNSIGNED_PAYLOAD },
+        amzDate
+      )
+      url.searchParams.set("X-Amz-Signature", signature)
+      url.search = encodeQuery(url.searchParams)
+      return { url: url.toString(), expiresAt: new Date(signedAt + expiresInSeconds * 1000) }
+    },
+  }
+}
@@ -0,0 +1,75 @@
+/** @jest-environment node */
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals"
+import { mkdtemp, readdir, rm, utimes, writeFile } from "fs/promises"
+import os from "os"
+import path from "path"
+import {
+  createContentKey,
+  createLocalStorageAdapter,
+  deleteObjectsStoredBefore,
+  StorageAdapter,
+  verifyLocalDownload,
+} from "./storage"
+
+const DAY = 24 * 60 * 60 * 1000
+
+describe("local storage pruning", () => {
+  let dir: string
+  let adapter: StorageAdapter
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "storage-test-"))
+    adapter = createLocalStorageAdapter(dir, "secret")
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  async function backdate(name: string, days: number) {
+    const time = new Date(Date.now() - days * DAY)
+    await utimes(path.join(dir, name), time, time)
+  }
+
+  it("deletes artifacts last stored before the cutoff and leaves other files alone", async () => {
+    const oldKey = createContentKey("old", ".cube")
+    const freshKey = createContentKey("fresh", ".xmp")
+    await adapter.put(oldKey, Buffer.from("old"), "text/plain")
+    await adapter.put(freshKey, Buffer.from("fresh"), "application/rdf+xml")
+    await writeFile(path.join(dir, "notes.txt"), "not an artifact")
+    await backdate(oldKey, 10)
+    await backdate("notes.txt", 10)
+
+    expect(await deleteObjectsStoredBefore(adapter, new Date(Date.now() - 7 * DAY))).toBe(1)
+    expect((await readdir(dir)).sort()).toEqual([freshKey, `${freshKey}.meta.json`, "notes.txt"].sort())
+  })
+
+  it("keeps an artifact that was stored again", async () => {
+    const key = createContentKey("again", ".cube")
+    await adapter.put(key, Buffer.from("again"), "text/plain")
+    await backdate(key, 10)
+    await adapter.put(key, Buffer.from("again"), "text/plain")
+
+    expect(await deleteObjectsStoredBefore(adapter, new Date(Date.now() - 7 * DAY))).toBe(0)
+    expect(await adapter.get(key)).toEqual({ content: Buffer.from("again"), contentType: "text/plain" })
+  })
+
+  it("does nothing when the storage dir does not exist yet", async () => {
+    const missing = createLocalStorageAdapter(path.join(dir, "missing"), "secret")
+    expect(await deleteObjectsStoredBefore(missing, new Date())).toBe(0)
+  })
+})
+
+describe("local download URLs", () => {
+  it("signs a URL that stops verifying when it reports", async () => {
+    const adapter = createLocalStorageAdapter(os.tmpdir(), "secret")
+    const key = createContentKey("look", ".cube")
+    const { url, expiresAt } = await adapter.getDownloadUrl(key, { filename: "look.cube", expiresIn: DAY })
+
+    const { searchParams } = new URL(url, "http://localhost")
+    expect(Math.abs(expiresAt.getTime() - (Date.now() + DAY))).toBeLessThan(2000)
+    expect(Number(searchParams.get("expires")) * 1000).toBe(expiresAt.getTime())
+    expect(verifyLocalDownload("secret", key, searchParams)).toBe(true)
+    expect(verifyLocalDownload("other", key, searchParams)).toBe(false)
+  })
+})
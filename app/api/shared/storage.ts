@@ -0,0 +1,166 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto"
+import { mkdir, readdir, readFile, rm, stat, utimes } from "fs/promises"
+import path from "path"
+import { isMissingFileError, writeFileAtomic } from "./fs-utils"
+
+export interface StoredObjectInfo {
+  key: string
+  size: number
+  lastModified: Date // Refreshed whenever the same content is stored again
+}
+
+export interface StoredObject {
+  content: Buffer
+  contentType: string
+}
+
+export interface DownloadUrlOptions {
+  filename: string // Suggested name for the Content-Disposition of the download
+  expiresIn: number // Milliseconds the URL should stay valid; adapters may cap it
+}
+
+export interface DownloadUrl {
+  url: string
+  expiresAt: Date // When the URL actually stops working
+}
+
+/**
+ * Where generated artifacts are kept. Keys are opaque single path segments (see createContentKey), and list
+ * returns only keys of that form; storing an existing key again replaces it and refreshes its lastModified.
+ */
+export interface StorageAdapter {
+  put(key: string, content: Buffer, contentType: string): Promise<void>
+  get(key: string): Promise<StoredObject | undefined>
+  delete(key: string): Promise<void>
+  list(): Promise<StoredObjectInfo[]>
+  getDownloadUrl(key: string, options: DownloadUrlOptions): Promise<DownloadUrl>
+}
+
+const KEY_PATTERN = /^[a-f0-9]{64}(\.[a-z0-9]{1,8})?$/
+
+/**
+ * Content-addressed key: the SHA-256 of the content plus its extension, so identical results share one object
+ */
+export function createContentKey(content: Buffer | string, extension: string): string {
+  const hash = createHash("sha256").update(content).digest("hex")
+  const suffix = extension.replace(/^\./, "").toLowerCase()
+  return suffix ? `${hash}.${suffix}` : hash
+}
+
+export function isValidContentKey(key: string): boolean {
+  return KEY_PATTERN.test(key)
+}
+
+/**
+ * Delete the objects in `adapter` last stored before `cutoff`. Only keys the adapter lists are considered, so
+ * objects this app did not write are never deleted. Resolves with the number of objects removed.
+ */
+export async function deleteObjectsStoredBefore(adapter: StorageAdapter, cutoff: Date): Promise<number> {
+  const expired = (await adapter.list()).filter((object) => object.lastModified < cutoff)
+  await Promise.all(expired.map((object) => adapter.delete(object.key)))
+  return expired.length
+}
+
+// Signature over everything a local download URL grants: which object, under what name, until when
+function signDownload(secret: string, key: string, filename: string, expires: number): string {
+  return createHmac("sha256", secret).update(`${key}\n${filename}\n${expires}`).digest("hex")
+}
+
+/**
+ * Check the query of a URL made by the local adapter's getDownloadUrl
+ */
+export function verifyLocalDownload(secret: string, key: string, searchParams: URLSearchParams): boolean {
+  const filename = searchParams.get("filename") ?? ""
+  const expires = Number(searchParams.get("expires"))
+  const signature = searchParams.get("signature") ?? ""
+  if (!Number.isInteger(expires) || expires * 1000 < Date.now()) return false
+
+  const expected = Buffer.from(signDownload(secret, key, filename, expires))
+  const actual = Buffer.from(signature)
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+// Links stay valid across restarts only with a configured secret
+export function createSigningSecret(configured?: string): string {
+  return configured ?? randomBytes(32).toString("hex")
+}
+
+/**
+ * Keep artifacts as files in `dir`, with a small metadata file next to each. Download URLs point at
+ * /api/artifacts and are signed with `secret`.
+ */
+export function createLocalStorageAdapter(dir: string, secret: string): StorageAdapter {
+  const getPaths = (key: string) => {
+    if (!isValidContentKey(key)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return { file: path.join(dir, key), meta: path.join(dir, `${key}.meta.json`) }
+  }
+
+  return {
+    async put(key, content, contentType) {
+      const paths = getPaths(key)
+      await mkdir(dir, { recursive: true })
+      await writeFileAtomic(paths.meta, JSON.stringify({ contentType }))
+
+      // Same key means same bytes, so an existing object only needs its timestamp refreshed
+      try {
+        const now = new Date()
+        await utimes(paths.file, now, now)
+      } catch {
+        await writeFileAtomic(paths.file, content)
+      }
+    },
+
+    async get(key) {
+      const paths = getPaths(key)
+      try {
+        const [content, meta] = await Promise.all([readFile(paths.file), readFile(paths.meta, "utf-8")])
+        const { contentType } = JSON.parse(meta) as { contentType: string }
+        return { content, contentType }
+      } catch (error) {
+        if (isMissingFileError(error)) return undefined
+        throw error
+      }
+    },
+
+    async delete(key) {
+      const paths = getPaths(key)
+      await Promise.all([rm(paths.file, { force: true }), rm(paths.meta, { force: true })])
+    },
+
+    async list() {
+      let names: string[]
+      try {
+        names = await readdir(dir)
+      } catch (error) {
+        if (isMissingFileError(error)) return []
+        throw error
+      }
+
+      const objects = await Promise.all(
+        names.filter(isValidContentKey).map(async (key): Promise<StoredObjectInfo | undefined> => {
+          try {
+            const { size, mtime } = await stat(path.join(dir, key))
+            return { key, size, lastModified: mtime }
+          } catch {
+            // Deleted between readdir and stat
+            return undefined
+          }
+        })
+      )
+      return objects.filter((object): object is StoredObjectInfo => object !== undefined)
+    },
+
+    async getDownloadUrl(key, { filename, expiresIn }) {
+      getPaths(key)
+      const expires = Math.floor((Date.now() + expiresIn) / 1000)
+      const params = new URLSearchParams({
+        filename,
+        expires: String(expires),
+        signature: signDownload(secret, key, filename, expires),
+      })
+      return { url: `/api/artifacts/${key}?${params}`, expiresAt: new Date(expires * 1000) }
+    },
+  }
+}
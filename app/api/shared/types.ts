@@ -39,25 +39,47 @@ export interface ImageProperties {
   shadowTint: number
   redHue: number
   redSaturation: number
+  redLuminance: number
   orangeHue: number
   orangeSaturation: number
+  orangeLuminance: number
   yellowHue: number
   yellowSaturation: number
+  yellowLuminance: number
   greenHue: number
   greenSaturation: number
+  greenLuminance: number
   aquaHue: number
   aquaSaturation: number
+  aquaLuminance: number
   blueHue: number
   blueSaturation: number
+  blueLuminance: number
   purpleHue: number
   purpleSaturation: number
+  purpleLuminance: number
   magentaHue: number
   magentaSaturation: number
+  magentaLuminance: number
   splitToningShadowHue: number
   splitToningShadowSaturation: number
   splitToningHighlightHue: number
   splitToningHighlightSaturation: number
   splitToningBalance: number
+  colorGradeShadowHue: number
+  colorGradeShadowSaturation: number
+  colorGradeShadowLuminance: number
+  colorGradeMidtoneHue: number
+  colorGradeMidtoneSaturation: number
+  colorGradeMidtoneLuminance: number
+  colorGradeHighlightHue: number
+  colorGradeHighlightSaturation: number
+  colorGradeHighlightLuminance: number
+  colorGradeGlobalHue: number
+  colorGradeGlobalSaturation: number
+  colorGradeGlobalLuminance: number
+  colorGradeBlending: number
+  colorGradeBalance: number
   toneCurve?: number[][]
   toneCurveRed?: number[][]
   toneCurveGreen?: number[][]
@@ -100,20 +122,28 @@ export interface XMPAdjustments {
   // Color adjustments
   redHue: number
   redSaturation: number
+  redLuminance: number
   orangeHue: number
   orangeSaturation: number
+  orangeLuminance: number
   yellowHue: number
   yellowSaturation: number
+  yellowLuminance: number
   greenHue: number
   greenSaturation: number
+  greenLuminance: number
   aquaHue: number
   aquaSaturation: number
+  aquaLuminance: number
   blueHue: number
   blueSaturation: number
+  blueLuminance: number
   purpleHue: number
   purpleSaturation: number
+  purpleLuminance: number
   magentaHue: number
   magentaSaturation: number
+  magentaLuminance: number
 
   // Split toning
   splitToningShadowHue: number
@@ -122,6 +152,22 @@ export interface XMPAdjustments {
   splitToningHighlightSaturation: number
   splitToningBalance: number
 
+  // Color grading
+  colorGradeShadowHue: number
+  colorGradeShadowSaturation: number
+  colorGradeShadowLuminance: number
+  colorGradeMidtoneHue: number
+  colorGradeMidtoneSaturation: number
+  colorGradeMidtoneLuminance: number
+  colorGradeHighlightHue: number
+  colorGradeHighlightSaturation: number
+  colorGradeHighlightLuminance: number
+  colorGradeGlobalHue: number
+  colorGradeGlobalSaturation: number
+  colorGradeGlobalLuminance: number
+  colorGradeBlending: number
+  colorGradeBalance: number
+
   // Parametric adjustments
   parametricShadows: number
   parametricDarks: number
@@ -182,20 +228,28 @@ export const CRS_PROPERTY_MAP = {
   // Color adjustments
   redHue: "crs:HueAdjustmentRed",
   redSaturation: "crs:SaturationAdjustmentRed",
+  redLuminance: "crs:LuminanceAdjustmentRed",
   orangeHue: "crs:HueAdjustmentOrange",
   orangeSaturation: "crs:SaturationAdjustmentOrange",
+  orangeLuminance: "crs:LuminanceAdjustmentOrange",
   yellowHue: "crs:HueAdjustmentYellow",
   yellowSaturation: "crs:SaturationAdjustmentYellow",
+  yellowLuminance: "crs:LuminanceAdjustmentYellow",
   greenHue: "crs:HueAdjustmentGreen",
   greenSaturation: "crs:SaturationAdjustmentGreen",
+  greenLuminance: "crs:LuminanceAdjustmentGreen",
   aquaHue: "crs:HueAdjustmentAqua",
   aquaSaturation: "crs:SaturationAdjustmentAqua",
+  aquaLuminance: "crs:LuminanceAdjustmentAqua",
   blueHue: "crs:HueAdjustmentBlue",
   blueSaturation: "crs:SaturationAdjustmentBlue",
+  blueLuminance: "crs:LuminanceAdjustmentBlue",
   purpleHue: "crs:HueAdjustmentPurple",
   purpleSaturation: "crs:SaturationAdjustmentPurple",
+  purpleLuminance: "crs:LuminanceAdjustmentPurple",
   magentaHue: "crs:HueAdjustmentMagenta",
   magentaSaturation: "crs:SaturationAdjustmentMagenta",
+  magentaLuminance: "crs:LuminanceAdjustmentMagenta",
 
   // Split toning
   splitToningShadowHue: "crs:SplitToningShadowHue",
@@ -204,6 +258,22 @@ export const CRS_PROPERTY_MAP = {
   splitToningHighlightSaturation: "crs:SplitToningHighlightSaturation",
   splitToningBalance: "crs:SplitToningBalance",
 
+  // Color grading
+  colorGradeShadowHue: "crs:ColorGradeShadowHue",
+  colorGradeShadowSaturation: "crs:ColorGradeShadowSat",
+  colorGradeShadowLuminance: "crs:ColorGradeShadowLum",
+  colorGradeMidtoneHue: "crs:ColorGradeMidtoneHue",
+  colorGradeMidtoneSaturation: "crs:ColorGradeMidtoneSat",
+  colorGradeMidtoneLuminance: "crs:ColorGradeMidtoneLum",
+  colorGradeHighlightHue: "crs:ColorGradeHighlightHue",
+  colorGradeHighlightSaturation: "crs:ColorGradeHighlightSat",
+  colorGradeHighlightLuminance: "crs:ColorGradeHighlightLum",
+  colorGradeGlobalHue: "crs:ColorGradeGlobalHue",
+  colorGradeGlobalSaturation: "crs:ColorGradeGlobalSat",
+  colorGradeGlobalLuminance: "crs:ColorGradeGlobalLum",
+  colorGradeBlending: "crs:ColorGradeBlending",
+  colorGradeBalance: "crs:ColorGradeBalance",
+
   // Parametric adjustments
   parametricShadows: "crs:ParametricShadows",
   parametricDarks: "crs:ParametricDarks",
@@ -239,3 +309,39 @@ export const CRS_PROPERTY_MAP = {
 
 export type CRSProperty = keyof typeof CRS_PROPERTY_MAP
 export type CRSPropertyValue = (typeof CRS_PROPERTY_MAP)[CRSProperty]
+
+// Basic sliders Lightroom renamed when Process Version 2012 changed how they behave. XMPAdjustments
+// always holds PV2012 values for these; CRS_PROPERTY_MAP names their PV2010 counterparts.
+export const CRS_PV2012_PROPERTY_MAP = {
+  exposure: "crs:Exposure2012",
+  contrast: "crs:Contrast2012",
+  highlights: "crs:Highlights2012",
+  shadows: "crs:Shadows2012",
+  whites: "crs:Whites2012",
+  blacks: "crs:Blacks2012",
+  clarity: "crs:Clarity2012",
+} as const
+
+export type PV2012Property = keyof typeof CRS_PV2012_PROPERTY_MAP
+
+export interface CubeLUT1D {
+  size: number
+  domainMin: [number, number, number]
+  domainMax: [number, number, number]
+  data: Float32Array // size entries of interleaved RGB
+}
+
+export interface CubeLUT3D {
+  size: number
+  domainMin: [number, number, number]
+  domainMax: [number, number, number]
+  data: Float32Array // size^3 entries of interleaved RGB, red varying fastest
+}
+
+export interface CubeLUT {
+  title?: string
+  lut1D?: CubeLUT1D
+  lut3D?: CubeLUT3D
+}
+
+export type LUTInterpolation = "nearest" | "trilinear" | "tetrahedral"
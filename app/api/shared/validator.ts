@@ -1,41 +1,102 @@
+import sharp from "sharp"
 import { z } from "zod"
+import {
+  DETECTED_IMAGE_TYPES,
+  DetectedImageType,
+  detectImageType,
+  FILE_TYPE_SNIFF_LENGTH,
+  isXMPContent,
+} from "./file-type"
+import { KELVIN_TEMPERATURE_RANGE } from "./image-utils"
+import { CRS_PROPERTY_MAP, CRS_PV2012_PROPERTY_MAP, CRSProperty, PV2012Property } from "./types"
+import { getCRSPropertyKind, isPV2012Property, parseXMPData, usesPV2012Names } from "./xml-parser"
+import { getXMPProperty, getXMPString, hasXMPProperty, XMP_NAMESPACES, XMPDocument } from "./xmp-document"
 
-export const ALLOWED_IMAGE_TYPES = [
-  "image/jpeg",
-  "image/png",
-  "image/tiff",
-  "image/webp",
-  "image/heic",
-  "image/heif",
-] as const
-
-export const ALLOWED_XMP_TYPES = ["application/xml", "text/xml", ".xmp"] as const
+// Uploads are identified by their content; the MIME type the client sends is never trusted
+export const ALLOWED_IMAGE_TYPES = DETECTED_IMAGE_TYPES
 
 export const MAX_FILE_SIZE = 50 * 1024 * 1024 // 50MB
+// Decompression-bomb protection: a small file can declare a huge canvas, so dimensions are checked before decoding
+export const MAX_IMAGE_DIMENSION = 30000
+export const MAX_IMAGE_PIXELS = 100 * 1000 * 1000 // 100 megapixels
+
+// Pass to sharp wherever an uploaded image is decoded, so libvips itself refuses oversized canvases
+export const IMAGE_INPUT_OPTIONS: sharp.SharpOptions = { limitInputPixels: MAX_IMAGE_PIXELS }
 export const MAX_XMP_SIZE = 1 * 1024 * 1024 // 1MB
+export const MAX_CUBE_SIZE = 32 * 1024 * 1024 // 32MB, enough for a 65-point 3D LUT with a shaper
+
+// Browsers have no registered MIME type for .cube and send whatever the OS reports
+export const ALLOWED_CUBE_TYPES = ["", "text/plain", "application/octet-stream", "application/x-cube"] as const
 
 export const ImageFileSchema = z.object({
   name: z.string().min(1),
-  type: z.enum(ALLOWED_IMAGE_TYPES),
   size: z.number().max(MAX_FILE_SIZE, {
     message: `File size must not exceed ${MAX_FILE_SIZE / 1024 / 1024}MB`,
   }),
 })
 
 export const XMPFileSchema = z.object({
-  name: z.string().min(1).endsWith(".xmp"),
-  type: z.enum(ALLOWED_XMP_TYPES),
+  name: z.string().min(1).toLowerCase().endsWith(".xmp"),
   size: z.number().max(MAX_XMP_SIZE, {
     message: `XMP file size must not exceed ${MAX_XMP_SIZE / 1024 / 1024}MB`,
   }),
 })
 
+export const CubeFileSchema = z.object({
+  name: z.string().min(1).toLowerCase().endsWith(".cube"),
+  type: z.enum(ALLOWED_CUBE_TYPES),
+  size: z.number().max(MAX_CUBE_SIZE, {
+    message: `CUBE file size must not exceed ${MAX_CUBE_SIZE / 1024 / 1024}MB`,
+  }),
+})
+
 export type ValidationResult = {
   isValid: boolean
   error?: string
 }
 
-export function validateImageFile(file: File | null): ValidationResult {
+export type ImageFileValidationResult = ValidationResult & {
+  type?: DetectedImageType
+}
+
+/**
+ * Check an image's declared dimensions without decoding its pixels
+ */
+export async function validateImageDimensions(buffer: Buffer): Promise<ValidationResult> {
+  let metadata: sharp.Metadata
+  try {
+    // No pixel limit here: reading the header is safe, and the checks below give a clearer error
+    metadata = await sharp(buffer, { limitInputPixels: false }).metadata()
+  } catch (error) {
+    return {
+      isValid: false,
+      error: `Unable to read image: ${error instanceof Error ? error.message : "unknown error"}`,
+    }
+  }
+
+  const { width = 0, height = 0 } = metadata
+  if (width === 0 || height === 0) {
+    return { isValid: false, error: "Unable to read image dimensions" }
+  }
+  if (width > MAX_IMAGE_DIMENSION || height > MAX_IMAGE_DIMENSION) {
+    return {
+      isValid: false,
+      error: `Image dimensions (${width}x${height}) exceed the maximum of ${MAX_IMAGE_DIMENSION} pixels per side`,
+    }
+  }
+  if (width * height > MAX_IMAGE_PIXELS) {
+    return {
+      isValid: false,
+      error: `Image size (${Math.round((width * height) / 1e6)} megapixels) exceeds the maximum of ${
+        MAX_IMAGE_PIXELS / 1e6
+      } megapixels`,
+    }
+  }
+
+  return { isValid: true }
+}
+
+export async function validateImageFile(file: File | null): Promise<ImageFileValidationResult> {
   if (!file) {
     return { isValid: false, error: "No image file provided" }
   }
@@ -51,37 +112,85 @@ export function validateImageFile(file: File | null): ValidationResult {
     // We know issues[0] exists because we checked length > 0
     const firstError = issues[0]!
 
-    if (firstError.code === "invalid_enum_value") {
+    if (firstError.code === "too_big") {
       return {
         isValid: false,
-        error: `Unsupported image type: ${file.type}. Supported types: ${ALLOWED_IMAGE_TYPES.join(", ")}`,
+        error: `File size (${Math.round(file.size / 1024 / 1024)}MB) exceeds maximum allowed size (${
+          MAX_FILE_SIZE / 1024 / 1024
+        }MB)`,
       }
     }
+    return { isValid: false, error: firstError.message }
+  }
+
+  // Identify the format from the file's magic bytes
+  const type = detectImageType(new Uint8Array(await file.slice(0, FILE_TYPE_SNIFF_LENGTH).arrayBuffer()))
+  if (!type) {
+    return {
+      isValid: false,
+      error: `Unsupported image content${
+        file.type ? ` (sent as ${file.type})` : ""
+      }. Supported types: ${ALLOWED_IMAGE_TYPES.join(", ")}`,
+    }
+  }
+
+  const dimensionValidation = await validateImageDimensions(Buffer.from(await file.arrayBuffer()))
+  if (!dimensionValidation.isValid) {
+    return dimensionValidation
+  }
+
+  return { isValid: true, type }
+}
+
+export async function validateXMPFile(file: File | null): Promise<ValidationResult> {
+  if (!file) {
+    return { isValid: false, error: "No XMP file provided" }
+  }
+
+  const result = XMPFileSchema.safeParse(file)
+
+  if (!result.success) {
+    const issues = result.error.issues
+    if (issues.length === 0) {
+      return { isValid: false, error: "Invalid XMP file format" }
+    }
+
+    // We know issues[0] exists because we checked length > 0
+    const firstError = issues[0]!
+
     if (firstError.code === "too_big") {
       return {
         isValid: false,
         error: `File size (${Math.round(file.size / 1024 / 1024)}MB) exceeds maximum allowed size (${
-          MAX_FILE_SIZE / 1024 / 1024
+          MAX_XMP_SIZE / 1024 / 1024
         }MB)`,
       }
     }
+    if (firstError.code === "invalid_string") {
+      return { isValid: false, error: "File must have .xmp extension" }
+    }
     return { isValid: false, error: firstError.message }
   }
 
+  // Tools send .xmp files under all sorts of MIME types, so look at the content instead
+  if (!isXMPContent(await file.text())) {
+    return { isValid: false, error: "File content is not an XMP packet" }
+  }
+
   return { isValid: true }
 }
 
-export function validateXMPFile(file: File | null): ValidationResult {
+export function validateCubeFile(file: File | null): ValidationResult {
   if (!file) {
-    return { isValid: false, error: "No XMP file provided" }
+    return { isValid: false, error: "No CUBE file provided" }
   }
 
-  const result = XMPFileSchema.safeParse(file)
+  const result = CubeFileSchema.safeParse(file)
 
   if (!result.success) {
     const issues = result.error.issues
     if (issues.length === 0) {
-      return { isValid: false, error: "Invalid XMP file format" }
+      return { isValid: false, error: "Invalid CUBE file format" }
     }
 
     // We know issues[0] exists because we checked length > 0
@@ -90,19 +199,19 @@ export function validateXMPFile(file: File | null): ValidationResult {
     if (firstError.code === "invalid_enum_value") {
       return {
         isValid: false,
-        error: `Unsupported XMP type: ${file.type}. File must be an XML or XMP file.`,
+        error: `Unsupported CUBE type: ${file.type}. File must be a plain-text .cube file.`,
       }
     }
     if (firstError.code === "too_big") {
       return {
         isValid: false,
         error: `File size (${Math.round(file.size / 1024 / 1024)}MB) exceeds maximum allowed size (${
-          MAX_XMP_SIZE / 1024 / 1024
+          MAX_CUBE_SIZE / 1024 / 1024
         }MB)`,
       }
     }
     if (firstError.code === "invalid_string") {
-      return { isValid: false, error: "File must have .xmp extension" }
+      return { isValid: false, error: "File must have .cube extension" }
     }
     return { isValid: false, error: firstError.message }
   }
@@ -110,34 +219,257 @@ export function validateXMPFile(file: File | null): ValidationResult {
   return { isValid: true }
 }
 
-export async function validateXMPContent(content: string): Promise<ValidationResult> {
-  try {
-    // Basic XML structure validation
-    if (!content.includes("<?xml") || !content.includes("<x:xmpmeta")) {
-      return { isValid: false, error: "Invalid XMP format: missing XML declaration or xmpmeta tag" }
-    }
+export type XMPIssueSeverity = "error" | "warning"
+
+export interface XMPValidationIssue {
+  property: string // XMP name, e.g. "crs:Exposure2012"
+  value?: string
+  problem: string
+  severity: XMPIssueSeverity // Errors reject the XMP; warnings are settings Lightroom would ignore
+}
 
-    // Check for required Camera Raw Settings namespace
-    if (!content.includes("crs:")) {
-      return { isValid: false, error: "Invalid XMP format: missing Camera Raw Settings namespace" }
+export type XMPValidationResult = ValidationResult & {
+  issues: XMPValidationIssue[]
+}
+
+type SliderRange = { min: number; max: number }
+
+const DEFAULT_SLIDER_RANGE: SliderRange = { min: -100, max: 100 }
+
+// Lightroom slider bounds; numeric settings not listed here run −100..+100
+export const CRS_PROPERTY_RANGES: Partial<Record<CRSProperty, SliderRange>> = {
+  exposure: { min: -5, max: 5 },
+  brightness: { min: -150, max: 150 },
+  tint: { min: -150, max: 150 },
+  sharpness: { min: 0, max: 150 },
+  luminanceSmoothing: { min: 0, max: 100 },
+  colorNoiseReduction: { min: 0, max: 100 },
+  splitToningShadowHue: { min: 0, max: 360 },
+  splitToningShadowSaturation: { min: 0, max: 100 },
+  splitToningHighlightHue: { min: 0, max: 360 },
+  splitToningHighlightSaturation: { min: 0, max: 100 },
+  colorGradeShadowHue: { min: 0, max: 360 },
+  colorGradeShadowSaturation: { min: 0, max: 100 },
+  colorGradeMidtoneHue: { min: 0, max: 360 },
+  colorGradeMidtoneSaturation: { min: 0, max: 100 },
+  colorGradeHighlightHue: { min: 0, max: 360 },
+  colorGradeHighlightSaturation: { min: 0, max: 100 },
+  colorGradeGlobalHue: { min: 0, max: 360 },
+  colorGradeGlobalSaturation: { min: 0, max: 100 },
+  colorGradeBlending: { min: 0, max: 100 },
+  parametricShadowSplit: { min: 0, max: 100 },
+  parametricMidtoneSplit: { min: 0, max: 100 },
+  parametricHighlightSplit: { min: 0, max: 100 },
+  vignetteFeather: { min: 0, max: 100 },
+  vignetteMidpoint: { min: 0, max: 100 },
+  grainAmount: { min: 0, max: 100 },
+  grainSize: { min: 0, max: 100 },
+  grainFrequency: { min: 0, max: 100 },
+}
+
+// Bounds of the PV2010 names of the sliders Process Version 2012 renamed
+const PV2010_RANGES: Record<PV2012Property, SliderRange> = {
+  exposure: { min: -4, max: 4 },
+  contrast: { min: -50, max: 100 },
+  highlights: { min: 0, max: 100 },
+  shadows: { min: 0, max: 100 },
+  whites: { min: -100, max: 100 },
+  blacks: { min: 0, max: 100 },
+  clarity: { min: -100, max: 100 },
+}
+
+const NUMBER_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)$/
+const CURVE_POINT_PATTERN = /^\s*\d+\s*,\s*\d+\s*$/
+
+function createNumberSchema(inRange: (value: number) => boolean, rangeMessage: string) {
+  return z
+    .string({ invalid_type_error: "must be a single number" })
+    .trim()
+    .regex(NUMBER_PATTERN, "must be a number")
+    .transform(Number)
+    .pipe(z.number().refine(inRange, rangeMessage))
+}
+
+function createRangeSchema({ min, max }: SliderRange) {
+  return createNumberSchema((value) => value >= min && value <= max, `must be between ${min} and ${max}`)
+}
+
+// Bounds of a numeric setting in PV2012 scale. Temperature is relative −100..+100 for rendered images, Kelvin
+// for raw files; apply-xmp converts Kelvin to the relative scale, so both render.
+function getCRSValueRange(prop: CRSProperty): { inRange: (value: number) => boolean; message: string } {
+  if (prop === "temperature") {
+    const { min, max } = KELVIN_TEMPERATURE_RANGE
+    return {
+      inRange: (value) => (value >= -100 && value <= 100) || (value >= min && value <= max),
+      message: `must be between -100 and 100, or between ${min} and ${max} Kelvin`,
     }
+  }
+  const { min, max } = CRS_PROPERTY_RANGES[prop] ?? DEFAULT_SLIDER_RANGE
+  return { inRange: (value) => value >= min && value <= max, message: `must be between ${min} and ${max}` }
+}
 
-    // Check for basic required elements
-    const requiredElements = ["ProcessVersion", "Version", "WhiteBalance"]
-    const missingElements = requiredElements.filter((elem) => !content.includes(`crs:${elem}`))
+const VERSION_PATTERN = /^\d+(\.\d+)*$/
 
-    if (missingElements.length > 0) {
-      return {
-        isValid: false,
-        error: `Invalid XMP format: missing required elements: ${missingElements.join(", ")}`,
-      }
+function checkToneCurvePoints(points: number[][], ctx: z.RefinementCtx): void {
+  if (points.some((point) => point.some((value) => value < 0 || value > 255))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "points must lie within 0..255" })
+  }
+  if (points.some(([x = 0], i) => i > 0 && x <= (points[i - 1]?.[0] ?? 0))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "input values must increase monotonically" })
+  }
+}
+
+const ToneCurveSchema = z
+  .array(z.string().regex(CURVE_POINT_PATTERN, 'points must be written as "x, y"'), {
+    invalid_type_error: "must be an rdf:Seq of points",
+  })
+  .transform((points) => points.map((point) => point.split(",").map(Number)))
+  .pipe(z.array(z.array(z.number())).superRefine(checkToneCurvePoints))
+
+function createCRSPropertySchema(prop: CRSProperty): z.ZodTypeAny {
+  switch (getCRSPropertyKind(prop)) {
+    case "boolean":
+      return z
+        .string({ invalid_type_error: "must be a single value" })
+        .regex(/^(true|false)$/i, 'must be "True" or "False"')
+    case "string":
+      return prop === "version" || prop === "processVersion"
+        ? z.string({ invalid_type_error: "must be a single value" }).regex(VERSION_PATTERN, "must be a version number")
+        : z.string({ invalid_type_error: "must be a single value" })
+    case "toneCurve":
+      return ToneCurveSchema
+    default: {
+      const { inRange, message } = getCRSValueRange(prop)
+      return createNumberSchema(inRange, message)
     }
+  }
+}
+
+// A setting as ImageProperties and XMPAdjustments hold it: typed JSON values rather than XMP text
+function createCRSValueSchema(prop: CRSProperty): z.ZodTypeAny {
+  switch (getCRSPropertyKind(prop)) {
+    case "boolean":
+      return z.boolean()
+    case "string":
+      return prop === "version" || prop === "processVersion"
+        ? z.string().regex(VERSION_PATTERN, "must be a version number")
+        : z.string().max(200)
+    case "toneCurve":
+      return z
+        .array(z.tuple([z.number(), z.number()]))
+        .min(2)
+        .superRefine(checkToneCurvePoints)
+    default: {
+      const { inRange, message } = getCRSValueRange(prop)
+      return z.number().finite().refine(inRange, message)
+    }
+  }
+}
+
+// Settings keyed by property name (exposure, temperature, ...) with the same rules CRSSettingsSchema applies
+// to XMP; basic sliders are in PV2012 scale
+export const CRSValuesSchema = z
+  .object(
+    Object.fromEntries(
+      Object.keys(CRS_PROPERTY_MAP).map((prop) => [prop, createCRSValueSchema(prop as CRSProperty).optional()])
+    )
+  )
+  .strict()
 
-    return { isValid: true }
+// One optional entry per XMP name CRS_PROPERTY_MAP knows, plus the PV2012 names of the renamed sliders
+export const CRSSettingsSchema = z.object(
+  Object.fromEntries([
+    ...Object.entries(CRS_PROPERTY_MAP).map(([key, name]) => {
+      const prop = key as CRSProperty
+      const schema = isPV2012Property(prop) ? createRangeSchema(PV2010_RANGES[prop]) : createCRSPropertySchema(prop)
+      return [name, schema.optional()]
+    }),
+    ...Object.entries(CRS_PV2012_PROPERTY_MAP).map(([prop, name]) => [
+      name,
+      createCRSPropertySchema(prop as CRSProperty).optional(),
+    ]),
+  ])
+)
+
+// Raw value as written: text for simple properties, item texts for arrays; structs never match a setting schema
+function readRawCRSValue(document: XMPDocument, name: string): unknown {
+  const value = getXMPProperty(document, name)?.value
+  if (!value) return undefined
+  if (value.kind === "simple") return value.value
+  if (value.kind === "array") return value.items.map((item) => (item.kind === "simple" ? item.value : {}))
+  return {}
+}
+
+function formatRawCRSValue(value: unknown): string | undefined {
+  if (typeof value === "string") return value
+  if (Array.isArray(value)) return value.filter((item) => typeof item === "string").join("; ")
+  return undefined
+}
+
+// A slider written under both names only counts under the one the process version reads
+function findProcessVersionIssues(document: XMPDocument): XMPValidationIssue[] {
+  const processVersion = getXMPString(document, CRS_PROPERTY_MAP.processVersion)
+  const pv2012 = usesPV2012Names(processVersion)
+  if (pv2012 === undefined) return []
+
+  return Object.entries(CRS_PV2012_PROPERTY_MAP).flatMap(([key, currentName]) => {
+    const legacyName = CRS_PROPERTY_MAP[key as PV2012Property]
+    if (!hasXMPProperty(document, legacyName) || !hasXMPProperty(document, currentName)) return []
+
+    const ignored = pv2012 ? legacyName : currentName
+    return [
+      {
+        property: ignored,
+        value: getXMPString(document, ignored),
+        problem: `is ignored because process version ${processVersion} reads ${pv2012 ? currentName : legacyName}`,
+        severity: "warning" as const,
+      },
+    ]
+  })
+}
+
+/**
+ * Parse XMP content and check every Camera Raw setting it contains against its type and Lightroom range.
+ * Every problem is reported, so clients can point at the fields that are wrong.
+ */
+export async function validateXMPContent(content: string): Promise<XMPValidationResult> {
+  let document: XMPDocument
+  try {
+    document = parseXMPData(content)
   } catch (error) {
     return {
       isValid: false,
       error: error instanceof Error ? error.message : "Failed to validate XMP content",
+      issues: [],
     }
   }
+
+  const raw = Object.fromEntries(
+    Object.keys(CRSSettingsSchema.shape).map((name) => [name, readRawCRSValue(document, name)])
+  )
+  const result = CRSSettingsSchema.safeParse(raw)
+  const issues: XMPValidationIssue[] = result.success
+    ? []
+    : result.error.issues.map((issue) => {
+        const property = String(issue.path[0])
+        return { property, value: formatRawCRSValue(raw[property]), problem: issue.message, severity: "error" }
+      })
+
+  issues.push(...findProcessVersionIssues(document))
+
+  const hasCRSSettings = document.descriptions.some(({ properties }) =>
+    properties.some((property) => property.namespace === XMP_NAMESPACES.crs)
+  )
+  if (!hasCRSSettings) {
+    issues.push({
+      property: "crs",
+      problem: "no Camera Raw settings found, so no adjustments will be applied",
+      severity: "warning",
+    })
+  }
+
+  const firstError = issues.find((issue) => issue.severity === "error")
+  return firstError
+    ? { isValid: false, error: `Invalid XMP setting: ${firstError.property} ${firstError.problem}`, issues }
+    : { isValid: true, issues }
 }
@@ -0,0 +1,289 @@
+import { parentPort, Worker } from "worker_threads"
+
+export interface WorkerPoolOptions {
+  size: number
+  taskTimeout: number // Milliseconds a task may run before its worker is replaced
+}
+
+export interface WorkerTaskOptions {
+  timeout?: number
+  signal?: AbortSignal
+  onProgress?: (progress: unknown) => void // Called with whatever the task passes to reportWorkerProgress
+}
+
+export interface WorkerPool {
+  run<T>(task: string, args: unknown[], options?: WorkerTaskOptions): Promise<T>
+  destroy(): Promise<void>
+}
+
+export type WorkerTaskHandlers = Record<string, (...args: never[]) => unknown>
+
+interface WorkerRequest {
+  id: number
+  task: string
+  args: unknown[]
+}
+
+type WorkerResponse =
+  | { id: number; ok: true; result: unknown }
+  | { id: number; ok: false; error: { name: string; message: string; stack?: string } }
+
+interface WorkerProgress {
+  id: number
+  progress: unknown
+}
+
+interface PendingTask {
+  id: number
+  task: string
+  args: unknown[]
+  timeout: number
+  signal?: AbortSignal
+  onProgress?: (progress: unknown) => void
+  timer?: ReturnType<typeof setTimeout>
+  onAbort?: () => void
+  resolve: (value: unknown) => void
+  reject: (error: unknown) => void
+}
+
+// Structured cloning turns Buffers into plain Uint8Arrays; restore them on the receiving side
+function reviveBuffers(value: unknown): unknown {
+  if (value instanceof Uint8Array) {
+    return Buffer.isBuffer(value) ? value : Buffer.from(value.buffer, value.byteOffset, value.byteLength)
+  }
+  if (Array.isArray(value)) {
+    return value.map(reviveBuffers)
+  }
+  if (value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, reviveBuffers(entry)]))
+  }
+  return value
+}
+
+function createAbortError(): DOMException {
+  return new DOMException("Worker task was cancelled", "AbortError")
+}
+
+function createTimeoutError(timeout: number): DOMException {
+  return new DOMException(`Worker task timed out after ${timeout}ms`, "TimeoutError")
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError"
+}
+
+export function isTimeoutError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "TimeoutError"
+}
+
+/**
+ * Run named tasks on a fixed-size pool of worker threads. Workers are spawned lazily up to `size`;
+ * a task that times out or is aborted through its signal terminates its worker, which is replaced
+ * on demand, so a runaway analysis never holds a slot.
+ */
+export function createWorkerPool(createWorker: () => Worker, { size, taskTimeout }: WorkerPoolOptions): WorkerPool {
+  const workers = new Set<Worker>()
+  const idle: Worker[] = []
+  const active = new Map<Worker, PendingTask>()
+  const queue: PendingTask[] = []
+  let nextId = 1
+  let destroyed = false
+
+  function cleanup(pending: PendingTask): void {
+    clearTimeout(pending.timer)
+    if (pending.onAbort) {
+      pending.signal?.removeEventListener("abort", pending.onAbort)
+    }
+  }
+
+  function forget(worker: Worker): PendingTask | undefined {
+    const pending = active.get(worker)
+    workers.delete(worker)
+    active.delete(worker)
+    const idleIndex = idle.indexOf(worker)
+    if (idleIndex !== -1) idle.splice(idleIndex, 1)
+    return pending
+  }
+
+  // Drop a busy worker mid-task; its replacement is spawned by the next dispatch
+  function abandon(worker: Worker, error: DOMException): void {
+    const pending = forget(worker)
+    void worker.terminate()
+    if (pending) {
+      cleanup(pending)
+      pending.reject(error)
+    }
+    dispatch()
+  }
+
+  function spawn(): Worker {
+    const worker = createWorker()
+    // Idle workers must not keep the process alive on their own
+    worker.unref()
+    workers.add(worker)
+
+    worker.on("message", (response: WorkerResponse | WorkerProgress) => {
+      const pending = active.get(worker)
+      if (!pending || pending.id !== response.id) return
+
+      if ("progress" in response) {
+        pending.onProgress?.(response.progress)
+        return
+      }
+
+      cleanup(pending)
+      active.delete(worker)
+      idle.push(worker)
+      if (response.ok) {
+        pending.resolve(reviveBuffers(response.result))
+      } else {
+        const error = new Error(response.error.message)
+        error.name = response.error.name
+        error.stack = response.error.stack
+        pending.reject(error)
+      }
+      dispatch()
+    })
+
+    worker.on("error", (error) => {
+      const pending = forget(worker)
+      if (pending) {
+        cleanup(pending)
+        pending.reject(error)
+      }
+      dispatch()
+    })
+
+    worker.on("exit", (code) => {
+      // Workers we terminated ourselves are already forgotten
+      if (!workers.has(worker)) return
+      const pending = forget(worker)
+      if (pending) {
+        cleanup(pending)
+        pending.reject(new Error(`Worker exited unexpectedly with code ${code}`))
+      }
+      dispatch()
+    })
+
+    return worker
+  }
+
+  function dispatch(): void {
+    while (!destroyed && queue.length > 0) {
+      let worker = idle.pop()
+      if (!worker) {
+        if (workers.size >= size) return
+        worker = spawn()
+      }
+
+      const pending = queue.shift()!
+      active.set(worker, pending)
+      const assigned = worker
+      pending.timer = setTimeout(() => abandon(assigned, createTimeoutError(pending.timeout)), pending.timeout)
+      worker.postMessage({ id: pending.id, task: pending.task, args: pending.args } satisfies WorkerRequest)
+    }
+  }
+
+  return {
+    run<T>(
+      task: string,
+      args: unknown[],
+      { timeout = taskTimeout, signal, onProgress }: WorkerTaskOptions = {}
+    ): Promise<T> {
+      if (destroyed) {
+        return Promise.reject(new Error("Worker pool has been destroyed"))
+      }
+      if (signal?.aborted) {
+        return Promise.reject(createAbortError())
+      }
+
+      return new Promise<T>((resolve, reject) => {
+        const pending: PendingTask = {
+          id: nextId++,
+          task,
+          args,
+          timeout,
+          signal,
+          onProgress,
+          resolve: resolve as (value: unknown) => void,
+          reject,
+        }
+
+        if (signal) {
+          pending.onAbort = () => {
+            const queueIndex = queue.indexOf(pending)
+            if (queueIndex !== -1) {
+              queue.splice(queueIndex, 1)
+              cleanup(pending)
+              reject(createAbortError())
+              return
+            }
+            const worker = Array.from(active.entries()).find(([, entry]) => entry === pending)?.[0]
+            if (worker) abandon(worker, createAbortError())
+          }
+          signal.addEventListener("abort", pending.onAbort, { once: true })
+        }
+
+        queue.push(pending)
+        dispatch()
+      })
+    },
+
+    async destroy() {
+      destroyed = true
+      queue.splice(0).forEach((pending) => {
+        cleanup(pending)
+        pending.reject(createAbortError())
+      })
+      const running = Array.from(workers)
+      running.forEach((worker) => {
+        const pending = forget(worker)
+        if (pending) {
+          cleanup(pending)
+          pending.reject(createAbortError())
+        }
+      })
+      await Promise.all(running.map((worker) => worker.terminate()))
+    },
+  }
+}
+
+// Id of the task this worker is running; the pool never sends a worker a second task before the first settles
+let currentTaskId: number | undefined
+
+/**
+ * Forward a progress update for the running task to its onProgress callback. Outside a pool worker this is a no-op,
+ * so task implementations can call it unconditionally.
+ */
+export function reportWorkerProgress(progress: unknown): void {
+  if (parentPort && currentTaskId !== undefined) {
+    parentPort.postMessage({ id: currentTaskId, progress } satisfies WorkerProgress)
+  }
+}
+
+/**
+ * Worker-side counterpart of createWorkerPool: answer task requests from the parent thread
+ */
+export function serveWorkerTasks(handlers: WorkerTaskHandlers): void {
+  const port = parentPort
+  if (!port) {
+    throw new Error("serveWorkerTasks must be called from a worker thread")
+  }
+
+  port.on("message", async ({ id, task, args }: WorkerRequest) => {
+    currentTaskId = id
+    try {
+      const handler = handlers[task] as ((...taskArgs: unknown[]) => unknown) | undefined
+      if (!handler) {
+        throw new Error(`Unknown worker task: ${task}`)
+      }
+      const result = await handler(...(reviveBuffers(args) as unknown[]))
+      port.postMessage({ id, ok: true, result } satisfies WorkerResponse)
+    } catch (error) {
+      const { name, message, stack } = error instanceof Error ? error : new Error(String(error))
+      port.postMessage({ id, ok: false, error: { name, message, stack } } satisfies WorkerResponse)
+    } finally {
+      currentTaskId = undefined
+    }
+  })
+}
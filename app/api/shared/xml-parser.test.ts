@@ -0,0 +1,104 @@
+/** @jest-environment node */
+import { describe, expect, it } from "@jest/globals"
+import { PV2012Property, XMPAdjustments } from "./types"
+import { getCRSPropertyName, readCRSSettings, toCRSValue, writeCRSSettings } from "./xml-parser"
+import { getXMPNumber, hasXMPProperty, parseXMPDocument, serializeXMPDocument } from "./xmp-document"
+
+const CRS = "http://ns.adobe.com/camera-raw-settings/1.0/"
+
+// Lightroom 3 writes process version 5.7, Lightroom 4 and later 6.7 and up
+const PV2010 = "5.7"
+const PV2012 = "11.0"
+
+function packet(processVersion: string, settings: Record<string, number>): string {
+  const attributes = Object.entries(settings)
+    .map(([name, value]) => `crs:${name}="${value}"`)
+    .join(" ")
+  return `<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" xmlns:crs="${CRS}" crs:ProcessVersion="${processVersion}" ${attributes}/>
+  </rdf:RDF>
+</x:xmpmeta>`
+}
+
+function read(processVersion: string, settings: Record<string, number>): Partial<XMPAdjustments> {
+  return readCRSSettings(parseXMPDocument(packet(processVersion, settings)))
+}
+
+describe("process version names", () => {
+  it("names basic sliders for the process version", () => {
+    expect(getCRSPropertyName("exposure", PV2012)).toBe("crs:Exposure2012")
+    expect(getCRSPropertyName("exposure", PV2010)).toBe("crs:Exposure")
+    expect(getCRSPropertyName("exposure")).toBe("crs:Exposure2012")
+    expect(getCRSPropertyName("saturation", PV2010)).toBe("crs:Saturation")
+  })
+
+  it("only converts values written under PV2010 names", () => {
+    expect(toCRSValue("contrast", 0, PV2012)).toBe(0)
+    expect(toCRSValue("contrast", 0)).toBe(0)
+    expect(toCRSValue("contrast", 0, PV2010)).toBe(25)
+    expect(toCRSValue("saturation", 10, PV2010)).toBe(10)
+  })
+})
+
+describe("PV2010 to PV2012", () => {
+  it("reads neutral PV2010 sliders as zero", () => {
+    const settings = read(PV2010, { Exposure: 0, Contrast: 25, Highlights: 0, Shadows: 0, Blacks: 5 })
+    expect(settings).toMatchObject({ exposure: 0, contrast: 0, highlights: 0, shadows: 0, blacks: 0 })
+  })
+
+  it("converts each slider's scale", () => {
+    const settings = read(PV2010, { Exposure: 1.5, Contrast: 100, Highlights: 40, Shadows: 30, Blacks: 100 })
+    expect(settings.exposure).toBe(1.5)
+    expect(settings.contrast).toBe(100)
+    // Recovery pulls highlights down, Fill Light lifts shadows
+    expect(settings.highlights).toBe(-40)
+    expect(settings.shadows).toBe(30)
+    expect(settings.blacks).toBe(-100)
+  })
+
+  it("falls back to the other process version's name when the expected one is absent", () => {
+    expect(read(PV2012, { Contrast: 50 }).contrast).toBe(33.33)
+    expect(read(PV2010, { Contrast2012: 50 }).contrast).toBe(50)
+    expect(read(PV2012, { Contrast: 50, Contrast2012: 10 }).contrast).toBe(10)
+  })
+})
+
+describe("PV2012 to PV2010", () => {
+  it("writes PV2012 values under PV2010 names and scale", () => {
+    const document = parseXMPDocument(packet(PV2010, {}))
+    writeCRSSettings(document, { contrast: 0, highlights: -40, shadows: 30, blacks: 0 })
+
+    expect(getXMPNumber(document, "crs:Contrast")).toBe(25)
+    expect(getXMPNumber(document, "crs:Highlights")).toBe(40)
+    expect(getXMPNumber(document, "crs:Shadows")).toBe(30)
+    expect(getXMPNumber(document, "crs:Blacks")).toBe(5)
+    expect(hasXMPProperty(document, "crs:Contrast2012")).toBe(false)
+  })
+
+  it("clamps values PV2010 sliders cannot hold", () => {
+    const document = parseXMPDocument(packet(PV2010, {}))
+    writeCRSSettings(document, { exposure: 5, highlights: 30, shadows: -20, blacks: 100 })
+
+    expect(getXMPNumber(document, "crs:Exposure")).toBe(4)
+    expect(getXMPNumber(document, "crs:Highlights")).toBe(0)
+    expect(getXMPNumber(document, "crs:Shadows")).toBe(0)
+    expect(getXMPNumber(document, "crs:Blacks")).toBe(0)
+  })
+
+  it.each<[PV2012Property, number]>([
+    ["exposure", -2.5],
+    ["contrast", 40],
+    ["highlights", -65],
+    ["shadows", 45],
+    ["whites", 20],
+    ["blacks", -30],
+    ["clarity", 15],
+  ])("round-trips %s = %d through a PV2010 document", (prop, value) => {
+    const document = parseXMPDocument(packet(PV2010, {}))
+    writeCRSSettings(document, { [prop]: value })
+
+    const settings = readCRSSettings(parseXMPDocument(serializeXMPDocument(document)))
+    expect(settings[prop]).toBeCloseTo(value, 1)
+  })
+})
@@ -1,109 +1,203 @@
-import { XMLParser } from "fast-xml-parser"
-import { CRS_PROPERTY_MAP, CRSProperty, XMPAdjustments } from "./types"
-
-export interface XMPNode {
-  "rdf:Seq"?: {
-    "rdf:li"?: string | string[]
-  }
+import { CRS_PROPERTY_MAP, CRS_PV2012_PROPERTY_MAP, CRSProperty, PV2012Property, XMPAdjustments } from "./types"
+import {
+  getXMPArray,
+  getXMPBoolean,
+  getXMPNumber,
+  getXMPString,
+  parseXMPDocument,
+  setXMPProperty,
+  XMP_NAMESPACES,
+  XMPDocument,
+} from "./xmp-document"
+
+// Numeric properties whose Lightroom default is not zero when the XMP omits them
+const NUMBER_DEFAULTS: Partial<Record<CRSProperty, number>> = {
+  colorGradeBlending: 50,
 }
 
-export interface XMPDescription {
-  [key: string]: string | number | boolean | XMPNode | undefined
-  "crs:ToneCurvePV2012"?: XMPNode
-  "crs:ToneCurvePV2012Red"?: XMPNode
-  "crs:ToneCurvePV2012Green"?: XMPNode
-  "crs:ToneCurvePV2012Blue"?: XMPNode
+const BOOLEAN_PROPERTIES: CRSProperty[] = ["hasCrop", "hasSettings", "alreadyApplied"]
+
+const STRING_PROPERTIES: CRSProperty[] = [
+  "version",
+  "processVersion",
+  "whiteBalance",
+  "cameraProfile",
+  "cameraProfileDigest",
+  "toneCurveName",
+]
+
+const TONE_CURVE_PROPERTIES: CRSProperty[] = ["toneCurve", "toneCurveRed", "toneCurveGreen", "toneCurveBlue"]
+
+// First process version whose basic sliders are written with the *2012 names (Lightroom 4)
+const PV2012_PROCESS_VERSION = 6.7
+
+// Adding zero turns the -0 of a negated neutral slider into 0
+const roundSlider = (value: number) => Math.round(value * 100) / 100 + 0
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+// PV2010 sliders mostly run 0..100 around a non-zero default, PV2012 sliders are centred on zero
+const PV2010_CONVERSIONS: Record<
+  PV2012Property,
+  { toPV2012: (value: number) => number; fromPV2012: (value: number) => number }
+> = {
+  // Stops in both; PV2010 stops at ±4
+  exposure: { toPV2012: (value) => value, fromPV2012: (value) => clamp(value, -4, 4) },
+  // −50..+100 with +25 as neutral
+  contrast: { toPV2012: (value) => ((value - 25) * 4) / 3, fromPV2012: (value) => (value * 3) / 4 + 25 },
+  // Recovery: 0..100, higher pulls highlights down
+  highlights: { toPV2012: (value) => -value, fromPV2012: (value) => clamp(-value, 0, 100) },
+  // Fill Light: 0..100, higher lifts shadows
+  shadows: { toPV2012: (value) => value, fromPV2012: (value) => clamp(value, 0, 100) },
+  whites: { toPV2012: (value) => value, fromPV2012: (value) => value },
+  // 0..100 with 5 as neutral, higher crushes blacks
+  blacks: {
+    toPV2012: (value) => ((5 - value) * 100) / 95,
+    fromPV2012: (value) => clamp(5 - (value * 95) / 100, 0, 100),
+  },
+  clarity: { toPV2012: (value) => value, fromPV2012: (value) => value },
 }
 
-export interface XMPRoot {
-  "x:xmpmeta"?: {
-    "rdf:RDF"?: {
-      "rdf:Description"?: XMPDescription
-    }
-  }
+export function isPV2012Property(prop: CRSProperty): prop is PV2012Property {
+  return prop in CRS_PV2012_PROPERTY_MAP
 }
 
-function parseCRSValue(value: unknown, type: "number" | "boolean" | "string" = "number"): number | boolean | string {
-  if (value === undefined || value === null) return type === "number" ? 0 : type === "boolean" ? false : ""
+// How a property's value is written in XMP
+export function getCRSPropertyKind(prop: CRSProperty): "boolean" | "string" | "toneCurve" | "number" {
+  if (BOOLEAN_PROPERTIES.includes(prop)) return "boolean"
+  if (STRING_PROPERTIES.includes(prop)) return "string"
+  if (TONE_CURVE_PROPERTIES.includes(prop)) return "toneCurve"
+  return "number"
+}
 
-  if (type === "boolean") {
-    return String(value) === "True"
-  }
+// Undefined when the process version is missing or unreadable
+export function usesPV2012Names(processVersion: string | undefined): boolean | undefined {
+  const version = parseFloat(processVersion ?? "")
+  return isNaN(version) ? undefined : version >= PV2012_PROCESS_VERSION
+}
 
-  if (type === "number") {
-    const num = parseFloat(String(value))
-    return isNaN(num) ? 0 : num
+/**
+ * The XMP name of a property for a process version. Unknown process versions get the PV2012 names every
+ * current Lightroom release writes.
+ */
+export function getCRSPropertyName(prop: CRSProperty, processVersion?: string): string {
+  if (isPV2012Property(prop) && usesPV2012Names(processVersion) !== false) {
+    return CRS_PV2012_PROPERTY_MAP[prop]
   }
+  return CRS_PROPERTY_MAP[prop]
+}
 
-  return String(value)
+// Convert a PV2012 slider value into the scale of the property getCRSPropertyName names
+export function toCRSValue(prop: CRSProperty, value: number, processVersion?: string): number {
+  if (!isPV2012Property(prop) || usesPV2012Names(processVersion) !== false) return value
+  return roundSlider(PV2010_CONVERSIONS[prop].fromPV2012(value))
 }
 
-export function parseXMPData(xmpString: string): Record<string, unknown> {
-  const parser = new XMLParser({
-    ignoreAttributes: false,
-    attributeNamePrefix: "",
-    textNodeName: "_text",
-    parseAttributeValue: true,
-    parseTagValue: true,
-  })
+// PV2012 value of a basic slider, falling back to the other process version's name when the expected one is absent
+function readPV2012Setting(document: XMPDocument, prop: PV2012Property, pv2012: boolean | undefined) {
+  const current = getXMPNumber(document, CRS_PV2012_PROPERTY_MAP[prop])
+  const legacy = getXMPNumber(document, CRS_PROPERTY_MAP[prop])
+  const converted = legacy === undefined ? undefined : roundSlider(PV2010_CONVERSIONS[prop].toPV2012(legacy))
+  return pv2012 === false ? converted ?? current : current ?? converted
+}
 
-  const result = parser.parse(xmpString) as XMPRoot
-  const crs = result?.["x:xmpmeta"]?.["rdf:RDF"]?.["rdf:Description"]
-  if (!crs) {
+export function parseXMPData(xmpString: string): XMPDocument {
+  const document = parseXMPDocument(xmpString)
+  if (document.descriptions.length === 0) {
     throw new Error("Invalid XMP format: missing Camera Raw Settings")
   }
 
-  return crs
+  return document
 }
 
-export function parseXMPAdjustments(crs: Record<string, unknown>): XMPAdjustments {
-  const adjustments: Partial<XMPAdjustments> = {}
+/**
+ * Read the Camera Raw settings present in a document. Properties the XMP does not contain are left out
+ * rather than defaulted, so callers can tell "absent" from "zero". Basic sliders are read under the names
+ * of the document's process version and returned as PV2012 values.
+ */
+export function readCRSSettings(document: XMPDocument): Partial<XMPAdjustments> {
+  const settings: Record<string, unknown> = {}
+  const pv2012 = usesPV2012Names(getXMPString(document, CRS_PROPERTY_MAP.processVersion))
 
-  // Parse all properties using our CRS_PROPERTY_MAP
   Object.entries(CRS_PROPERTY_MAP).forEach(([key, crsKey]) => {
     const prop = key as CRSProperty
-    const value = crs[crsKey]
-
-    // Handle special cases
-    if (prop === "hasCrop" || prop === "hasSettings" || prop === "alreadyApplied") {
-      adjustments[prop] = parseCRSValue(value, "boolean") as boolean
-    } else if (
-      prop === "whiteBalance" ||
-      prop === "cameraProfile" ||
-      prop === "cameraProfileDigest" ||
-      prop === "processVersion" ||
-      prop === "toneCurveName"
-    ) {
-      adjustments[prop] = parseCRSValue(value, "string") as string
-    } else if (
-      prop === "toneCurve" ||
-      prop === "toneCurveRed" ||
-      prop === "toneCurveGreen" ||
-      prop === "toneCurveBlue"
-    ) {
-      adjustments[prop] = parseToneCurve(value as XMPNode)
+    let value: unknown
+
+    if (isPV2012Property(prop)) {
+      value = readPV2012Setting(document, prop, pv2012)
+    } else if (BOOLEAN_PROPERTIES.includes(prop)) {
+      value = getXMPBoolean(document, crsKey)
+    } else if (STRING_PROPERTIES.includes(prop)) {
+      value = getXMPString(document, crsKey)
+    } else if (TONE_CURVE_PROPERTIES.includes(prop)) {
+      value = parseToneCurve(getXMPArray(document, crsKey))
     } else {
-      // All other properties are numbers
-      adjustments[prop] = parseCRSValue(value, "number") as number
+      value = getXMPNumber(document, crsKey)
     }
+
+    if (value !== undefined) settings[prop] = value
   })
 
-  return adjustments as XMPAdjustments
+  return settings as Partial<XMPAdjustments>
+}
+
+/**
+ * Write settings into a document in place. Each property keeps its position and form when it already
+ * exists, and everything the settings do not mention (masks, lens corrections, other namespaces) is left
+ * untouched, so serializeXMPDocument re-emits the edited XMP without losing data. Basic sliders are written
+ * under the names and scale of the process version being saved.
+ */
+export function writeCRSSettings(document: XMPDocument, settings: Partial<XMPAdjustments>): void {
+  document.namespaces.crs ??= XMP_NAMESPACES.crs
+  const processVersion = settings.processVersion ?? getXMPString(document, CRS_PROPERTY_MAP.processVersion)
+
+  Object.entries(settings).forEach(([key, value]) => {
+    const prop = key as CRSProperty
+    if (!(prop in CRS_PROPERTY_MAP) || value === undefined) return
+    const crsKey = getCRSPropertyName(prop, processVersion)
+
+    if (Array.isArray(value)) {
+      setXMPProperty(document, crsKey, {
+        kind: "array",
+        arrayType: "Seq",
+        items: value.map(([x, y]) => ({ kind: "simple", value: `${x}, ${y}` })),
+      })
+    } else {
+      setXMPProperty(document, crsKey, typeof value === "number" ? toCRSValue(prop, value, processVersion) : value)
+    }
+  })
 }
 
-export function parseToneCurve(curve: XMPNode | undefined): number[][] | undefined {
-  if (!curve?.["rdf:Seq"]?.["rdf:li"]) return undefined
+// Fill every property the renderer needs, using Lightroom's defaults for those the XMP omits
+export function parseXMPAdjustments(document: XMPDocument): XMPAdjustments {
+  const settings = readCRSSettings(document)
+  const adjustments: Record<string, unknown> = { ...settings }
+
+  Object.keys(CRS_PROPERTY_MAP).forEach((key) => {
+    const prop = key as CRSProperty
+    if (adjustments[prop] !== undefined || TONE_CURVE_PROPERTIES.includes(prop)) return
+
+    if (BOOLEAN_PROPERTIES.includes(prop)) {
+      adjustments[prop] = false
+    } else if (STRING_PROPERTIES.includes(prop)) {
+      adjustments[prop] = ""
+    } else {
+      adjustments[prop] = NUMBER_DEFAULTS[prop] ?? 0
+    }
+  })
+
+  return adjustments as unknown as XMPAdjustments
+}
 
-  const points = Array.isArray(curve["rdf:Seq"]["rdf:li"]) ? curve["rdf:Seq"]["rdf:li"] : [curve["rdf:Seq"]["rdf:li"]]
+export function parseToneCurve(points: string[] | undefined): number[][] | undefined {
+  if (!points) return undefined
 
   const validPoints = points
-    .map((point: string) => {
-      if (typeof point !== "string") return null
+    .map((point) => {
       const [x, y] = point.split(",").map((n) => {
         const num = parseFloat(n.trim())
         return isNaN(num) ? null : num
       })
-      return x !== null && y !== null ? [x, y] : null
+      return x !== null && x !== undefined && y !== null && y !== undefined ? [x, y] : null
     })
     .filter((point): point is [number, number] => point !== null)
 
@@ -0,0 +1,208 @@
+/** @jest-environment node */
+import { describe, expect, it } from "@jest/globals"
+import {
+  deleteXMPProperty,
+  getXMPArray,
+  getXMPBoolean,
+  getXMPNumber,
+  getXMPProperty,
+  getXMPString,
+  hasXMPProperty,
+  parseXMPDocument,
+  serializeXMPDocument,
+  setXMPProperty,
+  XMPDocument,
+} from "./xmp-document"
+
+const CRS = "http://ns.adobe.com/camera-raw-settings/1.0/"
+
+function roundTrip(document: XMPDocument): XMPDocument {
+  return parseXMPDocument(serializeXMPDocument(document))
+}
+
+function packet(body: string, namespaces = `xmlns:crs="${CRS}"`): string {
+  return `<?xpacket begin="" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/" x:xmptk="Adobe XMP Core 7.0">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" ${namespaces}>
+    ${body}
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`
+}
+
+describe("XMP document round trip", () => {
+  it("keeps attribute and element forms", () => {
+    const document = parseXMPDocument(
+      packet(`<rdf:Description rdf:about="" crs:Exposure2012="+0.50" crs:Contrast2012="-12">
+        <crs:Saturation>7</crs:Saturation>
+      </rdf:Description>`)
+    )
+
+    const [exposure, contrast, saturation] = document.descriptions[0]!.properties
+    expect(exposure).toMatchObject({ name: "crs:Exposure2012", attribute: true })
+    expect(contrast).toMatchObject({ name: "crs:Contrast2012", attribute: true })
+    expect(saturation).toMatchObject({ name: "crs:Saturation" })
+    expect(saturation!.attribute).toBeFalsy()
+    expect(getXMPString(document, "crs:Exposure2012")).toBe("+0.50")
+
+    const reparsed = roundTrip(document)
+    expect(reparsed).toEqual(document)
+    expect(reparsed.toolkit).toBe("Adobe XMP Core 7.0")
+  })
+
+  it("keeps multiple descriptions and reads them as one set", () => {
+    const document = parseXMPDocument(
+      packet(`<rdf:Description rdf:about="" crs:Exposure2012="1.00"/>
+      <rdf:Description rdf:about="" crs:Temperature="5600">
+        <crs:ToneCurvePV2012>
+          <rdf:Seq><rdf:li>0, 0</rdf:li><rdf:li>128, 140</rdf:li><rdf:li>255, 255</rdf:li></rdf:Seq>
+        </crs:ToneCurvePV2012>
+      </rdf:Description>`)
+    )
+
+    expect(document.descriptions).toHaveLength(2)
+    expect(getXMPNumber(document, "crs:Exposure2012")).toBe(1)
+    expect(getXMPNumber(document, "crs:Temperature")).toBe(5600)
+    expect(getXMPArray(document, "crs:ToneCurvePV2012")).toEqual(["0, 0", "128, 140", "255, 255"])
+
+    expect(roundTrip(document)).toEqual(document)
+  })
+
+  it("keeps structs nested in arrays, as masks write them", () => {
+    const document = parseXMPDocument(
+      packet(`<rdf:Description rdf:about="">
+        <crs:MaskGroupBasedCorrections>
+          <rdf:Seq>
+            <rdf:li rdf:parseType="Resource">
+              <crs:What>Correction</crs:What>
+              <crs:LocalExposure2012>0.25</crs:LocalExposure2012>
+              <crs:CorrectionMasks>
+                <rdf:Seq>
+                  <rdf:li crs:What="Mask/CircularGradient" crs:MaskValue="1" crs:Top="0.1" crs:Left="0.2"/>
+                </rdf:Seq>
+              </crs:CorrectionMasks>
+            </rdf:li>
+          </rdf:Seq>
+        </crs:MaskGroupBasedCorrections>
+      </rdf:Description>`)
+    )
+
+    const masks = getXMPProperty(document, "crs:MaskGroupBasedCorrections")
+    expect(masks?.value.kind).toBe("array")
+    if (masks?.value.kind !== "array") return
+
+    const [correction] = masks.value.items
+    expect(correction?.kind).toBe("struct")
+    if (correction?.kind !== "struct") return
+    expect(correction.fields.map((field) => field.name)).toEqual([
+      "crs:What",
+      "crs:LocalExposure2012",
+      "crs:CorrectionMasks",
+    ])
+
+    expect(roundTrip(document)).toEqual(document)
+  })
+
+  it("keeps xml:lang qualifiers on alternative text", () => {
+    const document = parseXMPDocument(
+      packet(
+        `<rdf:Description rdf:about="">
+        <dc:title>
+          <rdf:Alt>
+            <rdf:li xml:lang="x-default">Golden hour</rdf:li>
+            <rdf:li xml:lang="de-DE">Goldene Stunde</rdf:li>
+          </rdf:Alt>
+        </dc:title>
+      </rdf:Description>`,
+        `xmlns:crs="${CRS}" xmlns:dc="http://purl.org/dc/elements/1.1/"`
+      )
+    )
+
+    const title = getXMPProperty(document, "dc:title")?.value
+    expect(title).toEqual({
+      kind: "array",
+      arrayType: "Alt",
+      items: [
+        { kind: "simple", value: "Golden hour", qualifiers: { "xml:lang": "x-default" } },
+        { kind: "simple", value: "Goldene Stunde", qualifiers: { "xml:lang": "de-DE" } },
+      ],
+    })
+
+    expect(roundTrip(document)).toEqual(document)
+  })
+
+  it("matches properties by namespace URI when the packet uses another prefix", () => {
+    const document = parseXMPDocument(
+      packet(`<rdf:Description rdf:about="" cr:Exposure2012="-0.75" cr:AutoLateralCA="True"/>`, `xmlns:cr="${CRS}"`)
+    )
+
+    expect(getXMPNumber(document, "crs:Exposure2012")).toBe(-0.75)
+    expect(getXMPBoolean(document, "crs:AutoLateralCA")).toBe(true)
+
+    const reparsed = roundTrip(document)
+    expect(reparsed).toEqual(document)
+    expect(reparsed.namespaces.cr).toBe(CRS)
+    expect(reparsed.descriptions[0]!.properties[0]!.name).toBe("cr:Exposure2012")
+  })
+
+  it("keeps properties it does not understand", () => {
+    const document = parseXMPDocument(
+      packet(
+        `<rdf:Description rdf:about="" crs:Exposure2012="0" acme:Rating="5">
+        <acme:Notes>Shot at <![CDATA[f/2.8 & 1/200s]]></acme:Notes>
+      </rdf:Description>`,
+        `xmlns:crs="${CRS}" xmlns:acme="http://example.com/acme/1.0/"`
+      )
+    )
+
+    expect(getXMPString(document, "acme:Rating")).toBe("5")
+    expect(roundTrip(document)).toEqual(document)
+  })
+
+  it("keeps edits in place through a round trip", () => {
+    const document = parseXMPDocument(
+      packet(`<rdf:Description rdf:about="" crs:Exposure2012="0" crs:Contrast2012="10" crs:Clarity2012="5"/>`)
+    )
+
+    setXMPProperty(document, "crs:Contrast2012", 25)
+    setXMPProperty(document, "crs:Vibrance", 12)
+    deleteXMPProperty(document, "crs:Clarity2012")
+
+    const reparsed = roundTrip(document)
+    expect(reparsed.descriptions[0]!.properties.map((property) => property.name)).toEqual([
+      "crs:Exposure2012",
+      "crs:Contrast2012",
+      "crs:Vibrance",
+    ])
+    expect(getXMPNumber(reparsed, "crs:Contrast2012")).toBe(25)
+    expect(getXMPNumber(reparsed, "crs:Vibrance")).toBe(12)
+  })
+})
+
+describe("absent and zero values", () => {
+  const document = parseXMPDocument(
+    packet(`<rdf:Description rdf:about="" crs:Exposure2012="0" crs:Contrast2012="" crs:Shadows2012="n/a"/>`)
+  )
+
+  it("reads a written zero as zero", () => {
+    expect(hasXMPProperty(document, "crs:Exposure2012")).toBe(true)
+    expect(getXMPNumber(document, "crs:Exposure2012")).toBe(0)
+  })
+
+  it("reads a missing property as absent, never as a default", () => {
+    expect(hasXMPProperty(document, "crs:Highlights2012")).toBe(false)
+    expect(getXMPNumber(document, "crs:Highlights2012")).toBeUndefined()
+    expect(getXMPString(document, "crs:Highlights2012")).toBeUndefined()
+  })
+
+  it("reads empty or non-numeric text as no number", () => {
+    expect(getXMPNumber(document, "crs:Contrast2012")).toBeUndefined()
+    expect(getXMPNumber(document, "crs:Shadows2012")).toBeUndefined()
+  })
+
+  it("keeps the difference through a round trip", () => {
+    const reparsed = roundTrip(document)
+    expect(getXMPNumber(reparsed, "crs:Exposure2012")).toBe(0)
+    expect(hasXMPProperty(reparsed, "crs:Highlights2012")).toBe(false)
+  })
+})
@@ -0,0 +1,377 @@
+import { XMLParser } from "fast-xml-parser"
+import { create } from "xmlbuilder2"
+import { XMLBuilder } from "xmlbuilder2/lib/interfaces"
+
+export const XMP_NAMESPACES = {
+  x: "adobe:ns:meta/",
+  rdf: "http://www.w3.org/1999/02/22-rdf-syntax-ns#",
+  crs: "http://ns.adobe.com/camera-raw-settings/1.0/",
+  xml: "http://www.w3.org/XML/1998/namespace",
+} as const
+
+export type XMPArrayType = "Seq" | "Bag" | "Alt"
+
+export type XMPValue =
+  | { kind: "simple"; value: string; qualifiers?: Record<string, string> } // e.g. xml:lang on an rdf:Alt item
+  | { kind: "array"; arrayType: XMPArrayType; items: XMPValue[] }
+  | { kind: "struct"; fields: XMPProperty[] }
+
+export interface XMPProperty {
+  name: string // Qualified name as written, e.g. "crs:Exposure2012"
+  namespace?: string // URI the name's prefix is bound to where it appears; properties are matched by this, not the prefix
+  value: XMPValue
+  attribute?: boolean // Written as an attribute of its rdf:Description rather than a child element
+}
+
+export interface XMPDocumentDescription {
+  about: string
+  properties: XMPProperty[]
+}
+
+/**
+ * Every property of an XMP packet, in document order, including ones this app does not understand. A property
+ * that is not in the document is absent, never a default value.
+ */
+export interface XMPDocument {
+  toolkit?: string // x:xmptk
+  namespaces: Record<string, string> // Prefix to URI for every prefix the packet declares
+  descriptions: XMPDocumentDescription[]
+}
+
+// fast-xml-parser's preserveOrder tree: one key naming the element (or #text), attributes under ":@"
+type XMLNode = { [name: string]: XMLNode[] | string | Record<string, string> | undefined } & {
+  ":@"?: Record<string, string>
+  "#text"?: string
+}
+
+const ARRAY_TYPES: XMPArrayType[] = ["Seq", "Bag", "Alt"]
+
+// Attributes that shape the RDF itself rather than carrying a value
+const STRUCTURAL_ATTRIBUTES = new Set(["rdf:about", "rdf:parseType"])
+
+// In-scope prefix bindings while walking the tree
+type NamespaceScope = Record<string, string>
+
+function splitName(name: string): { prefix: string; localName: string } {
+  const separator = name.indexOf(":")
+  return separator === -1
+    ? { prefix: "", localName: name }
+    : { prefix: name.slice(0, separator), localName: name.slice(separator + 1) }
+}
+
+// Prefixes the packet forgot to declare fall back to their well-known URIs
+function resolveNamespace(prefix: string, scope: NamespaceScope): string | undefined {
+  return scope[prefix] ?? XMP_NAMESPACES[prefix as keyof typeof XMP_NAMESPACES]
+}
+
+function extendScope(scope: NamespaceScope, node: XMLNode): NamespaceScope {
+  const declarations = Object.entries(node[":@"] ?? {}).filter(([name]) => name.startsWith("xmlns:"))
+  if (declarations.length === 0) return scope
+  return { ...scope, ...Object.fromEntries(declarations.map(([name, uri]) => [name.slice("xmlns:".length), uri])) }
+}
+
+function createProperty(name: string, scope: NamespaceScope, value: XMPValue, attribute?: boolean): XMPProperty {
+  const namespace = resolveNamespace(splitName(name).prefix, scope)
+  return {
+    name,
+    value,
+    ...(namespace ? { namespace } : {}),
+    ...(attribute ? { attribute } : {}),
+  }
+}
+
+function getNodeName(node: XMLNode): string {
+  return Object.keys(node).find((key) => key !== ":@") ?? ""
+}
+
+function getChildren(node: XMLNode): XMLNode[] {
+  const children = node[getNodeName(node)]
+  return Array.isArray(children) ? children : []
+}
+
+function getElements(nodes: XMLNode[]): XMLNode[] {
+  return nodes.filter((node) => {
+    const name = getNodeName(node)
+    return name !== "#text" && !name.startsWith("?") && !name.startsWith("#")
+  })
+}
+
+function getText(nodes: XMLNode[]): string {
+  return nodes.map((node) => (typeof node["#text"] === "string" ? node["#text"] : "")).join("")
+}
+
+// Find an element by namespace URI and local name, whatever prefix the packet used
+function findElement(
+  nodes: XMLNode[],
+  scope: NamespaceScope,
+  namespace: string,
+  localName: string
+): XMLNode | undefined {
+  return getElements(nodes).find((node) => {
+    const { prefix, localName: nodeLocalName } = splitName(getNodeName(node))
+    return nodeLocalName === localName && resolveNamespace(prefix, extendScope(scope, node)) === namespace
+  })
+}
+
+function isNamespaceDeclaration(name: string): boolean {
+  return name === "xmlns" || name.startsWith("xmlns:")
+}
+
+function collectNamespaces(nodes: XMLNode[], namespaces: Record<string, string>): void {
+  nodes.forEach((node) => {
+    Object.entries(node[":@"] ?? {}).forEach(([name, uri]) => {
+      if (name.startsWith("xmlns:")) namespaces[name.slice("xmlns:".length)] ??= uri
+    })
+    collectNamespaces(getChildren(node), namespaces)
+  })
+}
+
+// Simple-valued properties written as attributes, e.g. <rdf:Description crs:Exposure2012="+0.50">
+function parseAttributeProperties(attributes: Record<string, string>, scope: NamespaceScope): XMPProperty[] {
+  return Object.entries(attributes)
+    .filter(([name]) => !isNamespaceDeclaration(name) && !STRUCTURAL_ATTRIBUTES.has(name))
+    .map(([name, value]) => createProperty(name, scope, { kind: "simple", value: String(value) }, true))
+}
+
+function parseElementProperties(nodes: XMLNode[], scope: NamespaceScope): XMPProperty[] {
+  return getElements(nodes).map((child) => {
+    const childScope = extendScope(scope, child)
+    return createProperty(getNodeName(child), childScope, parseValue(child, childScope))
+  })
+}
+
+// Properties of an rdf:Description, in attribute form and as child elements
+function parseFields(node: XMLNode, scope: NamespaceScope): XMPProperty[] {
+  const nodeScope = extendScope(scope, node)
+  return [
+    ...parseAttributeProperties(node[":@"] ?? {}, nodeScope),
+    ...parseElementProperties(getChildren(node), nodeScope),
+  ]
+}
+
+// Parse the value of a property element or an rdf:li item; `scope` already includes the node's own declarations
+function parseValue(node: XMLNode, scope: NamespaceScope): XMPValue {
+  const attributes = node[":@"] ?? {}
+  const children = getChildren(node)
+  const elements = getElements(children)
+
+  if (attributes["rdf:parseType"] === "Resource") {
+    return { kind: "struct", fields: parseElementProperties(children, scope) }
+  }
+
+  const [first] = elements
+  if (first && elements.length === 1) {
+    const arrayType = ARRAY_TYPES.find((type) => getNodeName(first) === `rdf:${type}`)
+    if (arrayType) {
+      const arrayScope = extendScope(scope, first)
+      const items = getElements(getChildren(first)).filter((item) => getNodeName(item) === "rdf:li")
+      return { kind: "array", arrayType, items: items.map((item) => parseValue(item, extendScope(arrayScope, item))) }
+    }
+    if (getNodeName(first) === "rdf:Description") {
+      return { kind: "struct", fields: parseFields(first, scope) }
+    }
+  }
+
+  if (elements.length > 0) {
+    return { kind: "struct", fields: parseElementProperties(children, scope) }
+  }
+
+  const qualifiers = Object.fromEntries(
+    Object.entries(attributes)
+      .filter(([name]) => !isNamespaceDeclaration(name) && !STRUCTURAL_ATTRIBUTES.has(name))
+      .map(([name, value]) => [name, String(value)])
+  )
+  return Object.keys(qualifiers).length > 0
+    ? { kind: "simple", value: getText(children), qualifiers }
+    : { kind: "simple", value: getText(children) }
+}
+
+/**
+ * Parse an XMP packet into a document that keeps every property, namespace and array or struct intact.
+ * Accepts an <?xpacket?> wrapper, a bare rdf:RDF without x:xmpmeta, any number of rdf:Description
+ * elements and properties in attribute or element form.
+ */
+export function parseXMPDocument(xmpString: string): XMPDocument {
+  const parser = new XMLParser({
+    preserveOrder: true,
+    ignoreAttributes: false,
+    attributeNamePrefix: "",
+    // Keep values exactly as written ("+0.50" must not become 0.5)
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: false,
+  })
+
+  const nodes = parser.parse(xmpString) as XMLNode[]
+  const xmpmeta = findElement(nodes, {}, XMP_NAMESPACES.x, "xmpmeta")
+  const rdfScope = xmpmeta ? extendScope({}, xmpmeta) : {}
+  const rdf = findElement(xmpmeta ? getChildren(xmpmeta) : nodes, rdfScope, XMP_NAMESPACES.rdf, "RDF")
+  if (!rdf) {
+    throw new Error("Invalid XMP format: missing rdf:RDF element")
+  }
+
+  const namespaces: Record<string, string> = {}
+  collectNamespaces(nodes, namespaces)
+
+  const descriptionScope = extendScope(rdfScope, rdf)
+  const descriptions = getElements(getChildren(rdf))
+    .filter((node) => getNodeName(node) === "rdf:Description")
+    .map((node) => ({ about: node[":@"]?.["rdf:about"] ?? "", properties: parseFields(node, descriptionScope) }))
+
+  const toolkit = Object.entries(xmpmeta?.[":@"] ?? {}).find(([name]) => splitName(name).localName === "xmptk")?.[1]
+  return { ...(toolkit ? { toolkit } : {}), namespaces, descriptions }
+}
+
+function appendValue(parent: XMLBuilder, name: string, value: XMPValue): void {
+  if (value.kind === "simple") {
+    parent.ele(name, value.qualifiers ?? {}).txt(value.value)
+    return
+  }
+
+  const element = parent.ele(name)
+  if (value.kind === "array") {
+    const array = element.ele(`rdf:${value.arrayType}`)
+    value.items.forEach((item) => appendValue(array, "rdf:li", item))
+    return
+  }
+
+  appendFields(element.ele("rdf:Description"), value.fields)
+}
+
+function appendFields(description: XMLBuilder, fields: XMPProperty[]): void {
+  fields.forEach((field) => {
+    if (field.attribute && field.value.kind === "simple" && !field.value.qualifiers) {
+      description.att(field.name, field.value.value)
+    } else {
+      appendValue(description, field.name, field.value)
+    }
+  })
+}
+
+/**
+ * Serialize a document back to an XMP packet. Everything parseXMPDocument read is written back, so
+ * parse → serialize → parse yields the same document.
+ */
+export function serializeXMPDocument(document: XMPDocument): string {
+  const doc = create({ version: "1.0", encoding: "UTF-8" })
+  const xmpmeta = doc.ele("x:xmpmeta", {
+    "xmlns:x": XMP_NAMESPACES.x,
+    ...(document.toolkit ? { "x:xmptk": document.toolkit } : {}),
+  })
+  const rdf = xmpmeta.ele("rdf:RDF", { "xmlns:rdf": XMP_NAMESPACES.rdf })
+
+  // Declare every other namespace on each description, the way Lightroom writes sidecars
+  const declarations = Object.fromEntries(
+    Object.entries(document.namespaces)
+      .filter(([prefix]) => prefix !== "x" && prefix !== "rdf" && prefix !== "xml")
+      .map(([prefix, uri]) => [`xmlns:${prefix}`, uri])
+  )
+
+  document.descriptions.forEach(({ about, properties }) => {
+    appendFields(rdf.ele("rdf:Description", { "rdf:about": about, ...declarations }), properties)
+  })
+
+  return doc.end({ prettyPrint: true, indent: " " })
+}
+
+/**
+ * Create an empty document with the camera raw settings namespace declared
+ */
+export function createXMPDocument(about = ""): XMPDocument {
+  return {
+    namespaces: { crs: XMP_NAMESPACES.crs },
+    descriptions: [{ about, properties: [] }],
+  }
+}
+
+// Properties match by namespace URI and local name, so "crs:Exposure2012" also finds one written as
+// "ns1:Exposure2012" when ns1 is bound to the camera raw settings namespace
+function matchesName(property: XMPProperty, document: XMPDocument, name: string): boolean {
+  const { prefix, localName } = splitName(name)
+  const target = splitName(property.name)
+  if (target.localName !== localName) return false
+
+  // Well-known prefixes in lookups always mean their standard namespace, whatever the packet bound them to
+  const namespace = XMP_NAMESPACES[prefix as keyof typeof XMP_NAMESPACES] ?? document.namespaces[prefix]
+  return namespace === undefined || property.namespace === undefined
+    ? target.prefix === prefix
+    : property.namespace === namespace
+}
+
+/**
+ * Look a property up across every rdf:Description, so split descriptions read as one merged set.
+ * The first description that has the property wins.
+ */
+export function getXMPProperty(document: XMPDocument, name: string): XMPProperty | undefined {
+  for (const description of document.descriptions) {
+    const property = description.properties.find((candidate) => matchesName(candidate, document, name))
+    if (property) return property
+  }
+  return undefined
+}
+
+export function hasXMPProperty(document: XMPDocument, name: string): boolean {
+  return getXMPProperty(document, name) !== undefined
+}
+
+// Text of a simple property; undefined when the property is absent or is an array or struct
+export function getXMPString(document: XMPDocument, name: string): string | undefined {
+  const value = getXMPProperty(document, name)?.value
+  return value?.kind === "simple" ? value.value : undefined
+}
+
+// Numeric value of a simple property; undefined when absent or not a number, never a silent 0
+export function getXMPNumber(document: XMPDocument, name: string): number | undefined {
+  const text = getXMPString(document, name)
+  if (text === undefined || text.trim() === "") return undefined
+  const value = Number(text.trim())
+  return Number.isFinite(value) ? value : undefined
+}
+
+export function getXMPBoolean(document: XMPDocument, name: string): boolean | undefined {
+  const text = getXMPString(document, name)?.trim().toLowerCase()
+  return text === "true" ? true : text === "false" ? false : undefined
+}
+
+// Items of a simple-valued array (e.g. tone curve points); undefined when absent or not an array
+export function getXMPArray(document: XMPDocument, name: string): string[] | undefined {
+  const value = getXMPProperty(document, name)?.value
+  if (value?.kind !== "array") return undefined
+  return value.items.flatMap((item) => (item.kind === "simple" ? [item.value] : []))
+}
+
+/**
+ * Replace a property's value in place, keeping its position and form, or append it to the first description
+ */
+export function setXMPProperty(document: XMPDocument, name: string, value: XMPValue | string | number | boolean): void {
+  const xmpValue: XMPValue = typeof value === "object" ? value : { kind: "simple", value: formatXMPScalar(value) }
+  const existing = getXMPProperty(document, name)
+  if (existing) {
+    existing.value = xmpValue
+    if (xmpValue.kind !== "simple") existing.attribute = undefined
+    return
+  }
+
+  if (document.descriptions.length === 0) {
+    document.descriptions.push({ about: "", properties: [] })
+  }
+  document.descriptions[0]!.properties.push(
+    createProperty(name, document.namespaces, xmpValue, xmpValue.kind === "simple")
+  )
+}
+
+export function deleteXMPProperty(document: XMPDocument, name: string): boolean {
+  let deleted = false
+  document.descriptions.forEach((description) => {
+    const remaining = description.properties.filter((property) => !matchesName(property, document, name))
+    deleted ||= remaining.length !== description.properties.length
+    description.properties = remaining
+  })
+  return deleted
+}
+
+// Lightroom writes booleans as True/False
+function formatXMPScalar(value: string | number | boolean): string {
+  if (typeof value === "boolean") return value ? "True" : "False"
+  return String(value)
+}
@@ -7,9 +7,56 @@ export const env = createEnv({
       .enum(["true", "false"])
       .optional()
       .transform((value) => value === "true"),
+    WORKER_POOL_SIZE: z.coerce.number().int().min(1).optional(),
+    WORKER_TASK_TIMEOUT: z.coerce.number().int().min(1000).default(120000),
+    JOB_STORE: z.enum(["memory", "filesystem"]).default("memory"),
+    JOB_STORE_DIR: z.string().min(1).optional(),
+    JOB_RETENTION: z.coerce.number().int().min(0).default(3600000),
+    TEMP_REQUEST_QUOTA: z.coerce.number().int().min(1).default(209715200), // 200MB
+    TEMP_GLOBAL_QUOTA: z.coerce.number().int().min(1).default(2147483648), // 2GB
+    TEMP_SWEEP_INTERVAL: z.coerce.number().int().min(1000).default(600000),
+    TEMP_DIR_MAX_AGE: z.coerce.number().int().min(0).default(3600000),
+    STORAGE_DRIVER: z.enum(["filesystem", "s3"]).default("filesystem"),
+    STORAGE_DIR: z.string().min(1).optional(),
+    STORAGE_TTL: z.coerce.number().int().min(0).default(604800000), // 7 days
+    STORAGE_URL_TTL: z.coerce.number().int().min(1000).default(86400000), // 1 day
+    STORAGE_SIGNING_SECRET: z.string().min(32).optional(),
+    S3_ENDPOINT: z.string().url().optional(),
+    S3_REGION: z.string().min(1).default("us-east-1"),
+    S3_BUCKET: z.string().min(1).optional(),
+    S3_ACCESS_KEY_ID: z.string().min(1).optional(),
+    S3_SECRET_ACCESS_KEY: z.string().min(1).optional(),
+    S3_FORCE_PATH_STYLE: z
+      .enum(["true", "false"])
+      .optional()
+      .transform((value) => (value === undefined ? undefined : value === "true")),
+    S3_PREFIX: z.string().default("artifacts/"), // "" keeps artifacts at the bucket root
+    PRESET_DATABASE: z.string().min(1).optional(),
   },
   client: {},
   runtimeEnv: {
     ANALYZE: process.env.ANALYZE,
+    WORKER_POOL_SIZE: process.env.WORKER_POOL_SIZE,
+    WORKER_TASK_TIMEOUT: process.env.WORKER_TASK_TIMEOUT,
+    JOB_STORE: process.env.JOB_STORE,
+    JOB_STORE_DIR: process.env.JOB_STORE_DIR,
+    JOB_RETENTION: process.env.JOB_RETENTION,
+    TEMP_REQUEST_QUOTA: process.env.TEMP_REQUEST_QUOTA,
+    TEMP_GLOBAL_QUOTA: process.env.TEMP_GLOBAL_QUOTA,
+    TEMP_SWEEP_INTERVAL: process.env.TEMP_SWEEP_INTERVAL,
+    TEMP_DIR_MAX_AGE: process.env.TEMP_DIR_MAX_AGE,
+    STORAGE_DRIVER: process.env.STORAGE_DRIVER,
+    STORAGE_DIR: process.env.STORAGE_DIR,
+    STORAGE_TTL: process.env.STORAGE_TTL,
+    STORAGE_URL_TTL: process.env.STORAGE_URL_TTL,
+    STORAGE_SIGNING_SECRET: process.env.STORAGE_SIGNING_SECRET,
+    S3_ENDPOINT: process.env.S3_ENDPOINT,
+    S3_REGION: process.env.S3_REGION,
+    S3_BUCKET: process.env.S3_BUCKET,
+    S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY,
+    S3_FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE,
+    S3_PREFIX: process.env.S3_PREFIX,
+    PRESET_DATABASE: process.env.PRESET_DATABASE,
   },
 })
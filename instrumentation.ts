@@ -1,5 +1,15 @@
 import { registerOTel } from "@vercel/otel"
 
-export function register() {
+export async function register() {
   registerOTel("next-app")
+
+  // Clean up temp dirs left by crashed processes and expired artifacts now and periodically afterwards
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startStorageSweeper } = await import("./app/api/shared/file-manager")
+    startStorageSweeper()
+
+    // Jobs left unfinished by a previous run of this server will never finish
+    const { recoverInterruptedJobs } = await import("./app/api/jobs/jobs-core")
+    await recoverInterruptedJobs().catch((error) => console.error("Error recovering interrupted jobs:", error))
+  }
 }
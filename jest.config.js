@@ -4,11 +4,24 @@ const createJestConfig = nextJest({
   dir: "./",
 })
 
+// env.mjs validates the environment with @t3-oss/env-nextjs, which only ships ES modules
+const ESM_PACKAGES = ["@t3-oss/env-nextjs", "@t3-oss/env-core"]
+
 const customJestConfig = {
   setupFilesAfterEnv: ["<rootDir>/jest.setup.js"],
   testEnvironment: "jest-environment-jsdom",
   modulePathIgnorePatterns: ["<rootDir>/dist/"],
   testPathIgnorePatterns: ["<rootDir>/e2e"],
+  // Resolve root imports such as "env.mjs" the way the tsconfig baseUrl does
+  moduleDirectories: ["node_modules", "<rootDir>/"],
 }
 
-module.exports = createJestConfig(customJestConfig)
+module.exports = async () => {
+  const config = await createJestConfig(customJestConfig)()
+  // next/jest only transpiles the packages next.config lists; add the ESM ones, in plain and pnpm store paths
+  const packages = ESM_PACKAGES.flatMap((name) => [name, name.replace("/", "\\+")]).join("|")
+  config.transformIgnorePatterns = config.transformIgnorePatterns.map((pattern) =>
+    pattern.replace(/\(\?!\((.*?)\)([/@])\)/, (_, listed, separator) => `(?!(${listed}|${packages})${separator})`)
+  )
+  return config
+}
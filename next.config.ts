@@ -5,6 +5,16 @@ import { env } from "./env.mjs"
 
 const config: NextConfig = {
   reactStrictMode: true,
+  // exiftool-vendored resolves its platform-specific ExifTool package at runtime, so it cannot be bundled
+  serverExternalPackages: ["exiftool-vendored"],
+  webpack: (config, { dev, nextRuntime }) => {
+    // Worker entries (new Worker(new URL(...))) are resolved against the server runtime, but Next's public path is
+    // the browser URL prefix; point them at the directory the server chunks are emitted to instead
+    if (nextRuntime === "nodejs") {
+      config.output.workerPublicPath = dev ? "./" : "./chunks/"
+    }
+    return config
+  },
   logging: {
     fetches: {
       fullUrl: true,